@@ -0,0 +1,660 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Category,
+  Coupon,
+  Order,
+  OrderItem,
+  OrderNote,
+  OrderStatus,
+  OrderStatusHistory,
+  Profile,
+  ProductImage,
+  ProductOptionType,
+  ProductVariant,
+  ReturnRequest,
+  ShippingMethod,
+  ShippingZone,
+  StoreSettings,
+  TaxRate
+} from '@/types';
+import { serializeVariantMatrix, VariantMatrix } from '@/lib/variantMatrix';
+import { Refund, RefundQuantities } from '@/lib/refunds';
+import { Payment } from '@/lib/payments';
+import { queryKeys } from '@/api/keys';
+
+export interface AdminProduct {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  stock: number;
+  reserved: number;
+  weight: number;
+  image_url: string | null;
+  category_id: string | null;
+  featured: boolean | null;
+  has_variants: boolean;
+  created_at: string;
+  updated_at: string;
+  categories?: { name: string } | null;
+  product_option_types?: ProductOptionType[];
+  product_variants?: ProductVariant[];
+  product_images?: ProductImage[];
+}
+
+export interface AdminOrder extends Order {
+  order_items: OrderItem[];
+}
+
+export interface AdminShippingZone extends ShippingZone {
+  shipping_methods: ShippingMethod[];
+}
+
+export interface AdminCoupon extends Coupon {
+  // Orders that used the coupon, not counting cancelled ones
+  uses: number;
+}
+
+const ADMIN_ORDERS_LIMIT = 50;
+
+export function useAdminProducts(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.products(),
+    queryFn: async (): Promise<AdminProduct[]> => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*, categories(name), product_option_types(*), product_variants(*), product_images(*)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as AdminProduct[];
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar los productos' }
+  });
+}
+
+export interface AdminOrderDetail extends AdminOrder {
+  order_status_history: OrderStatusHistory[];
+  payments: Payment[];
+  refunds: Refund[];
+  order_notes: OrderNote[];
+  // Null if the customer's profile was deleted
+  profile: Profile | null;
+}
+
+export function useAdminOrder(orderId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.order(orderId ?? ''),
+    queryFn: async (): Promise<AdminOrderDetail> => {
+      const { data: order, error } = await supabase
+        .from('orders')
+        .select(
+          '*, order_items(*), order_status_history(*), payments(*), refunds(*), order_notes(*, profiles(full_name, email))'
+        )
+        .eq('id', orderId!)
+        .single();
+      if (error) throw error;
+
+      // orders.user_id points at auth.users, so the profile cannot be embedded
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', order.user_id)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      return { ...order, profile } as AdminOrderDetail;
+    },
+    enabled: enabled && !!orderId,
+    meta: { errorMessage: 'Error al cargar el pedido' }
+  });
+}
+
+export function useAdminOrders(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.orders(),
+    queryFn: async (): Promise<AdminOrder[]> => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items(*)')
+        .order('created_at', { ascending: false })
+        .limit(ADMIN_ORDERS_LIMIT);
+      if (error) throw error;
+      return data as AdminOrder[];
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar los pedidos' }
+  });
+}
+
+export function useAdminReturnRequests(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.returns(),
+    queryFn: async (): Promise<ReturnRequest[]> => {
+      const { data, error } = await supabase
+        .from('return_requests')
+        .select('*, order_items(product_name, variant_title, product_price)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar las devoluciones' }
+  });
+}
+
+export function useAdminCoupons(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.coupons(),
+    queryFn: async (): Promise<AdminCoupon[]> => {
+      const { data, error } = await supabase
+        .from('coupons')
+        .select('*, orders(count)')
+        .neq('orders.status', 'cancelled')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data.map(({ orders, ...coupon }) => ({
+        ...(coupon as Coupon),
+        uses: orders[0]?.count ?? 0
+      }));
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar los cupones' }
+  });
+}
+
+export function useAdminShippingZones(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.shipping(),
+    queryFn: async (): Promise<AdminShippingZone[]> => {
+      const { data, error } = await supabase
+        .from('shipping_zones')
+        .select('*, shipping_methods(*)')
+        .order('name')
+        .order('position', { referencedTable: 'shipping_methods' });
+      if (error) throw error;
+      return data as AdminShippingZone[];
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar las zonas de envío' }
+  });
+}
+
+export function useAdminTaxRates(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.admin.taxRates(),
+    queryFn: async (): Promise<TaxRate[]> => {
+      const { data, error } = await supabase.from('tax_rates').select('*').order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar los impuestos' }
+  });
+}
+
+export interface SaveProductInput {
+  // Missing when creating a product
+  id?: string;
+  product: {
+    name: string;
+    description: string | null;
+    price: number;
+    weight: number;
+    category_id: string | null;
+    featured: boolean;
+    stock?: number;
+  };
+  // Null leaves the variants untouched; an empty matrix removes them
+  variants: VariantMatrix | null;
+  images: { url: string; alt_text: string | null }[];
+}
+
+// Anything shown in the storefront may have changed, so product lists and details are refetched too
+const invalidateCatalog = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.admin.products() });
+  queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+};
+
+export function useSaveProduct() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, product, variants, images }: SaveProductInput) => {
+      let productId = id;
+      if (productId) {
+        const { error } = await supabase.from('products').update(product).eq('id', productId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('products').insert(product).select('id').single();
+        if (error) throw error;
+        productId = data.id;
+      }
+
+      if (variants) {
+        const { options, variants: rows } = serializeVariantMatrix(variants);
+        const { error } = await supabase.rpc('save_product_variants', {
+          _product_id: productId,
+          _options: options,
+          _variants: rows
+        });
+        if (error) throw error;
+      }
+
+      // Replaces the gallery in the given order; the first image becomes the cover
+      const { error } = await supabase.rpc('save_product_images', {
+        _product_id: productId,
+        _images: images
+      });
+      if (error) throw error;
+
+      return productId;
+    },
+    onSettled: () => invalidateCatalog(queryClient),
+    meta: { errorMessage: 'Error al guardar el producto' }
+  });
+}
+
+export function useDeleteProduct() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (productId: string) => {
+      const { error } = await supabase.from('products').delete().eq('id', productId);
+      if (error) throw error;
+    },
+    // Drop the row immediately and restore the list if the delete fails
+    onMutate: async productId => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.admin.products() });
+      const previous = queryClient.getQueryData<AdminProduct[]>(queryKeys.admin.products());
+      queryClient.setQueryData<AdminProduct[]>(queryKeys.admin.products(), products =>
+        products?.filter(product => product.id !== productId)
+      );
+      return { previous };
+    },
+    onError: (_error, _productId, context) => {
+      queryClient.setQueryData(queryKeys.admin.products(), context?.previous);
+    },
+    onSettled: () => invalidateCatalog(queryClient),
+    meta: { errorMessage: 'Error al eliminar el producto', successMessage: 'Producto eliminado' }
+  });
+}
+
+export interface SaveCategoryInput {
+  id?: string;
+  category: {
+    name: string;
+    description: string | null;
+    image_url: string | null;
+  };
+}
+
+export function useSaveCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, category }: SaveCategoryInput) => {
+      const { error } = id
+        ? await supabase.from('categories').update(category).eq('id', id)
+        : await supabase.from('categories').insert(category);
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+      // Category names are embedded in the product rows
+      invalidateCatalog(queryClient);
+    },
+    meta: { errorMessage: 'Error al guardar la categoría' }
+  });
+}
+
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (categoryId: string) => {
+      const { error } = await supabase.from('categories').delete().eq('id', categoryId);
+      if (error) throw error;
+    },
+    onMutate: async categoryId => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.categories });
+      const previous = queryClient.getQueryData<Category[]>(queryKeys.categories);
+      queryClient.setQueryData<Category[]>(queryKeys.categories, categories =>
+        categories?.filter(category => category.id !== categoryId)
+      );
+      return { previous };
+    },
+    onError: (_error, _categoryId, context) => {
+      queryClient.setQueryData(queryKeys.categories, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.taxRates() });
+      invalidateCatalog(queryClient);
+    },
+    meta: {
+      errorMessage: 'Error al eliminar la categoría. Puede que tenga productos asociados.',
+      successMessage: 'Categoría eliminada'
+    }
+  });
+}
+
+export interface OrderStatusChange {
+  orderId: string;
+  status: OrderStatus;
+  note: string | null;
+}
+
+export function useUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    // The database validates the transition, records the history and moves reserved stock
+    mutationFn: async ({ orderId, status, note }: OrderStatusChange) => {
+      const { error } = await supabase.rpc('update_order_status', {
+        _order_id: orderId,
+        _status: status,
+        _note: note
+      });
+      if (error) throw error;
+    },
+    onMutate: async ({ orderId, status }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.admin.orders() });
+      const previous = queryClient.getQueryData<AdminOrder[]>(queryKeys.admin.orders());
+      queryClient.setQueryData<AdminOrder[]>(queryKeys.admin.orders(), orders =>
+        orders?.map(order => (order.id === orderId ? { ...order, status } : order))
+      );
+      return { previous };
+    },
+    onError: (_error, _change, context) => {
+      queryClient.setQueryData(queryKeys.admin.orders(), context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.orders() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      // Shipping or cancelling changes the stock shown in the catalog
+      invalidateCatalog(queryClient);
+    },
+    meta: { errorMessage: 'Error al actualizar el estado del pedido' }
+  });
+}
+
+// Cash collected by the courier or a bank transfer received; card payments are confirmed by the gateway
+export function useConfirmOrderPayment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (orderId: string) => {
+      const { error } = await supabase.rpc('confirm_order_payment', { _order_id: orderId });
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.orders() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+    meta: { errorMessage: 'Error al registrar el pago' }
+  });
+}
+
+export interface RefundOrderInput {
+  orderId: string;
+  // Null refunds everything left, shipping included
+  quantities: RefundQuantities | null;
+  restock: boolean;
+  reason: string | null;
+}
+
+export interface RefundResult {
+  amount: number;
+  // Pending when the gateway's answer is unknown; retry it from the order
+  status: 'succeeded' | 'failed' | 'pending';
+}
+
+// The refund-payment function asks the gateway for a card refund and records
+// its answer. If it cannot, the refund stays pending and is retried with the
+// same id, which keeps the gateway from refunding twice.
+const sendCardRefund = async (refundId: string) => {
+  const { data, error } = await supabase.functions.invoke<{ status: 'succeeded' | 'failed' }>('refund-payment', {
+    body: { refundId }
+  });
+  if (error) throw error;
+  return data.status;
+};
+
+const invalidateRefunds = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.admin.orders() });
+  queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+  // Restocked units show up in the catalog again
+  invalidateCatalog(queryClient);
+};
+
+// Card refunds are sent to the gateway and recorded with its answer; cash and
+// transfer refunds are handed back by the store and complete straight away
+export function useRefundOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ orderId, quantities, restock, reason }: RefundOrderInput): Promise<RefundResult> => {
+      const { data, error } = await supabase.rpc('create_refund', {
+        _order_id: orderId,
+        _items: quantities
+          ? Object.entries(quantities)
+              .filter(([, quantity]) => quantity > 0)
+              .map(([orderItemId, quantity]) => ({ order_item_id: orderItemId, quantity }))
+          : undefined,
+        _restock: restock,
+        _reason: reason
+      });
+      if (error) throw error;
+      const refund = data[0];
+      if (refund.status !== 'pending') return { amount: refund.amount, status: 'succeeded' };
+
+      try {
+        return { amount: refund.amount, status: await sendCardRefund(refund.id) };
+      } catch (sendError) {
+        console.error('Error sending refund:', sendError);
+        return { amount: refund.amount, status: 'pending' };
+      }
+    },
+    onSettled: () => invalidateRefunds(queryClient),
+    meta: { errorMessage: 'Error al reembolsar el pedido' }
+  });
+}
+
+// For a card refund left pending (the gateway could not be reached or the tab
+// closed before its answer was recorded)
+export function useRetryRefund() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (refund: Refund): Promise<RefundResult> => {
+      const status = await sendCardRefund(refund.id);
+      return { amount: refund.amount, status };
+    },
+    onSettled: () => invalidateRefunds(queryClient),
+    meta: { errorMessage: 'Error al reintentar el reembolso' }
+  });
+}
+
+export interface ReturnResolution {
+  requestId: string;
+  approve: boolean;
+  restock: boolean;
+  note: string | null;
+}
+
+export function useResolveReturnRequest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ requestId, approve, restock, note }: ReturnResolution) => {
+      const { error } = await supabase.rpc('resolve_return_request', {
+        _request_id: requestId,
+        _approve: approve,
+        _restock: approve && restock,
+        _note: note
+      });
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.returns() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      invalidateCatalog(queryClient);
+    },
+    meta: { errorMessage: 'Error al resolver la devolución' }
+  });
+}
+
+export interface SaveCouponInput {
+  id?: string;
+  coupon: Omit<Coupon, 'id' | 'created_at' | 'updated_at'>;
+}
+
+export function useSaveCoupon() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, coupon }: SaveCouponInput) => {
+      const { error } = id
+        ? await supabase.from('coupons').update(coupon).eq('id', id)
+        : await supabase.from('coupons').insert(coupon);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.coupons() }),
+    meta: { errorMessage: 'Error al guardar el cupón' }
+  });
+}
+
+export function useDeleteCoupon() {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.admin.coupons();
+  return useMutation({
+    mutationFn: async (couponId: string) => {
+      const { error } = await supabase.from('coupons').delete().eq('id', couponId);
+      if (error) throw error;
+    },
+    onMutate: async couponId => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AdminCoupon[]>(queryKey);
+      queryClient.setQueryData<AdminCoupon[]>(queryKey, coupons => coupons?.filter(coupon => coupon.id !== couponId));
+      return { previous };
+    },
+    onError: (_error, _couponId, context) => queryClient.setQueryData(queryKey, context?.previous),
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+    meta: { errorMessage: 'Error al eliminar el cupón', successMessage: 'Cupón eliminado' }
+  });
+}
+
+export interface SaveShippingZoneInput {
+  id?: string;
+  zone: Pick<ShippingZone, 'name' | 'cities'>;
+}
+
+export function useSaveShippingZone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, zone }: SaveShippingZoneInput) => {
+      const { error } = id
+        ? await supabase.from('shipping_zones').update(zone).eq('id', id)
+        : await supabase.from('shipping_zones').insert(zone);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.shipping() }),
+    meta: { errorMessage: 'Error al guardar la zona de envío' }
+  });
+}
+
+export function useDeleteShippingZone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (zoneId: string) => {
+      const { error } = await supabase.from('shipping_zones').delete().eq('id', zoneId);
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.shipping() });
+      // The zone's tax rates are deleted with it
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.taxRates() });
+    },
+    meta: { errorMessage: 'Error al eliminar la zona de envío', successMessage: 'Zona eliminada' }
+  });
+}
+
+export interface SaveShippingMethodInput {
+  id?: string;
+  method: Omit<ShippingMethod, 'id' | 'created_at' | 'updated_at'>;
+}
+
+export function useSaveShippingMethod() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, method }: SaveShippingMethodInput) => {
+      const { error } = id
+        ? await supabase.from('shipping_methods').update(method).eq('id', id)
+        : await supabase.from('shipping_methods').insert(method);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.shipping() }),
+    meta: { errorMessage: 'Error al guardar el método de envío' }
+  });
+}
+
+export function useDeleteShippingMethod() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (methodId: string) => {
+      const { error } = await supabase.from('shipping_methods').delete().eq('id', methodId);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.shipping() }),
+    meta: { errorMessage: 'Error al eliminar el método de envío', successMessage: 'Método eliminado' }
+  });
+}
+
+export interface SaveTaxRateInput {
+  id?: string;
+  taxRate: Omit<TaxRate, 'id' | 'created_at' | 'updated_at'>;
+}
+
+export function useSaveTaxRate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, taxRate }: SaveTaxRateInput) => {
+      const { error } = id
+        ? await supabase.from('tax_rates').update(taxRate).eq('id', id)
+        : await supabase.from('tax_rates').insert(taxRate);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.taxRates() }),
+    meta: { errorMessage: 'Error al guardar el impuesto' }
+  });
+}
+
+export function useDeleteTaxRate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (taxRateId: string) => {
+      const { error } = await supabase.from('tax_rates').delete().eq('id', taxRateId);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.taxRates() }),
+    meta: { errorMessage: 'Error al eliminar el impuesto', successMessage: 'Impuesto eliminado' }
+  });
+}
+
+export type StoreSettingsInput = Omit<StoreSettings, 'updated_at'>;
+
+export function useSaveStoreSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (settings: StoreSettingsInput) => {
+      const { error } = await supabase.from('store_settings').update(settings).eq('id', true);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.settings }),
+    meta: { errorMessage: 'Error al guardar los ajustes de pago' }
+  });
+}
+
+export function useAddOrderNote(orderId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (body: string) => {
+      const { error } = await supabase.from('order_notes').insert({ order_id: orderId, body });
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.admin.order(orderId) }),
+    meta: { errorMessage: 'Error al guardar la nota', successMessage: 'Nota guardada' }
+  });
+}
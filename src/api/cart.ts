@@ -0,0 +1,455 @@
+import { useEffect } from 'react';
+import { queryOptions, useMutation, useMutationState, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CartItem, CouponType, Product, ProductVariant, ShippingKind } from '@/types';
+import { getCartItemPrice } from '@/lib/cart';
+import { queryKeys } from '@/api/keys';
+import { toast } from 'sonner';
+
+// Id of the cart filled during the current anonymous session, merged into the user's cart on sign-in
+const GUEST_CART_STORAGE_KEY = 'nexoshop:guest-cart';
+
+// Touched after every cart change so other tabs of this browser refetch right away
+const CART_UPDATED_STORAGE_KEY = 'nexoshop:cart-updated';
+
+// Carts belong to auth.uid(); guests get one through an anonymous session
+async function getOrCreateCart(ownerId: string) {
+  const { data: existingCart, error } = await supabase
+    .from('carts')
+    .select('id')
+    .eq('user_id', ownerId)
+    .maybeSingle();
+  if (error) throw error;
+  if (existingCart) return existingCart.id;
+
+  const { data: newCart, error: insertError } = await supabase
+    .from('carts')
+    .insert({ user_id: ownerId })
+    .select('id')
+    .single();
+  if (insertError) throw insertError;
+  return newCart.id;
+}
+
+export interface MergedCartItem {
+  product_name: string;
+  // Units the guest cart had and units that fit in the user's cart
+  requested: number;
+  quantity: number;
+  capped: boolean;
+}
+
+export interface CartSession {
+  id: string;
+  // Lines brought over from the guest cart when the user signed in
+  merged: MergedCartItem[];
+}
+
+// Moves what was added as a guest into the signed-in user's cart, then forgets the guest cart
+async function mergeGuestCart(): Promise<MergedCartItem[]> {
+  const guestCartId = localStorage.getItem(GUEST_CART_STORAGE_KEY);
+  if (!guestCartId) return [];
+
+  const { data, error } = await supabase.rpc('merge_guest_cart', { _guest_cart_id: guestCartId });
+  if (error) throw error;
+  localStorage.removeItem(GUEST_CART_STORAGE_KEY);
+  return data;
+}
+
+// ownerId is the session's user, anonymous or not; null before a guest has a session
+export const cartSessionOptions = (ownerId: string | null, anonymous: boolean) =>
+  queryOptions({
+    queryKey: queryKeys.cart.id(ownerId ?? 'none'),
+    queryFn: async (): Promise<CartSession | null> => {
+      if (!ownerId) return null;
+      if (anonymous) {
+        const id = await getOrCreateCart(ownerId);
+        localStorage.setItem(GUEST_CART_STORAGE_KEY, id);
+        return { id, merged: [] };
+      }
+
+      // Merge first so the user's cart is created at most once. A failed merge keeps the
+      // guest cart for the next sign-in instead of blocking the user's own cart.
+      const merged = await mergeGuestCart().catch(error => {
+        console.error('Error merging guest cart:', error);
+        return [];
+      });
+      return { id: await getOrCreateCart(ownerId), merged };
+    },
+    staleTime: Infinity
+  });
+
+export function useCartSession(ownerId: string | null, anonymous: boolean, enabled = true) {
+  return useQuery({
+    ...cartSessionOptions(ownerId, anonymous),
+    enabled,
+    meta: { errorMessage: 'Error al cargar el carrito' }
+  });
+}
+
+export function useCartItems(cartId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.cart.items(cartId ?? ''),
+    queryFn: async (): Promise<CartItem[]> => {
+      const { data, error } = await supabase
+        .from('cart_items')
+        .select('*, products(*), product_variants(*)')
+        .eq('cart_id', cartId!)
+        .order('created_at');
+      if (error) throw error;
+      return data as CartItem[];
+    },
+    enabled: !!cartId
+  });
+}
+
+// Server answer for add_cart_item and set_cart_item_quantity
+export interface CartItemChange {
+  item_id: string;
+  quantity: number;
+  // Units in stock when the change was made; null when the line was removed
+  available: number | null;
+  // True when more units were requested than available and the quantity was capped
+  clamped: boolean;
+}
+
+export interface AddCartItemInput {
+  // Passed per call because a guest's cart may be created right before the first add
+  cartId: string;
+  product: Product;
+  variant: ProductVariant | null;
+  quantity: number;
+}
+
+export interface UpdateCartItemInput {
+  itemId: string;
+  quantity: number;
+}
+
+type QueryClient = ReturnType<typeof useQueryClient>;
+
+// Cart mutations share a scope so they reach the server in the order they were made
+const cartMutationOptions = {
+  mutationKey: queryKeys.cart.mutation(),
+  scope: { id: 'cart' }
+};
+
+const OPTIMISTIC_ID_PREFIX = 'optimistic:';
+
+export const isOptimisticItem = (item: CartItem) => item.id.startsWith(OPTIMISTIC_ID_PREFIX);
+
+export const getStockMessage = (name: string, available: number) => {
+  if (available <= 0) return `${name} se ha agotado`;
+  return available === 1
+    ? `Solo queda 1 unidad de ${name}; ajustamos la cantidad`
+    : `Solo quedan ${available} unidades de ${name}; ajustamos la cantidad`;
+};
+
+// Applies a change to the cached items and returns a snapshot to roll back to
+async function updateCachedItems(
+  queryClient: QueryClient,
+  queryKey: readonly unknown[],
+  update: (items: CartItem[]) => CartItem[]
+) {
+  await queryClient.cancelQueries({ queryKey });
+  const previous = queryClient.getQueryData<CartItem[]>(queryKey);
+  queryClient.setQueryData<CartItem[]>(queryKey, items => update(items ?? []));
+  return { previous };
+}
+
+// Refetch once the last queued cart mutation settles, so an older response does not overwrite newer optimistic state
+function refetchWhenIdle(queryClient: QueryClient, queryKey: readonly unknown[]) {
+  if (queryClient.isMutating({ mutationKey: queryKeys.cart.mutation() }) <= 1) {
+    localStorage.setItem(CART_UPDATED_STORAGE_KEY, Date.now().toString());
+    return queryClient.invalidateQueries({ queryKey });
+  }
+}
+
+export function useAddCartItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...cartMutationOptions,
+    mutationFn: async ({ cartId, product, variant, quantity }: AddCartItemInput): Promise<CartItemChange> => {
+      const { data, error } = await supabase.rpc('add_cart_item', {
+        _cart_id: cartId,
+        _product_id: product.id,
+        _variant_id: variant?.id ?? null,
+        _quantity: quantity
+      });
+      if (error) throw error;
+      return data[0];
+    },
+    onMutate: ({ cartId, product, variant, quantity }) => {
+      const stock = variant?.stock ?? product.stock;
+      return updateCachedItems(queryClient, queryKeys.cart.items(cartId), items => {
+        const existing = items.find(item => item.product_id === product.id && item.variant_id === (variant?.id ?? null));
+        if (existing) {
+          return items.map(item =>
+            item === existing ? { ...item, quantity: Math.min(item.quantity + quantity, stock) } : item
+          );
+        }
+        const now = new Date().toISOString();
+        return [...items, {
+          id: `${OPTIMISTIC_ID_PREFIX}${crypto.randomUUID()}`,
+          cart_id: cartId,
+          product_id: product.id,
+          variant_id: variant?.id ?? null,
+          quantity: Math.min(quantity, stock),
+          unit_price: variant?.price ?? product.price,
+          created_at: now,
+          updated_at: now,
+          products: product,
+          product_variants: variant
+        }];
+      });
+    },
+    onSuccess: (change, { product, variant }) => {
+      const name = variant ? `${product.name} (${variant.title})` : product.name;
+      if (change.clamped) {
+        toast.warning(getStockMessage(name, change.available));
+      } else {
+        toast.success('Producto agregado al carrito');
+      }
+    },
+    onError: (_error, { cartId }, context) => queryClient.setQueryData(queryKeys.cart.items(cartId), context?.previous),
+    onSettled: (_data, _error, { cartId }) => refetchWhenIdle(queryClient, queryKeys.cart.items(cartId)),
+    meta: { errorMessage: 'Error al agregar producto' }
+  });
+}
+
+export function useUpdateCartItem(cartId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.cart.items(cartId ?? '');
+  return useMutation({
+    ...cartMutationOptions,
+    mutationFn: async ({ itemId, quantity }: UpdateCartItemInput): Promise<CartItemChange> => {
+      const { data, error } = await supabase.rpc('set_cart_item_quantity', {
+        _item_id: itemId,
+        _quantity: quantity
+      });
+      if (error) throw error;
+      return data[0];
+    },
+    onMutate: ({ itemId, quantity }) =>
+      updateCachedItems(queryClient, queryKey, items =>
+        quantity <= 0
+          ? items.filter(item => item.id !== itemId)
+          : items.map(item => (item.id === itemId ? { ...item, quantity } : item))
+      ),
+    onSuccess: (change, _variables, context) => {
+      if (!change.clamped) return;
+      const item = context.previous?.find(cached => cached.id === change.item_id);
+      const name = item?.products?.name ?? 'este producto';
+      toast.warning(getStockMessage(name, change.available));
+    },
+    onError: (_error, _variables, context) => queryClient.setQueryData(queryKey, context?.previous),
+    onSettled: () => refetchWhenIdle(queryClient, queryKey),
+    meta: { errorMessage: 'Error al actualizar cantidad' }
+  });
+}
+
+export function useRemoveCartItem(cartId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.cart.items(cartId ?? '');
+  return useMutation({
+    ...cartMutationOptions,
+    mutationFn: async (itemId: string) => {
+      const { error } = await supabase.from('cart_items').delete().eq('id', itemId);
+      if (error) throw error;
+    },
+    onMutate: itemId => updateCachedItems(queryClient, queryKey, items => items.filter(item => item.id !== itemId)),
+    onError: (_error, _itemId, context) => queryClient.setQueryData(queryKey, context?.previous),
+    onSettled: () => refetchWhenIdle(queryClient, queryKey),
+    meta: { errorMessage: 'Error al eliminar producto', successMessage: 'Producto eliminado' }
+  });
+}
+
+export function useClearCart(cartId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.cart.items(cartId ?? '');
+  return useMutation({
+    ...cartMutationOptions,
+    mutationFn: async () => {
+      const { error } = await supabase.from('cart_items').delete().eq('cart_id', cartId!);
+      if (error) throw error;
+    },
+    onMutate: () => updateCachedItems(queryClient, queryKey, () => []),
+    onError: (_error, _variables, context) => queryClient.setQueryData(queryKey, context?.previous),
+    onSettled: () => refetchWhenIdle(queryClient, queryKey)
+  });
+}
+
+export function useAcceptCartPrices(cartId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.cart.items(cartId ?? '');
+  return useMutation({
+    ...cartMutationOptions,
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('accept_cart_prices', { _cart_id: cartId! });
+      if (error) throw error;
+    },
+    onMutate: () =>
+      updateCachedItems(queryClient, queryKey, items =>
+        items.map(item => ({ ...item, unit_price: getCartItemPrice(item) }))
+      ),
+    onError: (_error, _variables, context) => queryClient.setQueryData(queryKey, context?.previous),
+    onSettled: () => refetchWhenIdle(queryClient, queryKey),
+    meta: { errorMessage: 'Error al actualizar los precios', successMessage: 'Precios actualizados' }
+  });
+}
+
+export interface CartCoupon {
+  code: string;
+  // Null when the coupon no longer applies
+  discount_type: CouponType | null;
+  discount: number;
+  // Why the coupon no longer applies (expired, below the minimum...)
+  error: string | null;
+}
+
+export function useCartCoupon(cartId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.cart.coupon(cartId ?? ''),
+    queryFn: async (): Promise<CartCoupon | null> => {
+      const { data, error } = await supabase.rpc('get_cart_coupon', { _cart_id: cartId! });
+      if (error) throw error;
+      return (data[0] as CartCoupon) ?? null;
+    },
+    enabled: !!cartId
+  });
+}
+
+// Applies a coupon to the cart, or removes it with a null code. Invalid codes are
+// rejected by the server with the reason as the error message.
+export function useSetCartCoupon(cartId: string | undefined) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    ...cartMutationOptions,
+    // Wrapped in an object so usePendingCartItemIds does not take the code for an item id
+    mutationFn: async ({ code }: { code: string | null }) => {
+      const { error } = await supabase.rpc('set_cart_coupon', { _cart_id: cartId!, _code: code });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { code }) => toast.success(code ? 'Cupón aplicado' : 'Cupón eliminado'),
+    // The coupon can change the shipping quotes too, which live under the items
+    onSettled: () => refetchWhenIdle(queryClient, queryKeys.cart.items(cartId ?? '')),
+    meta: { errorMessage: 'No se pudo aplicar el cupón' }
+  });
+}
+
+// Shipping method available for the cart in a city, priced by the server
+export interface ShippingOption {
+  method_id: string;
+  name: string;
+  kind: ShippingKind;
+  estimated_days: string | null;
+  cost: number;
+}
+
+export function useShippingOptions(cartId: string | undefined, city: string) {
+  return useQuery({
+    queryKey: queryKeys.cart.shipping(cartId ?? '', city),
+    queryFn: async (): Promise<ShippingOption[]> => {
+      const { data, error } = await supabase.rpc('get_shipping_options', { _cart_id: cartId!, _city: city });
+      if (error) throw error;
+      return data as ShippingOption[];
+    },
+    enabled: !!cartId && !!city,
+    meta: { errorMessage: 'Error al calcular el envío' }
+  });
+}
+
+export interface CartTaxes {
+  tax_total: number;
+  // Part of tax_total already included in the prices
+  tax_included: number;
+}
+
+// Without a city the taxes are estimated with the rates of the default zone
+export function useCartTaxes(cartId: string | undefined, city: string | null) {
+  return useQuery({
+    queryKey: queryKeys.cart.taxes(cartId ?? '', city),
+    queryFn: async (): Promise<CartTaxes> => {
+      const { data, error } = await supabase.rpc('get_cart_taxes', { _cart_id: cartId!, _city: city ?? undefined });
+      if (error) throw error;
+      return data[0] ?? { tax_total: 0, tax_included: 0 };
+    },
+    enabled: !!cartId,
+    meta: { errorMessage: 'Error al calcular los impuestos' }
+  });
+}
+
+// Ids of cart lines with a change still on its way to the server
+export function usePendingCartItemIds(): Set<string> {
+  const pending = useMutationState({
+    filters: { mutationKey: queryKeys.cart.mutation(), status: 'pending' },
+    select: mutation => mutation.state.variables
+  });
+  return new Set(
+    pending.flatMap(variables => {
+      if (typeof variables === 'string') return [variables];
+      if (variables && typeof variables === 'object' && 'itemId' in variables) {
+        return [(variables as UpdateCartItemInput).itemId];
+      }
+      return [];
+    })
+  );
+}
+
+// Keeps the cart in step with other tabs (storage events) and other devices (Realtime)
+export function useCartSync(cartId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      // A guest cart created or merged in another tab, or any cart line changed there
+      if (event.key === GUEST_CART_STORAGE_KEY) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.cart.all });
+      } else if (event.key === CART_UPDATED_STORAGE_KEY && cartId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.cart.items(cartId) });
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [cartId, queryClient]);
+
+  useEffect(() => {
+    if (!cartId) return;
+    const queryKey = queryKeys.cart.items(cartId);
+
+    // Our own changes echo back too; while any is queued its onSettled refetches instead
+    const refetch = () => {
+      if (queryClient.isMutating({ mutationKey: queryKeys.cart.mutation() }) === 0) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    };
+
+    const channel = supabase
+      .channel(`cart:${cartId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'cart_items', filter: `cart_id=eq.${cartId}` },
+        refetch
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'cart_items', filter: `cart_id=eq.${cartId}` },
+        refetch
+      )
+      // cart_items has REPLICA IDENTITY FULL so deletes can be filtered too. RLS still strips
+      // the old row down to its id, so check it against the cached lines as well.
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'cart_items', filter: `cart_id=eq.${cartId}` },
+        payload => {
+          const items = queryClient.getQueryData<CartItem[]>(queryKey);
+          if (payload.old.cart_id === cartId || items?.some(item => item.id === payload.old.id)) refetch();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [cartId, queryClient]);
+}
@@ -0,0 +1,203 @@
+import { keepPreviousData, queryOptions, useInfiniteQuery, useQuery, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Category, Product, ProductSearchHighlight } from '@/types';
+import { CatalogFilters, getCatalogFilterClauses } from '@/lib/catalogFilters';
+import { queryKeys } from '@/api/keys';
+
+export const CATALOG_PAGE_SIZE = 12;
+const SEARCH_RESULTS_LIMIT = 1000;
+const SUGGESTIONS_LIMIT = 6;
+
+export interface SearchResults {
+  // Matching product ids ordered by rank
+  ids: string[];
+  highlights: Record<string, ProductSearchHighlight>;
+}
+
+export interface ProductRange {
+  products: Product[];
+  // Total number of products matching the filters
+  count: number;
+}
+
+export type ProductSuggestion = Pick<Product, 'id' | 'name' | 'price' | 'image_url'>;
+
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: async (): Promise<Category[]> => {
+      const { data, error } = await supabase.from('categories').select('*').order('name');
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60_000
+  });
+}
+
+export function usePriceBounds() {
+  return useQuery({
+    queryKey: queryKeys.products.priceBounds(),
+    queryFn: async (): Promise<[number, number]> => {
+      const [cheapest, priciest] = await Promise.all([
+        supabase.from('products').select('price').order('price', { ascending: true }).limit(1).maybeSingle(),
+        supabase.from('products').select('price').order('price', { ascending: false }).limit(1).maybeSingle()
+      ]);
+      if (cheapest.error) throw cheapest.error;
+      if (priciest.error) throw priciest.error;
+      return [Math.floor(cheapest.data?.price ?? 0), Math.ceil(priciest.data?.price ?? 0)];
+    }
+  });
+}
+
+// Products per category with every filter except the category one applied
+export function useCategoryCounts(filters: CatalogFilters) {
+  return useQuery({
+    queryKey: queryKeys.products.categoryCounts({ ...filters, categories: [], sort: 'featured' }),
+    queryFn: async (): Promise<Record<string, number>> => {
+      const { data, error } = await supabase.rpc('get_category_counts', {
+        _search: filters.search || undefined,
+        _min_price: filters.minPrice ?? undefined,
+        _max_price: filters.maxPrice ?? undefined,
+        _in_stock: filters.inStock,
+        _featured: filters.featured
+      });
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(row => [row.category_id, row.product_count]));
+    },
+    placeholderData: keepPreviousData
+  });
+}
+
+const searchResultsOptions = (query: string) =>
+  queryOptions({
+    queryKey: queryKeys.products.search(query),
+    queryFn: async (): Promise<SearchResults> => {
+      const { data, error } = await supabase.rpc('search_products', {
+        _query: query,
+        _limit: SEARCH_RESULTS_LIMIT
+      });
+      if (error) throw error;
+      return {
+        ids: (data || []).map(result => result.id),
+        highlights: Object.fromEntries((data || []).map(result => [result.id, result]))
+      };
+    }
+  });
+
+export function useSearchResults(query: string) {
+  return useQuery({ ...searchResultsOptions(query), enabled: !!query });
+}
+
+// Products from..to (inclusive) for the given filters, plus the total number of matches
+async function fetchProductRange(
+  queryClient: QueryClient,
+  filters: CatalogFilters,
+  from: number,
+  to: number
+): Promise<ProductRange> {
+  // Shares the cached search with useSearchResults so paging does not repeat the RPC
+  const searchIds = filters.search
+    ? (await queryClient.fetchQuery(searchResultsOptions(filters.search))).ids
+    : null;
+
+  if (searchIds && filters.sort === 'relevance') {
+    // The rank order only exists in the search results, so page through the matching ids
+    let matchQuery = supabase.from('products').select('id');
+    for (const [column, operator, value] of getCatalogFilterClauses(filters, searchIds)) {
+      matchQuery = matchQuery.filter(column, operator, value);
+    }
+    const { data: matches, error } = await matchQuery;
+    if (error) throw error;
+
+    const matchingIds = new Set((matches || []).map(match => match.id));
+    const pageIds = searchIds.filter(id => matchingIds.has(id)).slice(from, to + 1);
+    const { data, error: pageError } = await supabase
+      .from('products')
+      .select('*, categories(*)')
+      .in('id', pageIds);
+    if (pageError) throw pageError;
+
+    return {
+      products: [...(data || [])].sort((a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id)) as Product[],
+      count: matchingIds.size
+    };
+  }
+
+  let query = supabase.from('products').select('*, categories(*)', { count: 'exact' });
+  for (const [column, operator, value] of getCatalogFilterClauses(filters, searchIds)) {
+    query = query.filter(column, operator, value);
+  }
+
+  switch (filters.sort) {
+    case 'price-asc':
+      query = query.order('price', { ascending: true });
+      break;
+    case 'price-desc':
+      query = query.order('price', { ascending: false });
+      break;
+    case 'name':
+      query = query.order('name', { ascending: true });
+      break;
+    default:
+      query = query.order('featured', { ascending: false }).order('created_at', { ascending: false });
+  }
+
+  // Tie-breaker so rows do not move between pages
+  const { data, count, error } = await query.order('id').range(from, to);
+  if (error) throw error;
+
+  return { products: (data || []) as Product[], count: count ?? 0 };
+}
+
+export function useCatalogInfinite(filters: CatalogFilters, enabled = true) {
+  const queryClient = useQueryClient();
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.catalog(filters),
+    queryFn: ({ pageParam }) =>
+      fetchProductRange(queryClient, filters, pageParam, pageParam + CATALOG_PAGE_SIZE - 1),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((total, page) => total + page.products.length, 0);
+      return loaded < lastPage.count && lastPage.products.length > 0 ? loaded : undefined;
+    },
+    enabled,
+    meta: { errorMessage: 'Error al cargar los productos' }
+  });
+}
+
+export function useCatalogPage(filters: CatalogFilters, page: number, enabled = true) {
+  const queryClient = useQueryClient();
+  const from = (page - 1) * CATALOG_PAGE_SIZE;
+  return useQuery({
+    queryKey: queryKeys.products.catalogPage(filters, page),
+    queryFn: () => fetchProductRange(queryClient, filters, from, from + CATALOG_PAGE_SIZE - 1),
+    placeholderData: keepPreviousData,
+    enabled,
+    meta: { errorMessage: 'Error al cargar los productos' }
+  });
+}
+
+// Top matches for the search box, in rank order
+export function useSearchSuggestions(query: string) {
+  return useQuery({
+    queryKey: queryKeys.products.suggestions(query),
+    queryFn: async (): Promise<ProductSuggestion[]> => {
+      const { data: results, error } = await supabase.rpc('search_products', {
+        _query: query,
+        _limit: SUGGESTIONS_LIMIT
+      });
+      if (error) throw error;
+
+      const ids = (results || []).map(result => result.id);
+      if (ids.length === 0) return [];
+
+      const { data, error: productsError } = await supabase
+        .from('products')
+        .select('id, name, price, image_url')
+        .in('id', ids);
+      if (productsError) throw productsError;
+      return [...(data || [])].sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+    },
+    enabled: !!query
+  });
+}
@@ -0,0 +1,45 @@
+import { CatalogFilters } from '@/lib/catalogFilters';
+
+// Hierarchical keys: invalidating a prefix (e.g. queryKeys.products.all) refreshes everything below it
+export const queryKeys = {
+  categories: ['categories'] as const,
+  settings: ['settings'] as const,
+  products: {
+    all: ['products'] as const,
+    priceBounds: () => [...queryKeys.products.all, 'price-bounds'] as const,
+    catalog: (filters: CatalogFilters) => [...queryKeys.products.all, 'catalog', filters] as const,
+    catalogPage: (filters: CatalogFilters, page: number) =>
+      [...queryKeys.products.all, 'catalog-page', filters, page] as const,
+    categoryCounts: (filters: CatalogFilters) => [...queryKeys.products.all, 'category-counts', filters] as const,
+    search: (query: string) => [...queryKeys.products.all, 'search', query] as const,
+    suggestions: (query: string) => [...queryKeys.products.all, 'suggestions', query] as const,
+    detail: (id: string) => [...queryKeys.products.all, 'detail', id] as const
+  },
+  cart: {
+    all: ['cart'] as const,
+    id: (owner: string) => [...queryKeys.cart.all, 'id', owner] as const,
+    items: (cartId: string) => [...queryKeys.cart.all, 'items', cartId] as const,
+    // Under the items so every change to the lines recalculates the discount
+    coupon: (cartId: string) => [...queryKeys.cart.items(cartId), 'coupon'] as const,
+    shipping: (cartId: string, city: string) => [...queryKeys.cart.items(cartId), 'shipping', city] as const,
+    taxes: (cartId: string, city: string | null) => [...queryKeys.cart.items(cartId), 'taxes', city] as const,
+    // Shared by every cart mutation so they run one at a time and can be counted
+    mutation: () => [...queryKeys.cart.all, 'mutation'] as const
+  },
+  orders: {
+    all: ['orders'] as const,
+    mine: (userId: string) => [...queryKeys.orders.all, 'user', userId] as const,
+    detail: (orderId: string) => [...queryKeys.orders.all, 'detail', orderId] as const
+  },
+  admin: {
+    all: ['admin'] as const,
+    products: () => [...queryKeys.admin.all, 'products'] as const,
+    orders: () => [...queryKeys.admin.all, 'orders'] as const,
+    // Under the list so every change to the orders refreshes the open detail page
+    order: (orderId: string) => [...queryKeys.admin.orders(), orderId] as const,
+    returns: () => [...queryKeys.admin.all, 'returns'] as const,
+    coupons: () => [...queryKeys.admin.all, 'coupons'] as const,
+    shipping: () => [...queryKeys.admin.all, 'shipping'] as const,
+    taxRates: () => [...queryKeys.admin.all, 'tax-rates'] as const
+  }
+};
@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Order, OrderItem, OrderStatusHistory, PaymentMethod, ReturnRequest } from '@/types';
+import { queryKeys } from '@/api/keys';
+
+export interface CustomerOrder extends Order {
+  order_items: OrderItem[];
+  order_status_history: OrderStatusHistory[];
+  return_requests: ReturnRequest[];
+}
+
+export interface PlaceOrderInput {
+  cartId: string;
+  shippingAddress: string;
+  shippingCity: string;
+  shippingMethodId: string;
+  paymentMethod: PaymentMethod;
+  notes: string | null;
+}
+
+export function useOrders(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.orders.mine(userId ?? ''),
+    queryFn: async (): Promise<CustomerOrder[]> => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items(*), order_status_history(*), return_requests(*)')
+        .eq('user_id', userId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as CustomerOrder[];
+    },
+    enabled: !!userId,
+    meta: { errorMessage: 'Error al cargar los pedidos' }
+  });
+}
+
+export function useOrder(orderId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(orderId ?? ''),
+    queryFn: async (): Promise<Order> => {
+      const { data, error } = await supabase.from('orders').select('*').eq('id', orderId!).single();
+      if (error) throw error;
+      return data as Order;
+    },
+    enabled: !!orderId,
+    meta: { errorMessage: 'Error al cargar el pedido' }
+  });
+}
+
+// The server re-prices the cart, writes the order and empties the cart atomically.
+// Stock errors come back with hint 'insufficient_stock', so the caller surfaces errors itself.
+export function usePlaceOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: PlaceOrderInput) => {
+      const { data, error } = await supabase.rpc('place_order', {
+        _cart_id: input.cartId,
+        _shipping_address: input.shippingAddress,
+        _shipping_city: input.shippingCity,
+        _shipping_method_id: input.shippingMethodId,
+        _payment_method: input.paymentMethod,
+        _notes: input.notes
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.cart.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    }
+  });
+}
+
+export function useCancelOrder(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.orders.mine(userId ?? '');
+  return useMutation({
+    mutationFn: async ({ orderId, reason }: { orderId: string; reason: string | null }) => {
+      const { error } = await supabase.rpc('cancel_order', { _order_id: orderId, _reason: reason });
+      if (error) throw error;
+    },
+    // Show the order as cancelled right away and put it back if the server refuses
+    onMutate: async ({ orderId }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<CustomerOrder[]>(queryKey);
+      queryClient.setQueryData<CustomerOrder[]>(queryKey, orders =>
+        orders?.map(order => (order.id === orderId ? { ...order, status: 'cancelled' } : order))
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.orders() });
+    },
+    meta: { errorMessage: 'Error al cancelar el pedido', successMessage: 'Pedido cancelado' }
+  });
+}
+
+export interface ReturnRequestInput {
+  orderItemId: string;
+  quantity: number;
+  reason: string;
+  photoUrl: string | null;
+}
+
+export function useRequestReturn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: ReturnRequestInput) => {
+      const { error } = await supabase.rpc('request_return', {
+        _order_item_id: input.orderItemId,
+        _quantity: input.quantity,
+        _reason: input.reason,
+        _photo_url: input.photoUrl
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.returns() });
+    },
+    meta: {
+      errorMessage: 'Error al solicitar la devolución',
+      successMessage: 'Solicitud de devolución enviada'
+    }
+  });
+}
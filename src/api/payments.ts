@@ -0,0 +1,67 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CardToken, PAYMENT_CURRENCY, PaymentProvider, PaymentResult } from '@/lib/payments';
+import { mockPaymentProvider } from '@/lib/mockPayments';
+import { queryKeys } from '@/api/keys';
+
+// The only gateway wired in for now. A real one implements PaymentProvider
+// plus its own card fields and is swapped in here.
+export const paymentProvider: PaymentProvider = mockPaymentProvider;
+
+export interface PayOrderInput {
+  orderId: string;
+  card: CardToken;
+}
+
+const recordResult = async (paymentId: string, result: PaymentResult) => {
+  const { error } = await supabase.rpc('record_payment_result', {
+    _payment_id: paymentId,
+    _status: result.status,
+    _provider_reference: result.reference,
+    _failure_code: result.failureCode
+  });
+  if (error) throw error;
+};
+
+// Server-side capture: the browser may only report the steps before it
+const capturePayment = async (paymentId: string): Promise<PaymentResult> => {
+  const { data, error } = await supabase.functions.invoke<PaymentResult>('capture-payment', {
+    body: { paymentId }
+  });
+  if (error) throw error;
+  return data;
+};
+
+// Charges a placed card order: authorize, run the 3-D Secure challenge if the
+// bank asks for one, then have the server capture straight away. Declines
+// resolve with a failed result rather than throwing, so the caller can offer
+// another card.
+export function usePayOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ orderId, card }: PayOrderInput): Promise<PaymentResult> => {
+      const { data, error } = await supabase.rpc('create_payment', {
+        _order_id: orderId,
+        _provider: paymentProvider.id,
+        _card_brand: card.brand,
+        _card_last4: card.last4
+      });
+      if (error) throw error;
+      const payment = data[0];
+
+      let result = await paymentProvider.authorize({
+        paymentId: payment.id,
+        amount: payment.amount,
+        currency: PAYMENT_CURRENCY,
+        token: card.token
+      });
+      if (result.status === 'requires_action') {
+        await recordResult(payment.id, result);
+        result = await paymentProvider.authenticate(result.reference);
+      }
+      await recordResult(payment.id, result);
+      return result.status === 'authorized' ? capturePayment(payment.id) : result;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.orders.all })
+  });
+}
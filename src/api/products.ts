@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Product } from '@/types';
+import { queryKeys } from '@/api/keys';
+
+// Product with everything the detail page needs; null when it does not exist
+export function useProduct(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(id ?? ''),
+    queryFn: async (): Promise<Product | null> => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*, categories(*), product_option_types(*), product_variants(*), product_images(*)')
+        .eq('id', id!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Product | null;
+    },
+    enabled: !!id,
+    meta: { errorMessage: 'Error al cargar el producto' }
+  });
+}
@@ -0,0 +1,64 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { PostgrestError } from '@supabase/supabase-js';
+import { toast } from 'sonner';
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: {
+      // Toast shown when the query fails; background refetch errors stay silent without it
+      errorMessage?: string;
+    };
+    mutationMeta: {
+      errorMessage?: string;
+      successMessage?: string;
+    };
+  }
+}
+
+// Supabase errors carry the message raised by the database (e.g. from an RPC)
+export function getErrorMessage(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return undefined;
+}
+
+// Errors raised by an RPC with a HINT the caller can branch on (e.g. 'insufficient_stock')
+export function getPostgrestError(error: unknown): PostgrestError | null {
+  if (error && typeof error === 'object' && 'hint' in error && 'message' in error) {
+    return error as PostgrestError;
+  }
+  return null;
+}
+
+export function createQueryClient() {
+  return new QueryClient({
+    queryCache: new QueryCache({
+      onError: (error, query) => {
+        console.error('Query failed:', query.queryKey, error);
+        if (query.meta?.errorMessage) {
+          toast.error(query.meta.errorMessage, { description: getErrorMessage(error) });
+        }
+      }
+    }),
+    // Mutations without an errorMessage handle their errors at the call site
+    mutationCache: new MutationCache({
+      onSuccess: (_data, _variables, _context, mutation) => {
+        if (mutation.meta?.successMessage) toast.success(mutation.meta.successMessage);
+      },
+      onError: (error, _variables, _context, mutation) => {
+        console.error('Mutation failed:', error);
+        if (mutation.meta?.errorMessage) {
+          toast.error(mutation.meta.errorMessage, { description: getErrorMessage(error) });
+        }
+      }
+    }),
+    defaultOptions: {
+      queries: {
+        staleTime: 30_000,
+        retry: 1,
+        refetchOnWindowFocus: false
+      }
+    }
+  });
+}
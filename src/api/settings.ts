@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { StoreSettings } from '@/types';
+import { queryKeys } from '@/api/keys';
+
+export function useStoreSettings() {
+  return useQuery({
+    queryKey: queryKeys.settings,
+    queryFn: async (): Promise<StoreSettings> => {
+      const { data, error } = await supabase.from('store_settings').select('*').single();
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60_000
+  });
+}
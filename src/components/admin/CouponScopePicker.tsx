@@ -0,0 +1,82 @@
+import { Category } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+interface CouponScopePickerProps {
+  categories: Category[];
+  products: ScopeOption[];
+  categoryIds: string[];
+  productIds: string[];
+  onChange: (changes: { category_ids?: string[]; product_ids?: string[] }) => void;
+}
+
+function OptionList({
+  idPrefix,
+  options,
+  selected,
+  onToggle
+}: {
+  idPrefix: string;
+  options: ScopeOption[];
+  selected: string[];
+  onToggle: (id: string, checked: boolean) => void;
+}) {
+  return (
+    <div className="max-h-40 space-y-2 overflow-y-auto rounded-md border p-2">
+      {options.map(option => (
+        <div key={option.id} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${option.id}`}
+            checked={selected.includes(option.id)}
+            onCheckedChange={value => onToggle(option.id, value === true)}
+          />
+          <Label htmlFor={`${idPrefix}-${option.id}`} className="cursor-pointer font-normal">
+            {option.name}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const toggle = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter(current => current !== id);
+
+// Categories and products a coupon is limited to; nothing selected means the whole cart
+export function CouponScopePicker({ categories, products, categoryIds, productIds, onChange }: CouponScopePickerProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Aplica a</Label>
+      <p className="text-xs text-muted-foreground">
+        {categoryIds.length === 0 && productIds.length === 0
+          ? 'Todo el carrito. Elige categorías o productos para limitar el cupón.'
+          : 'Solo los productos elegidos y los de las categorías elegidas.'}
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Categorías</p>
+          <OptionList
+            idPrefix="coupon-category"
+            options={categories}
+            selected={categoryIds}
+            onToggle={(id, checked) => onChange({ category_ids: toggle(categoryIds, id, checked) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Productos</p>
+          <OptionList
+            idPrefix="coupon-product"
+            options={products}
+            selected={productIds}
+            onToggle={(id, checked) => onChange({ product_ids: toggle(productIds, id, checked) })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { ImageFolder, resizeImage, uploadImage } from '@/lib/storage';
+import { Progress } from '@/components/ui/progress';
+import { ImagePlus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Upload {
+  id: string;
+  name: string;
+  preview: string;
+  progress: number;
+}
+
+interface ImageDropzoneProps {
+  folder: ImageFolder;
+  onUploaded: (url: string) => void;
+  multiple?: boolean;
+  className?: string;
+}
+
+export function ImageDropzone({ folder, onUploaded, multiple = false, className }: ImageDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploads, setUploads] = useState<Upload[]>([]);
+
+  const updateUpload = (id: string, progress: number) => {
+    setUploads(current => current.map(upload => (upload.id === id ? { ...upload, progress } : upload)));
+  };
+
+  const uploadFile = async (file: File) => {
+    const upload = { id: crypto.randomUUID(), name: file.name, preview: URL.createObjectURL(file), progress: 0 };
+    setUploads(current => [...current, upload]);
+
+    try {
+      const blob = await resizeImage(file);
+      const url = await uploadImage(blob, folder, progress => updateUpload(upload.id, progress));
+      onUploaded(url);
+    } catch (error) {
+      console.error('Error uploading image:', error);
+      toast.error(`Error al subir ${file.name}`);
+    } finally {
+      URL.revokeObjectURL(upload.preview);
+      setUploads(current => current.filter(item => item.id !== upload.id));
+    }
+  };
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) {
+      if (fileList?.length) toast.error('Solo se admiten imágenes');
+      return;
+    }
+    (multiple ? files : files.slice(0, 1)).forEach(uploadFile);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={e => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={e => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        className={cn(
+          'flex cursor-pointer flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed p-4 text-center text-sm text-muted-foreground transition-colors hover:border-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+          dragging && 'border-primary bg-primary/5'
+        )}
+      >
+        <ImagePlus className="h-6 w-6" />
+        <span>{multiple ? 'Arrastra imágenes o haz clic para subirlas' : 'Arrastra una imagen o haz clic para subirla'}</span>
+        <span className="text-xs">Se redimensionan a un máximo de 1600 px</span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple={multiple}
+          className="hidden"
+          onChange={e => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {uploads.map(upload => (
+        <div key={upload.id} className="flex items-center gap-3 rounded-md border p-2">
+          <img src={upload.preview} alt="" className="h-10 w-10 shrink-0 rounded object-cover" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="truncate text-xs text-muted-foreground">{upload.name}</p>
+            <Progress value={upload.progress} className="h-2" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { StoreSettings } from '@/types';
+import { useSaveStoreSettings } from '@/api/admin';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PaymentSettingsFormProps {
+  settings: StoreSettings;
+}
+
+// Bank details shown to customers who pay by transfer. Without an IBAN the
+// option is hidden at checkout.
+export function PaymentSettingsForm({ settings }: PaymentSettingsFormProps) {
+  const saveSettings = useSaveStoreSettings();
+  const [formData, setFormData] = useState({
+    bank_name: settings.bank_name ?? '',
+    bank_account_holder: settings.bank_account_holder ?? '',
+    bank_iban: settings.bank_iban ?? '',
+    transfer_deadline_hours: settings.transfer_deadline_hours.toString()
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const deadlineHours = parseInt(formData.transfer_deadline_hours);
+    if (!(deadlineHours > 0)) {
+      toast.error('El plazo debe ser de al menos una hora');
+      return;
+    }
+    const iban = formData.bank_iban.replace(/\s/g, '').toUpperCase();
+    if (iban && (!formData.bank_account_holder.trim() || !formData.bank_name.trim())) {
+      toast.error('Indica el banco y el titular de la cuenta');
+      return;
+    }
+
+    saveSettings.mutate(
+      {
+        bank_name: formData.bank_name.trim() || null,
+        bank_account_holder: formData.bank_account_holder.trim() || null,
+        bank_iban: iban || null,
+        transfer_deadline_hours: deadlineHours
+      },
+      { onSuccess: () => toast.success('Ajustes de pago guardados') }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transferencia bancaria</CardTitle>
+        <CardDescription>
+          Los pedidos por transferencia quedan pendientes hasta que marques el pago como recibido y se cancelan
+          solos si no llega dentro del plazo.
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSave}>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="bank-name">Banco</Label>
+            <Input
+              id="bank-name"
+              value={formData.bank_name}
+              onChange={e => setFormData({ ...formData, bank_name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bank-holder">Titular de la cuenta</Label>
+            <Input
+              id="bank-holder"
+              value={formData.bank_account_holder}
+              onChange={e => setFormData({ ...formData, bank_account_holder: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bank-iban">IBAN</Label>
+            <Input
+              id="bank-iban"
+              value={formData.bank_iban}
+              onChange={e => setFormData({ ...formData, bank_iban: e.target.value })}
+              placeholder="Vacío para no ofrecer transferencias"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-deadline">Plazo para transferir (horas)</Label>
+            <Input
+              id="transfer-deadline"
+              type="number"
+              min="1"
+              value={formData.transfer_deadline_hours}
+              onChange={e => setFormData({ ...formData, transfer_deadline_hours: e.target.value })}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button type="submit" disabled={saveSettings.isPending}>
+            {saveSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ImageDropzone } from '@/components/admin/ImageDropzone';
+import { GripVertical, Plus, Trash2 } from 'lucide-react';
+
+export interface ImageDraft {
+  url: string;
+  alt_text: string;
+}
+
+interface ProductImagesEditorProps {
+  value: ImageDraft[];
+  onChange: (value: ImageDraft[]) => void;
+  // Called once per file uploaded to storage; the parent appends it to the list
+  onUploaded: (url: string) => void;
+}
+
+export function ProductImagesEditor({ value, onChange, onUploaded }: ProductImagesEditorProps) {
+  const [newUrl, setNewUrl] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const addImage = () => {
+    const url = newUrl.trim();
+    if (!url) return;
+    onChange([...value, { url, alt_text: '' }]);
+    setNewUrl('');
+  };
+
+  const updateImage = (index: number, changes: Partial<ImageDraft>) => {
+    onChange(value.map((image, i) => (i === index ? { ...image, ...changes } : image)));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...value];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) moveImage(dragIndex, index);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Imágenes</Label>
+      <p className="text-xs text-muted-foreground">
+        Arrastra para cambiar el orden. La primera imagen es la portada del producto.
+      </p>
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((image, index) => (
+            <li
+              key={`${image.url}-${index}`}
+              draggable
+              onDragStart={e => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={e => {
+                e.preventDefault();
+                setOverIndex(index);
+              }}
+              onDragLeave={() => setOverIndex(null)}
+              onDrop={e => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setOverIndex(null);
+              }}
+              className={cn(
+                'flex items-center gap-2 rounded-md border bg-background p-2 transition-colors',
+                dragIndex === index && 'opacity-50',
+                overIndex === index && dragIndex !== index && 'border-primary'
+              )}
+            >
+              <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+              <img
+                src={image.url}
+                alt=""
+                className="h-12 w-12 shrink-0 rounded object-cover bg-muted"
+                onError={e => {
+                  e.currentTarget.src = '/placeholder.svg';
+                }}
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="truncate text-xs text-muted-foreground">{image.url}</p>
+                  {index === 0 && <Badge variant="secondary">Portada</Badge>}
+                </div>
+                <Input
+                  value={image.alt_text}
+                  onChange={e => updateImage(index, { alt_text: e.target.value })}
+                  placeholder="Texto alternativo"
+                  className="h-8"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-destructive hover:text-destructive"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ImageDropzone folder="products" multiple onUploaded={onUploaded} />
+
+      <div className="flex gap-2">
+        <Input
+          value={newUrl}
+          onChange={e => setNewUrl(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addImage();
+            }
+          }}
+          placeholder="O pega una URL: https://ejemplo.com/imagen.jpg"
+        />
+        <Button type="button" variant="outline" className="gap-1" onClick={addImage} disabled={!newUrl.trim()}>
+          <Plus className="h-4 w-4" />
+          Añadir
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { AdminOrder, useRefundOrder } from '@/api/admin';
+import {
+  getRefundableQuantity,
+  getRefundAmount,
+  getRemainingRefund,
+  RefundQuantities
+} from '@/lib/refunds';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RefundOrderDialogProps {
+  order: AdminOrder;
+  onClose: () => void;
+}
+
+export function RefundOrderDialog({ order, onClose }: RefundOrderDialogProps) {
+  const refundOrder = useRefundOrder();
+  const [mode, setMode] = useState<'full' | 'items'>('full');
+  const [quantities, setQuantities] = useState<RefundQuantities>({});
+  const [restock, setRestock] = useState(false);
+  const [reason, setReason] = useState('');
+
+  const items = order.order_items.filter(item => getRefundableQuantity(item) > 0);
+  const amount = mode === 'full' ? getRemainingRefund(order) : getRefundAmount(order, items, quantities);
+  // Units of an order not yet shipped are still reserved and go back when it is cancelled
+  const canRestock = order.status === 'shipped' || order.status === 'delivered';
+
+  const setQuantity = (itemId: string, value: string, max: number) => {
+    const quantity = Math.min(Math.max(parseInt(value) || 0, 0), max);
+    setQuantities({ ...quantities, [itemId]: quantity });
+  };
+
+  const handleRefund = () => {
+    if (amount <= 0) {
+      toast.error('Elige al menos un producto para reembolsar');
+      return;
+    }
+
+    refundOrder.mutate(
+      {
+        orderId: order.id,
+        quantities: mode === 'full' ? null : quantities,
+        restock: canRestock && restock,
+        reason: reason.trim() || null
+      },
+      {
+        onSuccess: result => {
+          if (result.status === 'succeeded') {
+            toast.success(`Reembolso de $${result.amount.toFixed(2)} realizado`);
+          } else if (result.status === 'pending') {
+            toast.warning('No se pudo contactar con la pasarela de pago', {
+              description: 'El reembolso queda pendiente. Reinténtalo desde el detalle del pedido.'
+            });
+          } else {
+            toast.error('La pasarela de pago rechazó el reembolso');
+          }
+          onClose();
+        }
+      }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && !refundOrder.isPending && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reembolsar pedido</DialogTitle>
+          <DialogDescription>
+            Pedido #{order.id.slice(0, 8)}. Quedan ${getRemainingRefund(order).toFixed(2)} por reembolsar.
+            {order.payment_method === 'card'
+              ? ' El importe se devuelve a la tarjeta del cliente.'
+              : ' Devuelve el importe al cliente por tu cuenta; aquí solo queda registrado.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup value={mode} onValueChange={value => setMode(value as 'full' | 'items')}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="full" id="refund-full" />
+              <Label htmlFor="refund-full">Todo lo pendiente, envío incluido</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="items" id="refund-items" />
+              <Label htmlFor="refund-items">Solo algunos productos</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === 'items' && (
+            <div className="space-y-2 rounded-md border p-3">
+              {items.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Todos los productos ya están reembolsados.</p>
+              ) : (
+                items.map(item => {
+                  const max = getRefundableQuantity(item);
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <p className="font-medium">{item.product_name}</p>
+                        <p className="text-muted-foreground">
+                          {item.variant_title && `${item.variant_title} · `}
+                          {max} de {item.quantity} por reembolsar
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={max}
+                        value={quantities[item.id] ?? 0}
+                        onChange={e => setQuantity(item.id, e.target.value, max)}
+                        className="w-20"
+                        aria-label={`Unidades de ${item.product_name}`}
+                      />
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          )}
+
+          {canRestock && (
+            <div className="flex items-center gap-2">
+              <Switch id="refund-restock" checked={restock} onCheckedChange={setRestock} />
+              <Label htmlFor="refund-restock">Reponer stock de los productos reembolsados</Label>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Motivo (opcional)</Label>
+            <Textarea id="refund-reason" value={reason} onChange={e => setReason(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex justify-between font-semibold">
+            <span>Importe a reembolsar</span>
+            <span>${amount.toFixed(2)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={refundOrder.isPending}>
+            Volver
+          </Button>
+          <Button variant="destructive" onClick={handleRefund} disabled={refundOrder.isPending || amount <= 0}>
+            {refundOrder.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Reembolsar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
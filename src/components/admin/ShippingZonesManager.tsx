@@ -0,0 +1,532 @@
+import { useState } from 'react';
+import { ShippingKind, ShippingPricing } from '@/types';
+import {
+  AdminShippingZone,
+  useDeleteShippingMethod,
+  useDeleteShippingZone,
+  useSaveShippingMethod,
+  useSaveShippingZone
+} from '@/api/admin';
+import { describeShippingPricing, parseCities, SHIPPING_KIND_LABELS, SHIPPING_PRICING_LABELS } from '@/lib/shipping';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { AlertTriangle, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ZoneFormData {
+  name: string;
+  cities: string;
+}
+
+interface MethodFormData {
+  name: string;
+  kind: ShippingKind;
+  pricing: ShippingPricing;
+  base_cost: string;
+  cost_per_kg: string;
+  free_over: string;
+  estimated_days: string;
+  active: boolean;
+}
+
+const emptyMethod: MethodFormData = {
+  name: '',
+  kind: 'standard',
+  pricing: 'flat',
+  base_cost: '',
+  cost_per_kg: '',
+  free_over: '',
+  estimated_days: '',
+  active: true
+};
+
+type ShippingMethodRow = AdminShippingZone['shipping_methods'][number];
+
+interface ShippingZonesManagerProps {
+  zones: AdminShippingZone[];
+}
+
+export function ShippingZonesManager({ zones }: ShippingZonesManagerProps) {
+  const saveZone = useSaveShippingZone();
+  const deleteZone = useDeleteShippingZone();
+  const saveMethod = useSaveShippingMethod();
+  const deleteMethod = useDeleteShippingMethod();
+
+  // Zone dialogs
+  const [zoneDialogOpen, setZoneDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<AdminShippingZone | null>(null);
+  const [zoneToDelete, setZoneToDelete] = useState<AdminShippingZone | null>(null);
+  const [zoneFormData, setZoneFormData] = useState<ZoneFormData>({ name: '', cities: '' });
+
+  // Method dialogs; methodZone is the zone a new method is added to
+  const [methodDialogOpen, setMethodDialogOpen] = useState(false);
+  const [methodZone, setMethodZone] = useState<AdminShippingZone | null>(null);
+  const [editingMethod, setEditingMethod] = useState<ShippingMethodRow | null>(null);
+  const [methodToDelete, setMethodToDelete] = useState<ShippingMethodRow | null>(null);
+  const [methodFormData, setMethodFormData] = useState<MethodFormData>(emptyMethod);
+
+  const hasFallbackZone = zones.some(zone => zone.cities.length === 0);
+
+  const openCreateZoneDialog = () => {
+    setEditingZone(null);
+    setZoneFormData({ name: '', cities: '' });
+    setZoneDialogOpen(true);
+  };
+
+  const openEditZoneDialog = (zone: AdminShippingZone) => {
+    setEditingZone(zone);
+    setZoneFormData({ name: zone.name, cities: zone.cities.join(', ') });
+    setZoneDialogOpen(true);
+  };
+
+  const handleSaveZone = () => {
+    if (!zoneFormData.name.trim()) {
+      toast.error('El nombre es requerido');
+      return;
+    }
+    const cities = parseCities(zoneFormData.cities);
+    if (cities.length === 0 && zones.some(zone => zone.cities.length === 0 && zone.id !== editingZone?.id)) {
+      toast.error('Ya hay una zona para el resto de ciudades. Indica las ciudades de esta zona.');
+      return;
+    }
+
+    saveZone.mutate(
+      { id: editingZone?.id, zone: { name: zoneFormData.name.trim(), cities } },
+      {
+        onSuccess: () => {
+          toast.success(editingZone ? 'Zona actualizada' : 'Zona creada');
+          setZoneDialogOpen(false);
+        }
+      }
+    );
+  };
+
+  const handleDeleteZone = () => {
+    if (!zoneToDelete) return;
+    deleteZone.mutate(zoneToDelete.id);
+    setZoneToDelete(null);
+  };
+
+  const openCreateMethodDialog = (zone: AdminShippingZone) => {
+    setMethodZone(zone);
+    setEditingMethod(null);
+    setMethodFormData(emptyMethod);
+    setMethodDialogOpen(true);
+  };
+
+  const openEditMethodDialog = (zone: AdminShippingZone, method: ShippingMethodRow) => {
+    setMethodZone(zone);
+    setEditingMethod(method);
+    setMethodFormData({
+      name: method.name,
+      kind: method.kind,
+      pricing: method.pricing,
+      base_cost: method.base_cost.toString(),
+      cost_per_kg: method.cost_per_kg > 0 ? method.cost_per_kg.toString() : '',
+      free_over: method.free_over?.toString() ?? '',
+      estimated_days: method.estimated_days || '',
+      active: method.active
+    });
+    setMethodDialogOpen(true);
+  };
+
+  const handleSaveMethod = () => {
+    if (!methodZone) return;
+    if (!methodFormData.name.trim()) {
+      toast.error('El nombre es requerido');
+      return;
+    }
+    const freeOver = parseFloat(methodFormData.free_over);
+    if (methodFormData.pricing === 'free_over' && !(freeOver >= 0)) {
+      toast.error('Indica a partir de qué importe el envío es gratis');
+      return;
+    }
+
+    const method = {
+      zone_id: methodZone.id,
+      name: methodFormData.name.trim(),
+      kind: methodFormData.kind,
+      pricing: methodFormData.pricing,
+      base_cost: parseFloat(methodFormData.base_cost) || 0,
+      cost_per_kg: methodFormData.pricing === 'weight' ? parseFloat(methodFormData.cost_per_kg) || 0 : 0,
+      free_over: methodFormData.pricing === 'free_over' ? freeOver : null,
+      estimated_days: methodFormData.estimated_days.trim() || null,
+      active: methodFormData.active,
+      position: editingMethod?.position ?? methodZone.shipping_methods.length
+    };
+
+    saveMethod.mutate(
+      { id: editingMethod?.id, method },
+      {
+        onSuccess: () => {
+          toast.success(editingMethod ? 'Método actualizado' : 'Método creado');
+          setMethodDialogOpen(false);
+        }
+      }
+    );
+  };
+
+  const handleDeleteMethod = () => {
+    if (!methodToDelete) return;
+    deleteMethod.mutate(methodToDelete.id);
+    setMethodToDelete(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Zonas de Envío</CardTitle>
+            <CardDescription>
+              Cada zona agrupa ciudades con sus métodos de envío. La zona sin ciudades cubre el resto.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateZoneDialog} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Nueva Zona
+          </Button>
+        </CardHeader>
+        {!hasFallbackZone && (
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              No hay zona para el resto de ciudades: los clientes de otras ciudades no podrán comprar.
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {zones.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">No hay zonas de envío</p>
+      ) : (
+        zones.map(zone => (
+          <Card key={zone.id}>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg">{zone.name}</CardTitle>
+                <CardDescription>
+                  {zone.cities.length > 0 ? zone.cities.join(', ') : 'Resto de ciudades'}
+                </CardDescription>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button variant="outline" size="sm" className="gap-1" onClick={() => openCreateMethodDialog(zone)}>
+                  <Plus className="h-4 w-4" />
+                  Método
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openEditZoneDialog(zone)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setZoneToDelete(zone)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Método</TableHead>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Tarifa</TableHead>
+                      <TableHead>Plazo</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {zone.shipping_methods.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                          Sin métodos de envío
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      zone.shipping_methods.map(method => (
+                        <TableRow key={method.id}>
+                          <TableCell className="font-medium">{method.name}</TableCell>
+                          <TableCell>{SHIPPING_KIND_LABELS[method.kind]}</TableCell>
+                          <TableCell>{describeShippingPricing(method)}</TableCell>
+                          <TableCell>{method.estimated_days || '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={method.active ? 'default' : 'outline'}>
+                              {method.active ? 'Activo' : 'Desactivado'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => openEditMethodDialog(zone, method)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setMethodToDelete(method)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Zone Dialog */}
+      <Dialog open={zoneDialogOpen} onOpenChange={setZoneDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingZone ? 'Editar Zona' : 'Nueva Zona'}</DialogTitle>
+            <DialogDescription>Las ciudades se comparan sin tener en cuenta mayúsculas ni acentos</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="zone-name">Nombre *</Label>
+              <Input
+                id="zone-name"
+                value={zoneFormData.name}
+                onChange={e => setZoneFormData({ ...zoneFormData, name: e.target.value })}
+                placeholder="Área metropolitana"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-cities">Ciudades</Label>
+              <Textarea
+                id="zone-cities"
+                value={zoneFormData.cities}
+                onChange={e => setZoneFormData({ ...zoneFormData, cities: e.target.value })}
+                placeholder="Separadas por comas o en líneas distintas. Vacío: resto de ciudades."
+                rows={4}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setZoneDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveZone} disabled={saveZone.isPending}>
+              {saveZone.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Guardando...
+                </>
+              ) : (
+                'Guardar'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Method Dialog */}
+      <Dialog open={methodDialogOpen} onOpenChange={setMethodDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingMethod ? 'Editar Método' : 'Nuevo Método'}</DialogTitle>
+            <DialogDescription>{methodZone?.name}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="method-name">Nombre *</Label>
+              <Input
+                id="method-name"
+                value={methodFormData.name}
+                onChange={e => setMethodFormData({ ...methodFormData, name: e.target.value })}
+                placeholder="Envío estándar"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="method-kind">Tipo</Label>
+                <Select
+                  value={methodFormData.kind}
+                  onValueChange={value => setMethodFormData({ ...methodFormData, kind: value as ShippingKind })}
+                >
+                  <SelectTrigger id="method-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SHIPPING_KIND_LABELS) as ShippingKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind}>
+                        {SHIPPING_KIND_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="method-pricing">Tarifa</Label>
+                <Select
+                  value={methodFormData.pricing}
+                  onValueChange={value => setMethodFormData({ ...methodFormData, pricing: value as ShippingPricing })}
+                >
+                  <SelectTrigger id="method-pricing">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SHIPPING_PRICING_LABELS) as ShippingPricing[]).map(pricing => (
+                      <SelectItem key={pricing} value={pricing}>
+                        {SHIPPING_PRICING_LABELS[pricing]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="method-base-cost">
+                  {methodFormData.pricing === 'weight' ? 'Coste base' : 'Coste'}
+                </Label>
+                <Input
+                  id="method-base-cost"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={methodFormData.base_cost}
+                  onChange={e => setMethodFormData({ ...methodFormData, base_cost: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              {methodFormData.pricing === 'weight' && (
+                <div className="space-y-2">
+                  <Label htmlFor="method-cost-per-kg">Coste por kg</Label>
+                  <Input
+                    id="method-cost-per-kg"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={methodFormData.cost_per_kg}
+                    onChange={e => setMethodFormData({ ...methodFormData, cost_per_kg: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+              )}
+              {methodFormData.pricing === 'free_over' && (
+                <div className="space-y-2">
+                  <Label htmlFor="method-free-over">Gratis desde *</Label>
+                  <Input
+                    id="method-free-over"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={methodFormData.free_over}
+                    onChange={e => setMethodFormData({ ...methodFormData, free_over: e.target.value })}
+                    placeholder="50.00"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="method-estimated-days">Plazo de entrega</Label>
+              <Input
+                id="method-estimated-days"
+                value={methodFormData.estimated_days}
+                onChange={e => setMethodFormData({ ...methodFormData, estimated_days: e.target.value })}
+                placeholder="2-4 días hábiles"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="method-active"
+                checked={methodFormData.active}
+                onCheckedChange={checked => setMethodFormData({ ...methodFormData, active: checked })}
+              />
+              <Label htmlFor="method-active">Activo</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMethodDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveMethod} disabled={saveMethod.isPending}>
+              {saveMethod.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Guardando...
+                </>
+              ) : (
+                'Guardar'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Zone Confirmation Dialog */}
+      <AlertDialog open={!!zoneToDelete} onOpenChange={open => !open && setZoneToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              ¿Eliminar zona?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              La zona "{zoneToDelete?.name}" y sus métodos de envío se eliminarán. Los pedidos existentes conservan su envío.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteZone}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Method Confirmation Dialog */}
+      <AlertDialog open={!!methodToDelete} onOpenChange={open => !open && setMethodToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              ¿Eliminar método de envío?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              El método "{methodToDelete?.name}" dejará de ofrecerse. Si solo quieres pausarlo, desactívalo en su lugar.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteMethod}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
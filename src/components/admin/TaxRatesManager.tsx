@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { Category, ShippingZone, TaxRate } from '@/types';
+import { useDeleteTaxRate, useSaveTaxRate } from '@/api/admin';
+import { describeTaxRate } from '@/lib/tax';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { AlertTriangle, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Select items cannot have an empty value
+const ANY = 'any';
+
+interface TaxRateFormData {
+  name: string;
+  rate: string;
+  category_id: string;
+  zone_id: string;
+  inclusive: boolean;
+  active: boolean;
+}
+
+const emptyTaxRate: TaxRateFormData = {
+  name: '',
+  rate: '',
+  category_id: ANY,
+  zone_id: ANY,
+  inclusive: false,
+  active: true
+};
+
+interface TaxRatesManagerProps {
+  taxRates: TaxRate[];
+  categories: Category[];
+  zones: Pick<ShippingZone, 'id' | 'name'>[];
+}
+
+export function TaxRatesManager({ taxRates, categories, zones }: TaxRatesManagerProps) {
+  const saveTaxRate = useSaveTaxRate();
+  const deleteTaxRate = useDeleteTaxRate();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTaxRate, setEditingTaxRate] = useState<TaxRate | null>(null);
+  const [taxRateToDelete, setTaxRateToDelete] = useState<TaxRate | null>(null);
+  const [formData, setFormData] = useState<TaxRateFormData>(emptyTaxRate);
+
+  const categoryName = (id: string | null) =>
+    id ? categories.find(category => category.id === id)?.name ?? '-' : 'Todas';
+  const zoneName = (id: string | null) => (id ? zones.find(zone => zone.id === id)?.name ?? '-' : 'Todas');
+
+  const openCreateDialog = () => {
+    setEditingTaxRate(null);
+    setFormData(emptyTaxRate);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (taxRate: TaxRate) => {
+    setEditingTaxRate(taxRate);
+    setFormData({
+      name: taxRate.name,
+      rate: taxRate.rate.toString(),
+      category_id: taxRate.category_id ?? ANY,
+      zone_id: taxRate.zone_id ?? ANY,
+      inclusive: taxRate.inclusive,
+      active: taxRate.active
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!formData.name.trim()) {
+      toast.error('El nombre es requerido');
+      return;
+    }
+    const rate = parseFloat(formData.rate);
+    if (!(rate >= 0 && rate <= 100)) {
+      toast.error('El tipo debe estar entre 0 y 100');
+      return;
+    }
+
+    const categoryId = formData.category_id === ANY ? null : formData.category_id;
+    const zoneId = formData.zone_id === ANY ? null : formData.zone_id;
+    if (
+      taxRates.some(
+        taxRate =>
+          taxRate.id !== editingTaxRate?.id && taxRate.category_id === categoryId && taxRate.zone_id === zoneId
+      )
+    ) {
+      toast.error('Ya existe un impuesto para esa categoría y zona');
+      return;
+    }
+
+    saveTaxRate.mutate(
+      {
+        id: editingTaxRate?.id,
+        taxRate: {
+          name: formData.name.trim(),
+          rate,
+          category_id: categoryId,
+          zone_id: zoneId,
+          inclusive: formData.inclusive,
+          active: formData.active
+        }
+      },
+      {
+        onSuccess: () => {
+          toast.success(editingTaxRate ? 'Impuesto actualizado' : 'Impuesto creado');
+          setDialogOpen(false);
+        }
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!taxRateToDelete) return;
+    deleteTaxRate.mutate(taxRateToDelete.id);
+    setTaxRateToDelete(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Impuestos</CardTitle>
+          <CardDescription>
+            A cada producto se le aplica el impuesto activo más concreto para su categoría y la zona de envío.
+          </CardDescription>
+        </div>
+        <Button onClick={openCreateDialog} className="gap-2">
+          <Plus className="h-4 w-4" />
+          Nuevo Impuesto
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Categoría</TableHead>
+                <TableHead>Zona</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxRates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No hay impuestos configurados
+                  </TableCell>
+                </TableRow>
+              ) : (
+                taxRates.map(taxRate => (
+                  <TableRow key={taxRate.id}>
+                    <TableCell className="font-medium">{taxRate.name}</TableCell>
+                    <TableCell>{describeTaxRate(taxRate)}</TableCell>
+                    <TableCell>{categoryName(taxRate.category_id)}</TableCell>
+                    <TableCell>{zoneName(taxRate.zone_id)}</TableCell>
+                    <TableCell>
+                      <Badge variant={taxRate.active ? 'default' : 'outline'}>
+                        {taxRate.active ? 'Activo' : 'Desactivado'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(taxRate)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setTaxRateToDelete(taxRate)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      {/* Tax Rate Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingTaxRate ? 'Editar Impuesto' : 'Nuevo Impuesto'}</DialogTitle>
+            <DialogDescription>Sin categoría ni zona, el impuesto se aplica a todo lo demás</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tax-name">Nombre *</Label>
+                <Input
+                  id="tax-name"
+                  value={formData.name}
+                  onChange={e => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="IVA general"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate">Tipo (%) *</Label>
+                <Input
+                  id="tax-rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={formData.rate}
+                  onChange={e => setFormData({ ...formData, rate: e.target.value })}
+                  placeholder="21"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tax-category">Categoría</Label>
+                <Select
+                  value={formData.category_id}
+                  onValueChange={value => setFormData({ ...formData, category_id: value })}
+                >
+                  <SelectTrigger id="tax-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Todas</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-zone">Zona</Label>
+                <Select value={formData.zone_id} onValueChange={value => setFormData({ ...formData, zone_id: value })}>
+                  <SelectTrigger id="tax-zone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Todas</SelectItem>
+                    {zones.map(zone => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tax-inclusive"
+                checked={formData.inclusive}
+                onCheckedChange={checked => setFormData({ ...formData, inclusive: checked })}
+              />
+              <Label htmlFor="tax-inclusive">Incluido en el precio de los productos</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tax-active"
+                checked={formData.active}
+                onCheckedChange={checked => setFormData({ ...formData, active: checked })}
+              />
+              <Label htmlFor="tax-active">Activo</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saveTaxRate.isPending}>
+              {saveTaxRate.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Guardando...
+                </>
+              ) : (
+                'Guardar'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!taxRateToDelete} onOpenChange={open => !open && setTaxRateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              ¿Eliminar impuesto?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              El impuesto "{taxRateToDelete?.name}" dejará de aplicarse a los nuevos pedidos. Los pedidos existentes
+              conservan sus impuestos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2, Wand2 } from 'lucide-react';
+import { generateVariantDrafts, OptionDraft, VariantDraft, VariantMatrix } from '@/lib/variantMatrix';
+
+interface VariantMatrixEditorProps {
+  value: VariantMatrix;
+  onChange: (value: VariantMatrix) => void;
+  basePrice: string;
+}
+
+export function VariantMatrixEditor({ value, onChange, basePrice }: VariantMatrixEditorProps) {
+  const updateOption = (index: number, changes: Partial<OptionDraft>) => {
+    onChange({
+      ...value,
+      options: value.options.map((option, i) => (i === index ? { ...option, ...changes } : option))
+    });
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onChange({
+      ...value,
+      variants: value.variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant))
+    });
+  };
+
+  const generateVariants = () => {
+    onChange({ ...value, variants: generateVariantDrafts(value) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Opciones</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="gap-1"
+            onClick={() => onChange({ ...value, options: [...value.options, { name: '', values: '' }] })}
+          >
+            <Plus className="h-4 w-4" />
+            Añadir opción
+          </Button>
+        </div>
+        {value.options.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Sin variantes. Añade una opción (por ejemplo Talla o Color) para vender distintas combinaciones.
+          </p>
+        )}
+        {value.options.map((option, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={option.name}
+              onChange={e => updateOption(index, { name: e.target.value })}
+              placeholder="Talla"
+              className="w-32"
+            />
+            <Input
+              value={option.values}
+              onChange={e => updateOption(index, { values: e.target.value })}
+              placeholder="S, M, L"
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive hover:text-destructive"
+              onClick={() => onChange({ ...value, options: value.options.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {value.options.length > 0 && (
+          <Button type="button" variant="outline" size="sm" className="gap-2" onClick={generateVariants}>
+            <Wand2 className="h-4 w-4" />
+            Generar combinaciones
+          </Button>
+        )}
+      </div>
+
+      {value.variants.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variante</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead className="w-24">Precio</TableHead>
+                <TableHead className="w-20">Stock</TableHead>
+                <TableHead>Imagen</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.variants.map((variant, index) => (
+                <TableRow key={variant.id || variant.title}>
+                  <TableCell className="font-medium whitespace-nowrap">{variant.title}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.sku}
+                      onChange={e => updateVariant(index, { sku: e.target.value })}
+                      placeholder="SKU"
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={variant.price}
+                      onChange={e => updateVariant(index, { price: e.target.value })}
+                      placeholder={basePrice || '0.00'}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={variant.stock}
+                      onChange={e => updateVariant(index, { stock: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.image_url}
+                      onChange={e => updateVariant(index, { image_url: e.target.value })}
+                      placeholder="https://..."
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => onChange({ ...value, variants: value.variants.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import { getCartItemPrice, getCartItemStock } from '@/lib/cart';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface CartChangesAlertProps {
+  className?: string;
+}
+
+// Lists the lines whose price or stock changed since they were added to the cart
+export function CartChangesAlert({ className }: CartChangesAlertProps) {
+  const { priceChanges, stockShortages, acceptNewPrices } = useCart();
+  const [accepting, setAccepting] = useState(false);
+
+  if (priceChanges.length === 0 && stockShortages.length === 0) return null;
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    await acceptNewPrices();
+    setAccepting(false);
+  };
+
+  return (
+    <Alert variant={stockShortages.length > 0 ? 'destructive' : 'default'} className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Tu carrito ha cambiado</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="space-y-1">
+          {priceChanges.map(item => (
+            <li key={`price-${item.id}`}>
+              {item.products?.name}
+              {item.product_variants && ` (${item.product_variants.title})`}: antes{' '}
+              <span className="line-through">${item.unit_price.toFixed(2)}</span>, ahora{' '}
+              <strong>${getCartItemPrice(item).toFixed(2)}</strong>
+            </li>
+          ))}
+          {stockShortages.map(item => (
+            <li key={`stock-${item.id}`}>
+              {item.products?.name}
+              {item.product_variants && ` (${item.product_variants.title})`}:{' '}
+              {getCartItemStock(item) > 0
+                ? `solo quedan ${getCartItemStock(item)} unidades`
+                : 'agotado'}
+            </li>
+          ))}
+        </ul>
+        {priceChanges.length > 0 && (
+          <Button size="sm" variant="outline" onClick={handleAccept} disabled={accepting} className="gap-2">
+            {accepting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Aceptar nuevos precios
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
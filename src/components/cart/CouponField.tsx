@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { useCart } from '@/contexts/CartContext';
+import { normalizeCouponCode } from '@/lib/coupons';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, TicketPercent, X } from 'lucide-react';
+
+// Coupon input for the order summaries; shows the applied coupon once accepted
+export function CouponField() {
+  const { coupon, applyCoupon, removeCoupon } = useCart();
+  const [code, setCode] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeCouponCode(code);
+    if (!normalized) return;
+    setApplying(true);
+    if (await applyCoupon(normalized)) setCode('');
+    setApplying(false);
+  };
+
+  if (coupon) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant={coupon.error ? 'outline' : 'secondary'} className="gap-1">
+            <TicketPercent className="h-3 w-3" />
+            {coupon.code}
+          </Badge>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 px-2" onClick={removeCoupon}>
+            <X className="h-3 w-3" />
+            Quitar
+          </Button>
+        </div>
+        {coupon.error && <p className="text-xs text-destructive">{coupon.error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="flex gap-2">
+      <Input
+        value={code}
+        onChange={e => setCode(e.target.value)}
+        placeholder="Código de descuento"
+        aria-label="Código de descuento"
+        className="uppercase placeholder:normal-case"
+      />
+      <Button type="submit" variant="outline" disabled={applying || !code.trim()}>
+        {applying ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Aplicar'}
+      </Button>
+    </form>
+  );
+}
@@ -1,7 +1,6 @@
 import { Link } from 'react-router-dom';
-import { ShoppingCart, User, Menu, Search, LogOut, Settings } from 'lucide-react';
+import { ShoppingCart, User, Menu, LogOut, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import {
   DropdownMenu,
@@ -12,22 +11,14 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
-import { useState } from 'react';
+import { SearchAutocomplete } from './SearchAutocomplete';
 import { useNavigate } from 'react-router-dom';
 
 export function Header() {
   const { user, isAdmin, signOut } = useAuth();
   const { itemCount } = useCart();
-  const [searchQuery, setSearchQuery] = useState('');
   const navigate = useNavigate();
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-    }
-  };
-
   const handleSignOut = async () => {
     await signOut();
     navigate('/');
@@ -74,17 +65,7 @@ export function Header() {
         </Link>
 
         {/* Search Bar */}
-        <form onSubmit={handleSearch} className="flex-1 max-w-xl mx-4 hidden md:flex">
-          <div className="relative w-full">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Buscar productos..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10 pr-4 w-full"
-            />
-          </div>
-        </form>
+        <SearchAutocomplete className="flex-1 max-w-xl mx-4 hidden md:flex" />
 
         {/* Desktop Nav */}
         <nav className="hidden md:flex items-center gap-6">
@@ -164,17 +145,7 @@ export function Header() {
 
       {/* Mobile Search */}
       <div className="md:hidden px-4 pb-3">
-        <form onSubmit={handleSearch}>
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Buscar productos..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
-          </div>
-        </form>
+        <SearchAutocomplete />
       </div>
     </header>
   );
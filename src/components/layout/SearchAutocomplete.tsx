@@ -0,0 +1,195 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Category } from '@/types';
+import { ProductSuggestion, useCategories, useSearchSuggestions } from '@/api/catalog';
+import { useDebounce } from '@/hooks/use-debounce';
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from '@/lib/recentSearches';
+import { cn } from '@/lib/utils';
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator
+} from '@/components/ui/command';
+import { Clock, Loader2, Search, Tags, X } from 'lucide-react';
+
+const MAX_CATEGORIES = 3;
+
+// Lowercase without accents so "lampara" matches "Lámpara"
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+interface SearchAutocompleteProps {
+  className?: string;
+}
+
+export function SearchAutocomplete({ className }: SearchAutocompleteProps) {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>(getRecentSearches);
+  const debouncedQuery = useDebounce(query.trim());
+  const { data: categories = [] } = useCategories();
+  const { data: products = [], isFetching: loading } = useSearchSuggestions(debouncedQuery);
+
+  const matchingCategories = debouncedQuery
+    ? categories
+        .filter(category => normalize(category.name).includes(normalize(debouncedQuery)))
+        .slice(0, MAX_CATEGORIES)
+    : [];
+
+  const close = () => {
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const searchFor = (term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed) return;
+    setRecentSearches(addRecentSearch(trimmed));
+    setQuery(trimmed);
+    close();
+    navigate(`/?search=${encodeURIComponent(trimmed)}`);
+  };
+
+  const openProduct = (product: ProductSuggestion) => {
+    if (query.trim()) setRecentSearches(addRecentSearch(query));
+    setQuery('');
+    close();
+    navigate(`/product/${product.id}`);
+  };
+
+  const openCategory = (category: Category) => {
+    setQuery('');
+    close();
+    navigate(`/?category=${category.id}`);
+  };
+
+  const showRecent = !query.trim() && recentSearches.length > 0;
+  const showResults = !!query.trim();
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className={cn(
+        'relative overflow-visible bg-transparent',
+        '[&_[cmdk-input-wrapper]]:rounded-md [&_[cmdk-input-wrapper]]:border [&_[cmdk-input-wrapper]]:border-input [&_[cmdk-input-wrapper]]:bg-background',
+        '[&_[cmdk-input]]:h-10 [&_[cmdk-input]]:py-2',
+        className
+      )}
+      onKeyDown={e => {
+        if (e.key === 'Escape') close();
+      }}
+    >
+      <CommandInput
+        ref={inputRef}
+        value={query}
+        onValueChange={value => {
+          setQuery(value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder="Buscar productos..."
+        aria-label="Buscar productos"
+      />
+
+      {open && (showRecent || showResults) && (
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover shadow-lg"
+          // Keep focus in the input so clicking a suggestion does not close the list first
+          onMouseDown={e => e.preventDefault()}
+        >
+          <CommandList className="max-h-[420px]">
+            {showRecent && (
+              <CommandGroup heading="Búsquedas recientes">
+                {recentSearches.map(term => (
+                  <CommandItem key={term} value={`recent-${term}`} onSelect={() => searchFor(term)} className="gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    {term}
+                  </CommandItem>
+                ))}
+                <CommandItem
+                  value="clear-recent"
+                  onSelect={() => {
+                    clearRecentSearches();
+                    setRecentSearches([]);
+                  }}
+                  className="gap-2 text-muted-foreground"
+                >
+                  <X className="h-4 w-4" />
+                  Borrar historial
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {showResults && (
+              <>
+                <CommandGroup>
+                  <CommandItem value="see-all" onSelect={() => searchFor(query)} className="gap-2">
+                    <Search className="h-4 w-4" />
+                    Ver todos los resultados para "{query.trim()}"
+                  </CommandItem>
+                </CommandGroup>
+
+                {matchingCategories.length > 0 && (
+                  <>
+                    <CommandSeparator />
+                    <CommandGroup heading="Categorías">
+                      {matchingCategories.map(category => (
+                        <CommandItem
+                          key={category.id}
+                          value={`category-${category.id}`}
+                          onSelect={() => openCategory(category)}
+                          className="gap-2"
+                        >
+                          <Tags className="h-4 w-4 text-muted-foreground" />
+                          {category.name}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </>
+                )}
+
+                <CommandSeparator />
+                {loading && products.length === 0 ? (
+                  <div className="flex items-center gap-2 px-3 py-3 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Buscando...
+                  </div>
+                ) : products.length > 0 ? (
+                  <CommandGroup heading="Productos">
+                    {products.map(product => (
+                      <CommandItem
+                        key={product.id}
+                        value={`product-${product.id}`}
+                        onSelect={() => openProduct(product)}
+                        className="gap-3"
+                      >
+                        <img
+                          src={product.image_url || '/placeholder.svg'}
+                          alt=""
+                          className="h-10 w-10 shrink-0 rounded object-cover bg-muted"
+                        />
+                        <span className="flex-1 truncate">{product.name}</span>
+                        <span className="text-sm font-semibold">${product.price.toFixed(2)}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                ) : (
+                  debouncedQuery && (
+                    <p className="px-3 py-3 text-sm text-muted-foreground">No hay productos que coincidan</p>
+                  )
+                )}
+              </>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+}
@@ -0,0 +1,46 @@
+import { Order, OrderItem } from '@/types';
+import { formatShippingCost } from '@/lib/shipping';
+import { splitOrderTaxes } from '@/lib/tax';
+
+interface OrderBreakdownProps {
+  order: Pick<Order, 'subtotal' | 'discount_total' | 'coupon_code' | 'shipping_method' | 'shipping_total'> & {
+    order_items: Pick<OrderItem, 'tax_amount' | 'tax_inclusive'>[];
+  };
+}
+
+export function OrderBreakdown({ order }: OrderBreakdownProps) {
+  const taxes = splitOrderTaxes(order.order_items);
+
+  return (
+    <div className="space-y-1 pt-4 border-t mt-4 text-sm">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Subtotal</span>
+        <span>${order.subtotal.toFixed(2)}</span>
+      </div>
+      {order.discount_total > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Descuento ({order.coupon_code})</span>
+          <span className="text-success">-${order.discount_total.toFixed(2)}</span>
+        </div>
+      )}
+      {order.shipping_method && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Envío ({order.shipping_method})</span>
+          <span>{formatShippingCost(order.shipping_total)}</span>
+        </div>
+      )}
+      {taxes.added > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Impuestos</span>
+          <span>${taxes.added.toFixed(2)}</span>
+        </div>
+      )}
+      {taxes.included > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Impuestos incluidos en el precio</span>
+          <span className="text-muted-foreground">${taxes.included.toFixed(2)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { OrderStatus } from '@/types';
+
+interface OrderStatusBadgeProps {
+  status: string;
+}
+
+const variants: Record<OrderStatus, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; className?: string }> = {
+  pending: { variant: 'outline' },
+  processing: { variant: 'secondary' },
+  shipped: { variant: 'secondary' },
+  delivered: { variant: 'default', className: 'bg-success text-success-foreground' },
+  cancelled: { variant: 'destructive' }
+};
+
+export function OrderStatusBadge({ status }: OrderStatusBadgeProps) {
+  const { variant, className } = variants[status as OrderStatus] || { variant: 'outline' };
+  const label = ORDER_STATUS_LABELS[status as OrderStatus] || status;
+  return <Badge variant={variant} className={className}>{label}</Badge>;
+}
@@ -0,0 +1,60 @@
+import { CheckCircle2, Circle, XCircle } from 'lucide-react';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { OrderStatus, OrderStatusHistory } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface OrderTimelineProps {
+  history: OrderStatusHistory[];
+}
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleDateString('es-ES', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export function OrderTimeline({ history }: OrderTimelineProps) {
+  const entries = [...history].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sin movimientos registrados</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 pl-6">
+      {entries.map((entry, index) => {
+        const isLast = index === entries.length - 1;
+        const isCancelled = entry.to_status === 'cancelled';
+        const Icon = isCancelled ? XCircle : isLast ? Circle : CheckCircle2;
+
+        return (
+          <li key={entry.id} className="relative">
+            {!isLast && (
+              <span className="absolute -left-[15px] top-5 h-full w-px bg-border" aria-hidden />
+            )}
+            <Icon
+              className={cn(
+                'absolute -left-6 top-0.5 h-4 w-4',
+                isCancelled ? 'text-destructive' : isLast ? 'text-primary' : 'text-success'
+              )}
+            />
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm font-medium">
+                {ORDER_STATUS_LABELS[entry.to_status as OrderStatus] || entry.to_status}
+              </p>
+              <time className="text-xs text-muted-foreground" dateTime={entry.created_at}>
+                {formatDateTime(entry.created_at)}
+              </time>
+            </div>
+            {entry.note && <p className="text-sm text-muted-foreground">{entry.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { useRequestReturn } from '@/api/orders';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ReturnableItem {
+  id: string;
+  product_name: string;
+  variant_title: string | null;
+  quantity: number;
+}
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  items: ReturnableItem[];
+  // Units per order item already covered by a pending or approved request
+  requestedQuantities: Record<string, number>;
+}
+
+const emptyForm = {
+  orderItemId: '',
+  quantity: '1',
+  reason: '',
+  photoUrl: ''
+};
+
+export function ReturnRequestDialog({
+  open,
+  onOpenChange,
+  orderId,
+  items,
+  requestedQuantities
+}: ReturnRequestDialogProps) {
+  const [formData, setFormData] = useState(emptyForm);
+  const requestReturn = useRequestReturn();
+
+  useEffect(() => {
+    if (open) setFormData(emptyForm);
+  }, [open]);
+
+  const returnableItems = items.filter(item => item.quantity - (requestedQuantities[item.id] || 0) > 0);
+  const selectedItem = returnableItems.find(item => item.id === formData.orderItemId);
+  const maxQuantity = selectedItem ? selectedItem.quantity - (requestedQuantities[selectedItem.id] || 0) : 1;
+
+  const handleSubmit = () => {
+    const quantity = parseInt(formData.quantity);
+    if (!selectedItem || !formData.reason.trim()) {
+      toast.error('Selecciona un producto e indica el motivo');
+      return;
+    }
+    if (!quantity || quantity < 1 || quantity > maxQuantity) {
+      toast.error(`Puedes devolver entre 1 y ${maxQuantity} unidades`);
+      return;
+    }
+
+    requestReturn.mutate(
+      {
+        orderItemId: selectedItem.id,
+        quantity,
+        reason: formData.reason,
+        photoUrl: formData.photoUrl || null
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Solicitar devolución</DialogTitle>
+          <DialogDescription>
+            Pedido #{orderId.slice(0, 8)}. Revisaremos tu solicitud y te avisaremos cuando sea resuelta.
+          </DialogDescription>
+        </DialogHeader>
+
+        {returnableItems.length === 0 ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            Ya solicitaste la devolución de todos los productos de este pedido.
+          </p>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="return-item">Producto *</Label>
+              <Select
+                value={formData.orderItemId}
+                onValueChange={value => setFormData({ ...formData, orderItemId: value, quantity: '1' })}
+              >
+                <SelectTrigger id="return-item">
+                  <SelectValue placeholder="Seleccionar producto" />
+                </SelectTrigger>
+                <SelectContent>
+                  {returnableItems.map(item => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.product_name}{item.variant_title && ` (${item.variant_title})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-quantity">Cantidad *</Label>
+              <Input
+                id="return-quantity"
+                type="number"
+                min="1"
+                max={maxQuantity}
+                value={formData.quantity}
+                onChange={e => setFormData({ ...formData, quantity: e.target.value })}
+                disabled={!selectedItem}
+              />
+              {selectedItem && (
+                <p className="text-xs text-muted-foreground">Máximo {maxQuantity} unidades</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-reason">Motivo *</Label>
+              <Textarea
+                id="return-reason"
+                value={formData.reason}
+                onChange={e => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="Describe el problema con el producto"
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-photo">URL de foto (opcional)</Label>
+              <Input
+                id="return-photo"
+                value={formData.photoUrl}
+                onChange={e => setFormData({ ...formData, photoUrl: e.target.value })}
+                placeholder="https://ejemplo.com/foto.jpg"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={requestReturn.isPending || returnableItems.length === 0}>
+            {requestReturn.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Enviando...
+              </>
+            ) : (
+              'Enviar solicitud'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
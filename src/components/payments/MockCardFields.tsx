@@ -0,0 +1,115 @@
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { CardTokenResult, MOCK_TEST_CARDS, mockPaymentProvider } from '@/lib/mockPayments';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck } from 'lucide-react';
+
+export interface CardFieldsHandle {
+  tokenize: () => Promise<CardTokenResult>;
+}
+
+const formatCardNumber = (value: string) =>
+  value
+    .replace(/\D/g, '')
+    .replace(/(\d{4})(?=\d)/g, '$1 ')
+    .slice(0, 19);
+
+const formatExpiry = (value: string) => {
+  const numbers = value.replace(/\D/g, '');
+  return numbers.length >= 2 ? `${numbers.slice(0, 2)}/${numbers.slice(2, 4)}` : numbers;
+};
+
+// Plays the part of a gateway's hosted fields. The inputs are uncontrolled so
+// the card details live only in the DOM until the gateway turns them into a token.
+export const MockCardFields = forwardRef<CardFieldsHandle>((_props, ref) => {
+  const numberRef = useRef<HTMLInputElement>(null);
+  const expiryRef = useRef<HTMLInputElement>(null);
+  const cvcRef = useRef<HTMLInputElement>(null);
+  const nameRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    tokenize: async () => {
+      const result = await mockPaymentProvider.tokenizeCard({
+        number: numberRef.current?.value ?? '',
+        expiry: expiryRef.current?.value ?? '',
+        cvc: cvcRef.current?.value ?? '',
+        name: nameRef.current?.value ?? ''
+      });
+      setError('error' in result ? result.error : null);
+      return result;
+    }
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="cardNumber">Número de tarjeta</Label>
+        <Input
+          id="cardNumber"
+          ref={numberRef}
+          onInput={e => (e.currentTarget.value = formatCardNumber(e.currentTarget.value))}
+          placeholder="1234 5678 9012 3456"
+          inputMode="numeric"
+          autoComplete="cc-number"
+          maxLength={19}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="expiry">Fecha de expiración</Label>
+          <Input
+            id="expiry"
+            ref={expiryRef}
+            onInput={e => (e.currentTarget.value = formatExpiry(e.currentTarget.value))}
+            placeholder="MM/YY"
+            inputMode="numeric"
+            autoComplete="cc-exp"
+            maxLength={5}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cvv">CVV</Label>
+          <Input
+            id="cvv"
+            ref={cvcRef}
+            onInput={e => (e.currentTarget.value = e.currentTarget.value.replace(/\D/g, '').slice(0, 4))}
+            placeholder="123"
+            inputMode="numeric"
+            autoComplete="cc-csc"
+            maxLength={4}
+            type="password"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cardName">Nombre en la tarjeta</Label>
+        <Input
+          id="cardName"
+          ref={nameRef}
+          onInput={e => (e.currentTarget.value = e.currentTarget.value.toUpperCase())}
+          placeholder="JUAN PEREZ"
+          autoComplete="cc-name"
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-2 text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">
+        <ShieldCheck className="h-4 w-4 shrink-0 text-success mt-0.5" />
+        <div className="space-y-1">
+          <p>Este es un pago simulado. No se realizará ningún cargo real.</p>
+          <p className="text-xs">
+            Tarjetas de prueba: {MOCK_TEST_CARDS.success} (aprobada), {MOCK_TEST_CARDS.declined} (rechazada),{' '}
+            {MOCK_TEST_CARDS.insufficient_funds} (sin fondos), {MOCK_TEST_CARDS.three_d_secure} (3-D Secure),{' '}
+            {MOCK_TEST_CARDS.timeout} (sin respuesta).
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+MockCardFields.displayName = 'MockCardFields';
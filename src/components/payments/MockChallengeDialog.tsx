@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import { setMockChallengeHandler } from '@/lib/mockPayments';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldCheck } from 'lucide-react';
+
+// The bank's 3-D Secure page for the mock gateway. While mounted it answers the
+// gateway's challenges; closing the dialog counts as failing verification.
+export function MockChallengeDialog() {
+  const [reference, setReference] = useState<string | null>(null);
+  const resolveRef = useRef<((approved: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    setMockChallengeHandler(
+      challengeReference =>
+        new Promise<boolean>(resolve => {
+          resolveRef.current = resolve;
+          setReference(challengeReference);
+        })
+    );
+    return () => {
+      setMockChallengeHandler(null);
+      resolveRef.current?.(false);
+    };
+  }, []);
+
+  const answer = (approved: boolean) => {
+    resolveRef.current?.(approved);
+    resolveRef.current = null;
+    setReference(null);
+  };
+
+  return (
+    <Dialog open={!!reference} onOpenChange={open => !open && answer(false)}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Verificación 3-D Secure
+          </DialogTitle>
+          <DialogDescription>
+            Tu banco pide confirmar este pago. En la pasarela simulada puedes aprobarlo o rechazarlo.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => answer(false)}>
+            Rechazar
+          </Button>
+          <Button onClick={() => answer(true)}>Aprobar pago</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { Order } from '@/types';
+import { useStoreSettings } from '@/api/settings';
+import { formatIban } from '@/lib/payments';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Landmark } from 'lucide-react';
+
+interface TransferInstructionsProps {
+  order: Pick<Order, 'total' | 'payment_reference' | 'payment_due_at'>;
+}
+
+export function TransferInstructions({ order }: TransferInstructionsProps) {
+  const { data: settings } = useStoreSettings();
+  if (!settings?.bank_iban || !order.payment_reference) return null;
+
+  const dueAt = order.payment_due_at
+    ? new Date(order.payment_due_at).toLocaleString('es-ES', {
+        day: 'numeric',
+        month: 'long',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    : null;
+
+  return (
+    <Alert className="text-left">
+      <Landmark className="h-4 w-4" />
+      <AlertTitle>Completa el pago por transferencia</AlertTitle>
+      <AlertDescription>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 my-2">
+          <dt className="text-muted-foreground">Importe</dt>
+          <dd className="font-semibold">${order.total.toFixed(2)}</dd>
+          <dt className="text-muted-foreground">Concepto</dt>
+          <dd className="font-mono font-semibold">{order.payment_reference}</dd>
+          <dt className="text-muted-foreground">IBAN</dt>
+          <dd className="font-mono">{formatIban(settings.bank_iban)}</dd>
+          <dt className="text-muted-foreground">Titular</dt>
+          <dd>{settings.bank_account_holder}</dd>
+          <dt className="text-muted-foreground">Banco</dt>
+          <dd>{settings.bank_name}</dd>
+        </dl>
+        Indica el concepto tal cual para que podamos identificar tu pago.
+        {dueAt && ` Si no lo recibimos antes del ${dueAt}, el pedido se cancelará.`}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Category } from '@/types';
+import { CatalogFilters, hasActiveFilters } from '@/lib/catalogFilters';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+
+interface CatalogFilterPanelProps {
+  filters: CatalogFilters;
+  onChange: (changes: Partial<CatalogFilters>) => void;
+  onReset: () => void;
+  categories: Category[];
+  // Products per category with every filter except the category one applied
+  categoryCounts: Record<string, number>;
+  priceBounds: [number, number];
+}
+
+export function CatalogFilterPanel({
+  filters,
+  onChange,
+  onReset,
+  categories,
+  categoryCounts,
+  priceBounds
+}: CatalogFilterPanelProps) {
+  const [minBound, maxBound] = priceBounds;
+  const [priceRange, setPriceRange] = useState<[number, number]>([
+    filters.minPrice ?? minBound,
+    filters.maxPrice ?? maxBound
+  ]);
+
+  // Follow URL changes (back button, reset) while the slider is not being dragged
+  useEffect(() => {
+    setPriceRange([filters.minPrice ?? minBound, filters.maxPrice ?? maxBound]);
+  }, [filters.minPrice, filters.maxPrice, minBound, maxBound]);
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    onChange({
+      categories: checked
+        ? [...filters.categories, categoryId]
+        : filters.categories.filter(id => id !== categoryId)
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Filtros</h3>
+        {hasActiveFilters(filters) && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onReset}>
+            Limpiar
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Categorías</h4>
+        {categories.map(category => {
+          const count = categoryCounts[category.id] || 0;
+          const checked = filters.categories.includes(category.id);
+          return (
+            <div key={category.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`category-${category.id}`}
+                checked={checked}
+                onCheckedChange={value => toggleCategory(category.id, value === true)}
+                disabled={count === 0 && !checked}
+              />
+              <Label
+                htmlFor={`category-${category.id}`}
+                className="flex flex-1 cursor-pointer items-center justify-between font-normal"
+              >
+                <span>{category.name}</span>
+                <span className="text-xs text-muted-foreground">{count}</span>
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium">Precio</h4>
+        <Slider
+          min={minBound}
+          max={maxBound}
+          step={1}
+          value={priceRange}
+          onValueChange={value => setPriceRange([value[0], value[1]])}
+          onValueCommit={([min, max]) =>
+            onChange({
+              minPrice: min <= minBound ? null : min,
+              maxPrice: max >= maxBound ? null : max
+            })
+          }
+          minStepsBetweenThumbs={1}
+          aria-label="Rango de precio"
+        />
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>${priceRange[0]}</span>
+          <span>${priceRange[1]}</span>
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="filter-in-stock" className="font-normal">Solo con stock</Label>
+          <Switch
+            id="filter-in-stock"
+            checked={filters.inStock}
+            onCheckedChange={checked => onChange({ inStock: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="filter-featured" className="font-normal">Solo destacados</Label>
+          <Switch
+            id="filter-featured"
+            checked={filters.featured}
+            onCheckedChange={checked => onChange({ featured: checked })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Fragment } from 'react';
+
+interface HighlightedTextProps {
+  // Text from the search RPC, with matches wrapped in <mark>...</mark>
+  text: string;
+  className?: string;
+}
+
+// Renders the <mark> tags as elements without injecting the text as HTML
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-accent/30 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </span>
+  );
+}
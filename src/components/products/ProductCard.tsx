@@ -1,20 +1,28 @@
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { ShoppingCart, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Product } from '@/types';
+import { Product, ProductSearchHighlight } from '@/types';
 import { useCart } from '@/contexts/CartContext';
 import { motion } from 'framer-motion';
+import { HighlightedText } from './HighlightedText';
 
 interface ProductCardProps {
   product: Product;
+  highlight?: ProductSearchHighlight;
 }
 
-export function ProductCard({ product }: ProductCardProps) {
+export function ProductCard({ product, highlight }: ProductCardProps) {
   const { addItem } = useCart();
+  const navigate = useNavigate();
 
   const handleAddToCart = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    // Products with variants need a size/color picked on the detail page
+    if (product.has_variants) {
+      navigate(`/product/${product.id}`);
+      return;
+    }
     addItem(product);
   };
 
@@ -66,8 +74,14 @@ export function ProductCard({ product }: ProductCardProps) {
               {product.categories?.name || 'Sin categoría'}
             </p>
             <h3 className="font-semibold text-foreground line-clamp-2 mb-2 group-hover:text-primary transition-colors">
-              {product.name}
+              {highlight ? <HighlightedText text={highlight.name_highlight} /> : product.name}
             </h3>
+            {highlight?.snippet && (
+              <HighlightedText
+                text={highlight.snippet}
+                className="block text-xs text-muted-foreground line-clamp-2 mb-2"
+              />
+            )}
             <div className="flex items-center justify-between">
               <span className="price-tag">${product.price.toFixed(2)}</span>
               <Button
@@ -78,7 +92,7 @@ export function ProductCard({ product }: ProductCardProps) {
                 className="gap-1"
               >
                 <ShoppingCart className="h-4 w-4" />
-                <span className="hidden sm:inline">Agregar</span>
+                <span className="hidden sm:inline">{product.has_variants ? 'Elegir' : 'Agregar'}</span>
               </Button>
             </div>
           </div>
@@ -0,0 +1,11 @@
+import { Skeleton } from '@/components/ui/skeleton';
+
+export function ProductCardSkeleton() {
+  return (
+    <div className="space-y-3">
+      <Skeleton className="aspect-square rounded-2xl" />
+      <Skeleton className="h-4 w-3/4" />
+      <Skeleton className="h-4 w-1/2" />
+    </div>
+  );
+}
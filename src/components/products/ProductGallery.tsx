@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious
+} from '@/components/ui/carousel';
+
+export interface GalleryImage {
+  url: string;
+  alt: string;
+}
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  // Index to show when it changes, e.g. the image of the selected variant
+  activeIndex?: number;
+  className?: string;
+}
+
+const HOVER_ZOOM = 2;
+const MAX_PINCH_ZOOM = 4;
+
+export function ProductGallery({ images, activeIndex = -1, className }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [zoomed, setZoomed] = useState(false);
+  const slides = images.length > 0 ? images : [{ url: '/placeholder.svg', alt: '' }];
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    api.on('reInit', onSelect);
+
+    return () => {
+      api.off('select', onSelect);
+      api.off('reInit', onSelect);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    if (api && activeIndex >= 0) api.scrollTo(activeIndex);
+  }, [api, activeIndex]);
+
+  return (
+    <Carousel
+      setApi={setApi}
+      // Dragging would fight with panning a zoomed image
+      opts={{ watchDrag: !zoomed }}
+      tabIndex={0}
+      aria-label="Imágenes del producto"
+      className={cn('space-y-3 rounded-2xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring', className)}
+    >
+      <div className="relative">
+        <CarouselContent className="ml-0">
+          {slides.map((image, index) => (
+            <CarouselItem key={`${image.url}-${index}`} className="pl-0">
+              <ZoomableImage
+                src={image.url}
+                alt={image.alt}
+                active={index === current}
+                onZoomChange={setZoomed}
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {slides.length > 1 && (
+          <>
+            <CarouselPrevious className="left-3 bg-background/80" />
+            <CarouselNext className="right-3 bg-background/80" />
+          </>
+        )}
+      </div>
+
+      {slides.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {slides.map((image, index) => (
+            <button
+              key={`${image.url}-${index}`}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              aria-label={`Ver imagen ${index + 1}`}
+              aria-current={index === current}
+              className={cn(
+                'h-16 w-16 shrink-0 overflow-hidden rounded-lg border-2 bg-muted transition-colors',
+                index === current ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'
+              )}
+            >
+              <img src={image.url} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </Carousel>
+  );
+}
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  active: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+// Zooms towards the cursor on hover and follows two-finger pinches on touch screens
+function ZoomableImage({ src, alt, active, onZoomChange }: ZoomableImageProps) {
+  const [scale, setScale] = useState(1);
+  const [origin, setOrigin] = useState('50% 50%');
+  const pinch = useRef<{ distance: number; scale: number } | null>(null);
+
+  useEffect(() => {
+    if (!active) setScale(1);
+  }, [active]);
+
+  useEffect(() => {
+    if (active) onZoomChange(scale > 1);
+  }, [active, scale, onZoomChange]);
+
+  const setOriginAt = (element: HTMLElement, clientX: number, clientY: number) => {
+    const rect = element.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * 100;
+    const y = ((clientY - rect.top) / rect.height) * 100;
+    setOrigin(`${x}% ${y}%`);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType !== 'mouse') return;
+    setOriginAt(e.currentTarget, e.clientX, e.clientY);
+    setScale(HOVER_ZOOM);
+  };
+
+  const handlePointerLeave = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse') setScale(1);
+  };
+
+  const touchDistance = (touches: React.TouchList) =>
+    Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length !== 2) return;
+    pinch.current = { distance: touchDistance(e.touches), scale };
+    setOriginAt(
+      e.currentTarget,
+      (e.touches[0].clientX + e.touches[1].clientX) / 2,
+      (e.touches[0].clientY + e.touches[1].clientY) / 2
+    );
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (!pinch.current || e.touches.length !== 2) return;
+    const next = pinch.current.scale * (touchDistance(e.touches) / pinch.current.distance);
+    setScale(Math.min(MAX_PINCH_ZOOM, Math.max(1, next)));
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length < 2) pinch.current = null;
+    if (scale < 1.1) setScale(1);
+  };
+
+  return (
+    <div
+      className="aspect-square overflow-hidden rounded-2xl bg-muted"
+      style={{ touchAction: scale > 1 ? 'none' : 'pan-y' }}
+      onPointerMove={handlePointerMove}
+      onPointerLeave={handlePointerLeave}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onDoubleClick={() => setScale(1)}
+    >
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className={cn('h-full w-full object-cover', scale === 1 && 'transition-transform duration-200')}
+        style={{ transform: `scale(${scale})`, transformOrigin: origin }}
+      />
+    </div>
+  );
+}
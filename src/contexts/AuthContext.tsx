@@ -3,17 +3,25 @@ import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 
 interface AuthContextType {
+  // Signed-in account; null for visitors, including guests with an anonymous session
   user: User | null;
+  // Current Supabase session, anonymous for guests who started a cart
   session: Session | null;
   isAdmin: boolean;
   loading: boolean;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  // Returns the session's user id, starting an anonymous session for guests that have none
+  ensureGuestSession: () => Promise<string>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Anonymous sessions only hold a guest cart, so they do not count as signed in
+const getAccount = (session: Session | null) =>
+  session?.user && !session.user.is_anonymous ? session.user : null;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -23,9 +31,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_, session) => {
       setSession(session);
-      setUser(session?.user ?? null);
+      setUser(getAccount(session));
       
-      if (session?.user) {
+      if (getAccount(session)) {
         setTimeout(() => {
           checkAdminRole(session.user.id);
         }, 0);
@@ -36,8 +44,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
-      setUser(session?.user ?? null);
-      if (session?.user) {
+      setUser(getAccount(session));
+      if (getAccount(session)) {
         checkAdminRole(session.user.id);
       }
       setLoading(false);
@@ -79,8 +87,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsAdmin(false);
   };
 
+  const ensureGuestSession = async () => {
+    if (session) return session.user.id;
+    const { data, error } = await supabase.auth.signInAnonymously();
+    if (error) throw error;
+    return data.user.id;
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, isAdmin, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, isAdmin, loading, signUp, signIn, signOut, ensureGuestSession }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,164 +1,168 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { createContext, useContext, useEffect, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './AuthContext';
-import { CartItem, Product } from '@/types';
+import { CartItem, Product, ProductVariant } from '@/types';
+import { getCartItemPrice, getCartItemStock, hasPriceChanged, hasStockShortage } from '@/lib/cart';
 import { toast } from 'sonner';
+import { queryKeys } from '@/api/keys';
+import {
+  CartCoupon,
+  cartSessionOptions,
+  getStockMessage,
+  isOptimisticItem,
+  useAcceptCartPrices,
+  useAddCartItem,
+  useCartCoupon,
+  useCartSession,
+  useCartItems,
+  useCartSync,
+  useClearCart,
+  usePendingCartItemIds,
+  useRemoveCartItem,
+  useSetCartCoupon,
+  useUpdateCartItem
+} from '@/api/cart';
 
 interface CartContextType {
   items: CartItem[];
   cartId: string | null;
   loading: boolean;
   itemCount: number;
+  // Sum of the lines before the coupon discount
   total: number;
-  addItem: (product: Product, quantity?: number) => Promise<void>;
+  coupon: CartCoupon | null;
+  discount: number;
+  addItem: (product: Product, quantity?: number, variant?: ProductVariant | null) => Promise<void>;
   removeItem: (itemId: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   clearCart: () => Promise<void>;
   refreshCart: () => Promise<void>;
+  // Whether the line has a change the server has not confirmed yet
+  isItemPending: (itemId: string) => boolean;
+  // Lines whose price changed since they were added, or with more units than in stock
+  priceChanges: CartItem[];
+  stockShortages: CartItem[];
+  acceptNewPrices: () => Promise<void>;
+  // Resolves to whether the coupon was accepted
+  applyCoupon: (code: string) => Promise<boolean>;
+  removeCoupon: () => Promise<void>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const getSessionId = () => {
-  let sessionId = localStorage.getItem('cart_session_id');
-  if (!sessionId) {
-    sessionId = crypto.randomUUID();
-    localStorage.setItem('cart_session_id', sessionId);
-  }
-  return sessionId;
-};
-
 export function CartProvider({ children }: { children: ReactNode }) {
-  const { user } = useAuth();
-  const [items, setItems] = useState<CartItem[]>([]);
-  const [cartId, setCartId] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, session, loading: authLoading, ensureGuestSession } = useAuth();
+  const queryClient = useQueryClient();
+  const ownerId = session?.user.id ?? null;
+  const cartQuery = useCartSession(ownerId, !user, !authLoading);
+  const cartId = cartQuery.data?.id;
+  const itemsQuery = useCartItems(cartId);
+  const couponQuery = useCartCoupon(cartId);
 
-  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
-  const total = items.reduce((sum, item) => {
-    const price = item.products?.price ?? 0;
-    return sum + price * item.quantity;
-  }, 0);
-
-  const getOrCreateCart = async () => {
-    const sessionId = getSessionId();
-    
-    let query = supabase.from('carts').select('id');
-    
-    if (user) {
-      query = query.eq('user_id', user.id);
-    } else {
-      query = query.eq('session_id', sessionId).is('user_id', null);
+  const addMutation = useAddCartItem();
+  const updateMutation = useUpdateCartItem(cartId);
+  const removeMutation = useRemoveCartItem(cartId);
+  const clearMutation = useClearCart(cartId);
+  const acceptPricesMutation = useAcceptCartPrices(cartId);
+  const couponMutation = useSetCartCoupon(cartId);
+  const pendingItemIds = usePendingCartItemIds();
+  useCartSync(cartId);
+
+  // Tell the user what came over from the cart they filled before signing in
+  const merged = cartQuery.data?.merged;
+  useEffect(() => {
+    if (!merged?.length) return;
+    const added = merged.filter(item => item.quantity > 0);
+    const capped = merged.filter(item => item.capped);
+    if (added.length > 0) {
+      toast.success(
+        added.length === 1
+          ? 'Añadimos a tu carrito 1 producto que agregaste antes de iniciar sesión'
+          : `Añadimos a tu carrito ${added.length} productos que agregaste antes de iniciar sesión`,
+        { description: added.map(item => `${item.product_name} × ${item.quantity}`).join(', ') }
+      );
     }
-    
-    const { data: existingCart } = await query.maybeSingle();
-    
-    if (existingCart) {
-      return existingCart.id;
+    if (capped.length > 0) {
+      toast.warning('Algunas cantidades se ajustaron al stock disponible', {
+        description: capped.map(item => item.product_name).join(', ')
+      });
     }
-    
-    const { data: newCart, error } = await supabase
-      .from('carts')
-      .insert(user ? { user_id: user.id } : { session_id: sessionId })
-      .select('id')
-      .single();
-    
-    if (error) throw error;
-    return newCart.id;
-  };
+  }, [merged]);
 
-  const refreshCart = async () => {
-    try {
-      setLoading(true);
-      const id = await getOrCreateCart();
-      setCartId(id);
-      
-      const { data, error } = await supabase
-        .from('cart_items')
-        .select('*, products(*)')
-        .eq('cart_id', id);
-      
-      if (error) throw error;
-      setItems(data || []);
-    } catch (error) {
-      console.error('Error loading cart:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const items = itemsQuery.data ?? [];
+  const loading = authLoading || cartQuery.isPending || (!!cartId && itemsQuery.isPending);
+  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+  const total = items.reduce((sum, item) => sum + getCartItemPrice(item) * item.quantity, 0);
+  const priceChanges = items.filter(hasPriceChanged);
+  const stockShortages = items.filter(hasStockShortage);
+  const coupon = couponQuery.data ?? null;
+  const discount = coupon?.discount ?? 0;
 
-  useEffect(() => {
-    refreshCart();
-  }, [user]);
-
-  const addItem = async (product: Product, quantity = 1) => {
-    try {
-      const id = cartId || await getOrCreateCart();
-      
-      const existingItem = items.find(item => item.product_id === product.id);
-      
-      if (existingItem) {
-        await updateQuantity(existingItem.id, existingItem.quantity + quantity);
-      } else {
-        await supabase
-          .from('cart_items')
-          .insert({ cart_id: id, product_id: product.id, quantity });
-        
-        await refreshCart();
+  // Errors are reported by the mutation cache, so callers only wait for the request to settle
+  const settle = (promise: Promise<unknown>) => promise.then(() => undefined, () => undefined);
+
+  const addItem = async (product: Product, quantity = 1, variant: ProductVariant | null = null) => {
+    let id = cartId;
+    if (!id) {
+      // A guest's first add starts the anonymous session that will own the cart
+      try {
+        const guestId = await ensureGuestSession();
+        id = (await queryClient.fetchQuery(cartSessionOptions(guestId, true)))?.id;
+      } catch (error) {
+        console.error('Error creating guest cart:', error);
+      }
+      if (!id) {
+        toast.error('Error al agregar producto', { description: 'No se pudo crear el carrito' });
+        return;
       }
-      
-      toast.success('Producto agregado al carrito');
-    } catch (error) {
-      toast.error('Error al agregar producto');
-      console.error(error);
     }
+    await settle(addMutation.mutateAsync({ cartId: id, product, variant, quantity }));
   };
 
-  const removeItem = async (itemId: string) => {
-    try {
-      await supabase.from('cart_items').delete().eq('id', itemId);
-      setItems(items.filter(item => item.id !== itemId));
-      toast.success('Producto eliminado');
-    } catch (error) {
-      toast.error('Error al eliminar producto');
-    }
-  };
+  const isItemPending = (itemId: string) =>
+    pendingItemIds.has(itemId) || items.some(item => item.id === itemId && isOptimisticItem(item));
 
-  const updateQuantity = async (itemId: string, quantity: number) => {
-    try {
-      if (quantity <= 0) {
-        await removeItem(itemId);
-        return;
-      }
-      
-      await supabase
-        .from('cart_items')
-        .update({ quantity })
-        .eq('id', itemId);
-      
-      setItems(items.map(item => 
-        item.id === itemId ? { ...item, quantity } : item
-      ));
-    } catch (error) {
-      toast.error('Error al actualizar cantidad');
-    }
+  const removeItem = (itemId: string) => {
+    // Lines still being created have no server id yet
+    const item = items.find(cartItem => cartItem.id === itemId);
+    if (item && isOptimisticItem(item)) return Promise.resolve();
+    return settle(removeMutation.mutateAsync(itemId));
   };
 
-  const clearCart = async () => {
-    try {
-      if (cartId) {
-        await supabase.from('cart_items').delete().eq('cart_id', cartId);
-        setItems([]);
-      }
-    } catch (error) {
-      console.error('Error clearing cart:', error);
+  const updateQuantity = (itemId: string, quantity: number) => {
+    const item = items.find(cartItem => cartItem.id === itemId);
+    if (!item || isOptimisticItem(item)) return Promise.resolve();
+    if (quantity <= 0) return removeItem(itemId);
+
+    // Stock may be stale; the server clamps again and reports it
+    const stock = getCartItemStock(item);
+    if (quantity > stock) {
+      toast.warning(getStockMessage(item.products?.name ?? 'este producto', stock));
+      if (stock <= 0) return Promise.resolve();
+      quantity = stock;
     }
+    if (quantity === item.quantity) return Promise.resolve();
+    return settle(updateMutation.mutateAsync({ itemId, quantity }));
   };
 
+  const clearCart = () => (cartId ? settle(clearMutation.mutateAsync()) : Promise.resolve());
+
+  const acceptNewPrices = () => settle(acceptPricesMutation.mutateAsync());
+
+  const applyCoupon = (code: string) =>
+    cartId
+      ? couponMutation.mutateAsync({ code }).then(() => true, () => false)
+      : Promise.resolve(false);
+
+  const removeCoupon = () => settle(couponMutation.mutateAsync({ code: null }));
+
+  const refreshCart = () => queryClient.invalidateQueries({ queryKey: queryKeys.cart.all });
+
   return (
     <CartContext.Provider value={{
-      items, cartId, loading, itemCount, total,
-      addItem, removeItem, updateQuantity, clearCart, refreshCart
+      items, cartId: cartId ?? null, loading, itemCount, total, coupon, discount,
+      addItem, removeItem, updateQuantity, clearCart, refreshCart, isItemPending,
+      priceChanges, stockShortages, acceptNewPrices, applyCoupon, removeCoupon
     }}>
       {children}
     </CartContext.Provider>
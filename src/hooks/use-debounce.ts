@@ -0,0 +1,12 @@
+import * as React from "react";
+
+export function useDebounce<T>(value: T, delay = 250): T {
+  const [debounced, setDebounced] = React.useState(value);
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -21,7 +21,9 @@ export type Database = {
           id: string
           product_id: string
           quantity: number
+          unit_price: number
           updated_at: string
+          variant_id: string | null
         }
         Insert: {
           cart_id: string
@@ -29,7 +31,9 @@ export type Database = {
           id?: string
           product_id: string
           quantity?: number
+          unit_price: number
           updated_at?: string
+          variant_id?: string | null
         }
         Update: {
           cart_id?: string
@@ -37,7 +41,9 @@ export type Database = {
           id?: string
           product_id?: string
           quantity?: number
+          unit_price?: number
           updated_at?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -54,29 +60,36 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       carts: {
         Row: {
+          coupon_code: string | null
           created_at: string
           id: string
-          session_id: string | null
           updated_at: string
-          user_id: string | null
+          user_id: string
         }
         Insert: {
+          coupon_code?: string | null
           created_at?: string
           id?: string
-          session_id?: string | null
           updated_at?: string
-          user_id?: string | null
+          user_id: string
         }
         Update: {
+          coupon_code?: string | null
           created_at?: string
           id?: string
-          session_id?: string | null
           updated_at?: string
-          user_id?: string | null
+          user_id?: string
         }
         Relationships: []
       }
@@ -107,6 +120,60 @@ export type Database = {
         }
         Relationships: []
       }
+      coupons: {
+        Row: {
+          active: boolean
+          category_ids: string[]
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          id: string
+          min_subtotal: number
+          product_ids: string[]
+          starts_at: string | null
+          updated_at: string
+          usage_limit: number | null
+          usage_limit_per_user: number | null
+        }
+        Insert: {
+          active?: boolean
+          category_ids?: string[]
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value?: number
+          ends_at?: string | null
+          id?: string
+          min_subtotal?: number
+          product_ids?: string[]
+          starts_at?: string | null
+          updated_at?: string
+          usage_limit?: number | null
+          usage_limit_per_user?: number | null
+        }
+        Update: {
+          active?: boolean
+          category_ids?: string[]
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          ends_at?: string | null
+          id?: string
+          min_subtotal?: number
+          product_ids?: string[]
+          starts_at?: string | null
+          updated_at?: string
+          usage_limit?: number | null
+          usage_limit_per_user?: number | null
+        }
+        Relationships: []
+      }
       order_items: {
         Row: {
           created_at: string
@@ -116,7 +183,13 @@ export type Database = {
           product_name: string
           product_price: number
           quantity: number
+          refunded_quantity: number
           subtotal: number
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_rate: number
+          variant_id: string | null
+          variant_title: string | null
         }
         Insert: {
           created_at?: string
@@ -126,7 +199,13 @@ export type Database = {
           product_name: string
           product_price: number
           quantity?: number
+          refunded_quantity?: number
           subtotal: number
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
+          variant_id?: string | null
+          variant_title?: string | null
         }
         Update: {
           created_at?: string
@@ -136,7 +215,13 @@ export type Database = {
           product_name?: string
           product_price?: number
           quantity?: number
+          refunded_quantity?: number
           subtotal?: number
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
+          variant_id?: string | null
+          variant_title?: string | null
         }
         Relationships: [
           {
@@ -153,46 +238,422 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          order_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          order_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_notes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
+          amount_to_collect: number | null
+          cancelled_at: string | null
+          coupon_code: string | null
+          coupon_id: string | null
           created_at: string
+          delivered_at: string | null
+          discount_total: number
           id: string
           notes: string | null
+          paid_at: string | null
+          payment_due_at: string | null
           payment_method: string | null
+          payment_reference: string | null
+          payment_status: string
+          processing_at: string | null
+          refunded_total: number
           shipping_address: string | null
           shipping_city: string | null
+          shipped_at: string | null
+          shipping_method: string | null
+          shipping_method_id: string | null
+          shipping_total: number
           status: string
+          subtotal: number
+          tax_total: number
           total: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          amount_to_collect?: number | null
+          cancelled_at?: string | null
+          coupon_code?: string | null
+          coupon_id?: string | null
           created_at?: string
+          delivered_at?: string | null
+          discount_total?: number
           id?: string
           notes?: string | null
+          paid_at?: string | null
+          payment_due_at?: string | null
           payment_method?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          processing_at?: string | null
+          refunded_total?: number
           shipping_address?: string | null
           shipping_city?: string | null
+          shipped_at?: string | null
+          shipping_method?: string | null
+          shipping_method_id?: string | null
+          shipping_total?: number
           status?: string
+          subtotal?: number
+          tax_total?: number
           total?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          amount_to_collect?: number | null
+          cancelled_at?: string | null
+          coupon_code?: string | null
+          coupon_id?: string | null
           created_at?: string
+          delivered_at?: string | null
+          discount_total?: number
           id?: string
           notes?: string | null
+          paid_at?: string | null
+          payment_due_at?: string | null
           payment_method?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          processing_at?: string | null
+          refunded_total?: number
           shipping_address?: string | null
           shipping_city?: string | null
+          shipped_at?: string | null
+          shipping_method?: string | null
+          shipping_method_id?: string | null
+          shipping_total?: number
           status?: string
+          subtotal?: number
+          tax_total?: number
           total?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_shipping_method_id_fkey"
+            columns: ["shipping_method_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_methods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          event_id: string
+          id: string
+          outcome: string | null
+          payload: Json
+          payment_id: string | null
+          processed_at: string | null
+          provider: string
+          provider_reference: string | null
+          received_at: string
+          type: string
+        }
+        Insert: {
+          event_id: string
+          id?: string
+          outcome?: string | null
+          payload: Json
+          payment_id?: string | null
+          processed_at?: string | null
+          provider: string
+          provider_reference?: string | null
+          received_at?: string
+          type: string
+        }
+        Update: {
+          event_id?: string
+          id?: string
+          outcome?: string | null
+          payload?: Json
+          payment_id?: string | null
+          processed_at?: string | null
+          provider?: string
+          provider_reference?: string | null
+          received_at?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          card_brand: string | null
+          card_last4: string | null
+          created_at: string
+          failure_code: string | null
+          id: string
+          order_id: string
+          provider: string
+          provider_reference: string | null
+          refunded_amount: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          card_brand?: string | null
+          card_last4?: string | null
+          created_at?: string
+          failure_code?: string | null
+          id?: string
+          order_id: string
+          provider: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          card_brand?: string | null
+          card_last4?: string | null
+          created_at?: string
+          failure_code?: string | null
+          id?: string
+          order_id?: string
+          provider?: string
+          provider_reference?: string | null
+          refunded_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_images: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          id: string
+          position: number
+          product_id: string
+          url: string
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          id?: string
+          position?: number
+          product_id: string
+          url: string
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          id?: string
+          position?: number
+          product_id?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_option_types: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          product_id: string
+          values: string[]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          product_id: string
+          values?: string[]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          product_id?: string
+          values?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_option_types_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: string
+          image_url: string | null
+          options: Json
+          position: number
+          price: number | null
+          product_id: string
+          reserved: number
+          sku: string | null
+          stock: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          options?: Json
+          position?: number
+          price?: number | null
+          product_id: string
+          reserved?: number
+          sku?: string | null
+          stock?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          options?: Json
+          position?: number
+          price?: number | null
+          product_id?: string
+          reserved?: number
+          sku?: string | null
+          stock?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       products: {
         Row: {
@@ -200,36 +661,48 @@ export type Database = {
           created_at: string
           description: string | null
           featured: boolean | null
+          has_variants: boolean
           id: string
           image_url: string | null
           name: string
           price: number
+          reserved: number
+          search_vector: unknown | null
           stock: number
           updated_at: string
+          weight: number
         }
         Insert: {
           category_id?: string | null
           created_at?: string
           description?: string | null
           featured?: boolean | null
+          has_variants?: boolean
           id?: string
           image_url?: string | null
           name: string
           price?: number
+          reserved?: number
+          search_vector?: unknown | null
           stock?: number
           updated_at?: string
+          weight?: number
         }
         Update: {
           category_id?: string | null
           created_at?: string
           description?: string | null
           featured?: boolean | null
+          has_variants?: boolean
           id?: string
           image_url?: string | null
           name?: string
           price?: number
+          reserved?: number
+          search_vector?: unknown | null
           stock?: number
           updated_at?: string
+          weight?: number
         }
         Relationships: [
           {
@@ -274,6 +747,381 @@ export type Database = {
         }
         Relationships: []
       }
+      refund_items: {
+        Row: {
+          amount: number
+          id: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          refund_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          order_id: string
+          payment_id: string | null
+          provider_reference: string | null
+          reason: string | null
+          restock: boolean
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          order_id: string
+          payment_id?: string | null
+          provider_reference?: string | null
+          reason?: string | null
+          restock?: boolean
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          order_id?: string
+          payment_id?: string | null
+          provider_reference?: string | null
+          reason?: string | null
+          restock?: boolean
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_requests: {
+        Row: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          order_item_id: string
+          photo_url: string | null
+          quantity: number
+          reason: string
+          resolved_at: string | null
+          resolved_by: string | null
+          restocked: boolean
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          admin_note?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          order_item_id: string
+          photo_url?: string | null
+          quantity: number
+          reason: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          restocked?: boolean
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          admin_note?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          order_item_id?: string
+          photo_url?: string | null
+          quantity?: number
+          reason?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          restocked?: boolean
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_methods: {
+        Row: {
+          active: boolean
+          base_cost: number
+          cost_per_kg: number
+          created_at: string
+          estimated_days: string | null
+          free_over: number | null
+          id: string
+          kind: string
+          name: string
+          position: number
+          pricing: string
+          updated_at: string
+          zone_id: string
+        }
+        Insert: {
+          active?: boolean
+          base_cost?: number
+          cost_per_kg?: number
+          created_at?: string
+          estimated_days?: string | null
+          free_over?: number | null
+          id?: string
+          kind?: string
+          name: string
+          position?: number
+          pricing?: string
+          updated_at?: string
+          zone_id: string
+        }
+        Update: {
+          active?: boolean
+          base_cost?: number
+          cost_per_kg?: number
+          created_at?: string
+          estimated_days?: string | null
+          free_over?: number | null
+          id?: string
+          kind?: string
+          name?: string
+          position?: number
+          pricing?: string
+          updated_at?: string
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipping_methods_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_zones: {
+        Row: {
+          cities: string[]
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          cities?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          cities?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          created_at: string
+          delta: number
+          id: string
+          order_id: string | null
+          product_id: string | null
+          reason: string
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          delta: number
+          id?: string
+          order_id?: string | null
+          product_id?: string | null
+          reason: string
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          delta?: number
+          id?: string
+          order_id?: string | null
+          product_id?: string | null
+          reason?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_settings: {
+        Row: {
+          bank_account_holder: string | null
+          bank_iban: string | null
+          bank_name: string | null
+          created_at: string
+          id: boolean
+          transfer_deadline_hours: number
+          updated_at: string
+        }
+        Insert: {
+          bank_account_holder?: string | null
+          bank_iban?: string | null
+          bank_name?: string | null
+          created_at?: string
+          id?: boolean
+          transfer_deadline_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          bank_account_holder?: string | null
+          bank_iban?: string | null
+          bank_name?: string | null
+          created_at?: string
+          id?: boolean
+          transfer_deadline_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tax_rates: {
+        Row: {
+          active: boolean
+          category_id: string | null
+          created_at: string
+          id: string
+          inclusive: boolean
+          name: string
+          rate: number
+          updated_at: string
+          zone_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          inclusive?: boolean
+          name: string
+          rate: number
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          inclusive?: boolean
+          name?: string
+          rate?: number
+          updated_at?: string
+          zone_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_rates_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -300,6 +1148,128 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_cart_prices: { Args: { _cart_id: string }; Returns: number }
+      add_cart_item: {
+        Args: {
+          _cart_id: string
+          _product_id: string
+          _quantity?: number
+          _variant_id?: string
+        }
+        Returns: {
+          available: number
+          clamped: boolean
+          item_id: string
+          quantity: number
+        }[]
+      }
+      apply_payment_event: { Args: { _event: Json; _provider: string }; Returns: string }
+      build_product_search_vector: {
+        Args: { _category_id: string; _description: string; _name: string }
+        Returns: unknown
+      }
+      can_access_cart: { Args: { _cart_id: string }; Returns: boolean }
+      cancel_abandoned_card_orders: { Args: never; Returns: number }
+      cancel_expired_transfer_orders: { Args: never; Returns: number }
+      cancel_order: {
+        Args: { _order_id: string; _reason?: string }
+        Returns: undefined
+      }
+      cart_tax_lines: {
+        Args: { _cart_id: string; _city: string; _discount: number }
+        Returns: {
+          cart_item_id: string
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_rate: number
+        }[]
+      }
+      commit_order_stock: { Args: { _order_id: string }; Returns: undefined }
+      complete_refund: { Args: { _refund_id: string }; Returns: undefined }
+      confirm_order_payment: { Args: { _order_id: string }; Returns: undefined }
+      create_payment: {
+        Args: {
+          _card_brand?: string
+          _card_last4?: string
+          _order_id: string
+          _provider: string
+        }
+        Returns: {
+          amount: number
+          id: string
+        }[]
+      }
+      create_refund: {
+        Args: {
+          _items?: Json
+          _order_id: string
+          _reason?: string
+          _restock?: boolean
+        }
+        Returns: {
+          amount: number
+          id: string
+          provider: string
+          provider_reference: string
+          status: string
+        }[]
+      }
+      evaluate_coupon: {
+        Args: { _cart_id: string; _code: string; _user_id: string }
+        Returns: {
+          code: string
+          coupon_id: string
+          discount: number
+          discount_type: string
+        }[]
+      }
+      get_cart_coupon: {
+        Args: { _cart_id: string }
+        Returns: {
+          code: string
+          discount: number
+          discount_type: string
+          error: string
+        }[]
+      }
+      get_cart_taxes: {
+        Args: { _cart_id: string; _city?: string }
+        Returns: {
+          tax_included: number
+          tax_total: number
+        }[]
+      }
+      get_category_counts: {
+        Args: {
+          _featured?: boolean
+          _in_stock?: boolean
+          _max_price?: number
+          _min_price?: number
+          _search?: string
+        }
+        Returns: {
+          category_id: string
+          product_count: number
+        }[]
+      }
+      get_current_price: {
+        Args: { _product_id: string; _variant_id: string }
+        Returns: number
+      }
+      get_purchasable_stock: {
+        Args: { _product_id: string; _variant_id: string }
+        Returns: number
+      }
+      get_shipping_options: {
+        Args: { _cart_id: string; _city: string }
+        Returns: {
+          cost: number
+          estimated_days: string
+          kind: string
+          method_id: string
+          name: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -308,6 +1278,132 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: never; Returns: boolean }
+      is_anonymous_user: { Args: never; Returns: boolean }
+      is_valid_order_transition: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      merge_guest_cart: {
+        Args: { _guest_cart_id: string }
+        Returns: {
+          capped: boolean
+          product_id: string
+          product_name: string
+          quantity: number
+          requested: number
+          variant_id: string
+        }[]
+      }
+      normalize_city: { Args: { _city: string }; Returns: string }
+      order_has_open_reservation: {
+        Args: { _order_id: string }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          _cart_id: string
+          _notes?: string
+          _payment_method?: string
+          _shipping_address: string
+          _shipping_city: string
+          _shipping_method_id: string
+        }
+        Returns: string
+      }
+      record_payment_capture: {
+        Args: { _failure_code?: string; _payment_id: string; _status: string }
+        Returns: undefined
+      }
+      record_payment_result: {
+        Args: {
+          _failure_code?: string
+          _payment_id: string
+          _provider_reference: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      record_refund_result: {
+        Args: {
+          _provider_reference?: string
+          _refund_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      refund_line_amount: {
+        Args: { _order_item_id: string; _quantity: number }
+        Returns: number
+      }
+      release_order_stock: { Args: { _order_id: string }; Returns: undefined }
+      request_return: {
+        Args: {
+          _order_item_id: string
+          _photo_url?: string
+          _quantity: number
+          _reason: string
+        }
+        Returns: string
+      }
+      resolve_return_request: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _request_id: string
+          _restock?: boolean
+        }
+        Returns: undefined
+      }
+      save_product_images: {
+        Args: { _images: Json; _product_id: string }
+        Returns: undefined
+      }
+      save_product_variants: {
+        Args: { _options: Json; _product_id: string; _variants: Json }
+        Returns: undefined
+      }
+      search_products: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          id: string
+          name_highlight: string
+          rank: number
+          snippet: string
+        }[]
+      }
+      set_cart_coupon: {
+        Args: { _cart_id: string; _code: string }
+        Returns: undefined
+      }
+      set_cart_item_quantity: {
+        Args: { _item_id: string; _quantity: number }
+        Returns: {
+          available: number
+          clamped: boolean
+          item_id: string
+          quantity: number
+        }[]
+      }
+      shipping_quotes: {
+        Args: {
+          _cart_id: string
+          _city: string
+          _free_shipping: boolean
+          _merchandise: number
+        }
+        Returns: {
+          cost: number
+          estimated_days: string
+          kind: string
+          method_id: string
+          name: string
+        }[]
+      }
+      shipping_zone_for_city: { Args: { _city: string }; Returns: string }
+      update_order_status: {
+        Args: { _note?: string; _order_id: string; _status: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "user" | "admin"
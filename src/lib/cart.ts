@@ -0,0 +1,25 @@
+import { CartItem } from '@/types';
+
+// A variant's own price, stock and image take precedence over the product's
+
+export function getCartItemPrice(item: CartItem): number {
+  return item.product_variants?.price ?? item.products?.price ?? 0;
+}
+
+export function getCartItemStock(item: CartItem): number {
+  return item.product_variants?.stock ?? item.products?.stock ?? 0;
+}
+
+export function getCartItemImage(item: CartItem): string {
+  return item.product_variants?.image_url || item.products?.image_url || '/placeholder.svg';
+}
+
+// Price the line was added at differs from the current one (compared in cents)
+export function hasPriceChanged(item: CartItem): boolean {
+  return Math.round(item.unit_price * 100) !== Math.round(getCartItemPrice(item) * 100);
+}
+
+// More units in the cart than are left in stock
+export function hasStockShortage(item: CartItem): boolean {
+  return item.quantity > getCartItemStock(item);
+}
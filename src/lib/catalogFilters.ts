@@ -0,0 +1,86 @@
+export type CatalogSort = 'relevance' | 'featured' | 'price-asc' | 'price-desc' | 'name';
+
+export interface CatalogFilters {
+  search: string;
+  categories: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  featured: boolean;
+  sort: CatalogSort;
+}
+
+export const CATALOG_SORT_LABELS: Record<CatalogSort, string> = {
+  relevance: 'Relevancia',
+  featured: 'Destacados',
+  'price-asc': 'Precio: menor a mayor',
+  'price-desc': 'Precio: mayor a menor',
+  name: 'Nombre A-Z'
+};
+
+// Relevance only makes sense for a search; otherwise featured products come first
+export function getDefaultSort(search: string): CatalogSort {
+  return search ? 'relevance' : 'featured';
+}
+
+const parsePrice = (value: string | null) => {
+  if (value === null || value === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+// Reads the catalog state from the URL, e.g. ?search=silla&category=a,b&min_price=10&in_stock=1&sort=name
+export function parseCatalogFilters(params: URLSearchParams): CatalogFilters {
+  const search = params.get('search')?.trim() || '';
+  const sort = params.get('sort') as CatalogSort | null;
+  const validSort = sort && sort in CATALOG_SORT_LABELS && (sort !== 'relevance' || search);
+
+  return {
+    search,
+    categories: (params.get('category') || '')
+      .split(',')
+      .filter(id => id && id !== 'all'),
+    minPrice: parsePrice(params.get('min_price')),
+    maxPrice: parsePrice(params.get('max_price')),
+    inStock: params.get('in_stock') === '1',
+    featured: params.get('featured') === '1',
+    sort: validSort ? sort : getDefaultSort(search)
+  };
+}
+
+// Inverse of parseCatalogFilters; default values are left out to keep shared URLs short
+export function serializeCatalogFilters(filters: CatalogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('search', filters.search);
+  if (filters.categories.length > 0) params.set('category', filters.categories.join(','));
+  if (filters.minPrice !== null) params.set('min_price', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('max_price', String(filters.maxPrice));
+  if (filters.inStock) params.set('in_stock', '1');
+  if (filters.featured) params.set('featured', '1');
+  if (filters.sort !== getDefaultSort(filters.search)) params.set('sort', filters.sort);
+  return params;
+}
+
+export function hasActiveFilters(filters: CatalogFilters): boolean {
+  return (
+    filters.categories.length > 0 ||
+    filters.minPrice !== null ||
+    filters.maxPrice !== null ||
+    filters.inStock ||
+    filters.featured
+  );
+}
+
+export type FilterClause = [column: string, operator: string, value: string];
+
+// PostgREST filters for the products query; searchIds limits it to full-text search results
+export function getCatalogFilterClauses(filters: CatalogFilters, searchIds: string[] | null): FilterClause[] {
+  const clauses: FilterClause[] = [];
+  if (searchIds) clauses.push(['id', 'in', `(${searchIds.join(',')})`]);
+  if (filters.categories.length > 0) clauses.push(['category_id', 'in', `(${filters.categories.join(',')})`]);
+  if (filters.minPrice !== null) clauses.push(['price', 'gte', String(filters.minPrice)]);
+  if (filters.maxPrice !== null) clauses.push(['price', 'lte', String(filters.maxPrice)]);
+  if (filters.inStock) clauses.push(['stock', 'gt', '0']);
+  if (filters.featured) clauses.push(['featured', 'eq', 'true']);
+  return clauses;
+}
@@ -0,0 +1,23 @@
+const STORAGE_KEY = 'nexoshop:catalog-position';
+
+export interface CatalogPosition {
+  // Catalog view the position belongs to (filters, mode and page)
+  key: string;
+  scrollY: number;
+}
+
+export function saveCatalogPosition(position: CatalogPosition) {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(position));
+}
+
+// Returns the saved position for this view once, then forgets it
+export function takeCatalogPosition(key: string): CatalogPosition | null {
+  const stored = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+  try {
+    const position = stored ? (JSON.parse(stored) as CatalogPosition) : null;
+    return position?.key === key ? position : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,56 @@
+import { Coupon, CouponType } from '@/types';
+
+export const COUPON_TYPE_LABELS: Record<CouponType, string> = {
+  percentage: 'Porcentaje',
+  fixed: 'Importe fijo',
+  free_shipping: 'Envío gratis'
+};
+
+export type CouponStatus = 'active' | 'scheduled' | 'expired' | 'inactive';
+
+export const COUPON_STATUS_LABELS: Record<CouponStatus, string> = {
+  active: 'Activo',
+  scheduled: 'Programado',
+  expired: 'Caducado',
+  inactive: 'Desactivado'
+};
+
+// Codes are stored uppercase; mirrors the coupons.code check in the database
+export const COUPON_CODE_PATTERN = /^[A-Z0-9_-]+$/;
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function formatCouponValue(coupon: Pick<Coupon, 'discount_type' | 'discount_value'>): string {
+  switch (coupon.discount_type) {
+    case 'percentage':
+      return `${coupon.discount_value}%`;
+    case 'fixed':
+      return `$${coupon.discount_value.toFixed(2)}`;
+    default:
+      return COUPON_TYPE_LABELS.free_shipping;
+  }
+}
+
+// Whether the coupon can be redeemed at the given time, ignoring usage limits
+export function getCouponStatus(
+  coupon: Pick<Coupon, 'active' | 'starts_at' | 'ends_at'>,
+  now = new Date()
+): CouponStatus {
+  if (!coupon.active) return 'inactive';
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) return 'scheduled';
+  if (coupon.ends_at && new Date(coupon.ends_at) <= now) return 'expired';
+  return 'active';
+}
+
+// Converts between stored timestamps and the local time a datetime-local input shows
+export function toDateTimeInput(timestamp: string | null): string {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function fromDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
@@ -0,0 +1,206 @@
+import {
+  CardToken,
+  detectCardBrand,
+  isValidCardNumber,
+  isValidExpiry,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentResult
+} from '@/lib/payments';
+
+// Local stand-in for a card gateway. It is stateless and deterministic: the
+// outcome depends only on the test card used, which is carried in the token
+// and the payment reference, so the same input always gives the same result.
+
+type MockScenario = 'success' | 'declined' | 'insufficient_funds' | 'three_d_secure' | 'timeout';
+
+export const MOCK_TEST_CARDS: Record<MockScenario, string> = {
+  success: '4242 4242 4242 4242',
+  declined: '4000 0000 0000 0002',
+  insufficient_funds: '4000 0000 0000 9995',
+  three_d_secure: '4000 0000 0000 3220',
+  timeout: '4000 0000 0000 0119'
+};
+
+export interface MockCardDetails {
+  number: string;
+  expiry: string;
+  cvc: string;
+  name: string;
+}
+
+export type CardTokenResult = CardToken | { error: string };
+
+interface MockPaymentOptions {
+  // Simulated network delay of every call
+  latencyMs?: number;
+  // How long authorize waits before giving up on the timeout card
+  timeoutMs?: number;
+  webhookSecret?: string;
+  // Shows the 3-D Secure challenge and resolves with the customer's answer
+  challenge?: (reference: string) => Promise<boolean>;
+}
+
+export interface MockPaymentProvider extends PaymentProvider {
+  // Stands in for the gateway's hosted fields: card details go in, a token comes out
+  tokenizeCard(card: MockCardDetails): Promise<CardTokenResult>;
+  // What the gateway would put in the signature header of a webhook
+  signWebhook(payload: string): Promise<string>;
+}
+
+const TOKEN_PREFIX = 'tok_mock_';
+const REFERENCE_PREFIX = 'pay_mock_';
+
+const scenarioForCard = (number: string): MockScenario => {
+  const digits = number.replace(/\s/g, '');
+  const match = (Object.keys(MOCK_TEST_CARDS) as MockScenario[]).find(
+    scenario => MOCK_TEST_CARDS[scenario].replace(/\s/g, '') === digits
+  );
+  return match ?? 'success';
+};
+
+// "pay_mock_three_d_secure_<payment id>" -> "three_d_secure"
+const scenarioFromReference = (reference: string): MockScenario | null => {
+  if (!reference.startsWith(REFERENCE_PREFIX)) return null;
+  const rest = reference.slice(REFERENCE_PREFIX.length);
+  return (Object.keys(MOCK_TEST_CARDS) as MockScenario[]).find(scenario => rest.startsWith(`${scenario}_`)) ?? null;
+};
+
+const scenarioFromToken = (token: string): MockScenario | null => {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+  const rest = token.slice(TOKEN_PREFIX.length);
+  return (Object.keys(MOCK_TEST_CARDS) as MockScenario[]).find(scenario => rest.startsWith(`${scenario}_`)) ?? null;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export function createMockPaymentProvider({
+  latencyMs = 800,
+  timeoutMs = 10000,
+  webhookSecret = 'whsec_mock',
+  challenge = async () => true
+}: MockPaymentOptions = {}): MockPaymentProvider {
+  const sign = async (payload: string) => {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(webhookSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)));
+  };
+
+  // Follow-up calls only make sense for references this gateway issued
+  const withReference = async (
+    reference: string,
+    outcome: (scenario: MockScenario) => PaymentResult
+  ): Promise<PaymentResult> => {
+    await delay(latencyMs);
+    const scenario = scenarioFromReference(reference);
+    return scenario ? outcome(scenario) : { status: 'failed', reference, failureCode: 'invalid_request' };
+  };
+
+  return {
+    id: 'mock',
+
+    async tokenizeCard(card) {
+      await delay(latencyMs);
+      if (!isValidCardNumber(card.number)) return { error: 'El número de tarjeta no es válido' };
+      if (!isValidExpiry(card.expiry)) return { error: 'La fecha de caducidad no es válida' };
+      if (!/^\d{3,4}$/.test(card.cvc)) return { error: 'El código de seguridad no es válido' };
+      if (!card.name.trim()) return { error: 'Indica el nombre que figura en la tarjeta' };
+
+      const digits = card.number.replace(/\s/g, '');
+      return {
+        token: `${TOKEN_PREFIX}${scenarioForCard(digits)}_${crypto.randomUUID()}`,
+        brand: detectCardBrand(digits),
+        last4: digits.slice(-4)
+      };
+    },
+
+    async authorize({ paymentId, amount, token }) {
+      const scenario = scenarioFromToken(token);
+      if (!scenario || amount <= 0) {
+        await delay(latencyMs);
+        return { status: 'failed', reference: `${REFERENCE_PREFIX}invalid_${paymentId}`, failureCode: 'invalid_request' };
+      }
+
+      const reference = `${REFERENCE_PREFIX}${scenario}_${paymentId}`;
+      switch (scenario) {
+        case 'timeout':
+          // The gateway never answers; the caller gives up after timeoutMs
+          await delay(timeoutMs);
+          return { status: 'failed', reference, failureCode: 'timeout' };
+        case 'declined':
+          await delay(latencyMs);
+          return { status: 'failed', reference, failureCode: 'card_declined' };
+        case 'insufficient_funds':
+          await delay(latencyMs);
+          return { status: 'failed', reference, failureCode: 'insufficient_funds' };
+        case 'three_d_secure':
+          await delay(latencyMs);
+          return { status: 'requires_action', reference };
+        default:
+          await delay(latencyMs);
+          return { status: 'authorized', reference };
+      }
+    },
+
+    async authenticate(reference) {
+      if (scenarioFromReference(reference) !== 'three_d_secure') {
+        return withReference(reference, () => ({ status: 'failed', reference, failureCode: 'invalid_request' }));
+      }
+      const approved = await challenge(reference);
+      return withReference(reference, () =>
+        approved ? { status: 'authorized', reference } : { status: 'failed', reference, failureCode: 'authentication_failed' }
+      );
+    },
+
+    capture(reference) {
+      return withReference(reference, () => ({ status: 'captured', reference }));
+    },
+
+    refund(reference, _amount, refundId) {
+      return withReference(reference, () => ({ status: 'refunded', reference: `re_mock_${refundId}` }));
+    },
+
+    void(reference) {
+      return withReference(reference, () => ({ status: 'voided', reference }));
+    },
+
+    signWebhook: sign,
+
+    async verifyWebhook(payload, signature) {
+      // Compares every character, like the payment-webhook function
+      const expected = await sign(payload);
+      if (signature.length !== expected.length) return null;
+      let diff = 0;
+      for (let i = 0; i < expected.length; i++) {
+        diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+      }
+      if (diff !== 0) return null;
+      try {
+        return JSON.parse(payload) as PaymentEvent;
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+// The checkout's challenge dialog registers itself here while it is mounted
+let challengeHandler: ((reference: string) => Promise<boolean>) | null = null;
+
+export function setMockChallengeHandler(handler: ((reference: string) => Promise<boolean>) | null) {
+  challengeHandler = handler;
+}
+
+export const mockPaymentProvider = createMockPaymentProvider({
+  challenge: reference => (challengeHandler ? challengeHandler(reference) : Promise.resolve(false))
+});
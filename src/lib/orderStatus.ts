@@ -0,0 +1,48 @@
+import { Order, OrderStatus, ReturnRequestStatus } from '@/types';
+
+// Mirrors public.is_valid_order_transition in the database
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pendiente',
+  processing: 'En proceso',
+  shipped: 'Enviado',
+  delivered: 'Completado',
+  cancelled: 'Cancelado'
+};
+
+// Label for the admin button that moves an order into each status
+export const ORDER_STATUS_ACTIONS: Record<OrderStatus, string> = {
+  pending: 'Marcar pendiente',
+  processing: 'Procesar',
+  shipped: 'Marcar enviado',
+  delivered: 'Marcar entregado',
+  cancelled: 'Cancelar'
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, string> = {
+  pending: 'En revisión',
+  approved: 'Aprobada',
+  rejected: 'Rechazada'
+};
+
+// Mirrors cancel_order: customers may cancel on their own until the order ships,
+// unless it is already paid; a paid order is cancelled and refunded by the shop
+export function isCancellableByCustomer(order: Pick<Order, 'status' | 'payment_status'>): boolean {
+  if (order.payment_status === 'paid' || order.payment_status === 'partially_refunded') return false;
+  return order.status === 'pending' || order.status === 'processing';
+}
+
+export function getNextStatuses(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] ?? [];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return getNextStatuses(from).includes(to);
+}
@@ -0,0 +1,23 @@
+export type PageItem = number | 'ellipsis';
+
+// Page numbers to show around the current page, e.g. 1 … 4 5 6 … 20
+export function getPageItems(current: number, total: number, siblings = 1): PageItem[] {
+  if (total <= 0) return [];
+
+  const pages = new Set([1, total]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= total) pages.add(page);
+  }
+
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  return sorted.flatMap<PageItem>((page, index) => {
+    const previous = sorted[index - 1];
+    if (previous === undefined || page - previous === 1) return [page];
+    // A single missing page is shown instead of an ellipsis
+    return page - previous === 2 ? [previous + 1, page] : ['ellipsis', page];
+  });
+}
+
+export function getPageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
@@ -0,0 +1,184 @@
+import { Order, OrderPaymentStatus, PaymentMethod } from '@/types';
+
+// Gateway-agnostic payment types. Card details stay inside the provider's own
+// fields; the app only ever handles the single-use token they produce.
+
+export type PaymentStatus =
+  | 'pending'
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'failed'
+  | 'voided'
+  | 'refunded'
+  | 'chargeback';
+
+export type PaymentFailureCode =
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'authentication_failed'
+  | 'timeout'
+  | 'invalid_request';
+
+export interface PaymentResult {
+  status: PaymentStatus;
+  // The gateway's id for the payment, or for the refund when refunding
+  reference: string;
+  failureCode?: PaymentFailureCode;
+}
+
+// A row of the payments table: a charge attempt with the gateway, or a cash or
+// transfer payment confirmed by an admin (provider 'cash' or 'transfer')
+export interface Payment {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_reference: string | null;
+  status: PaymentStatus;
+  amount: number;
+  refunded_amount: number;
+  card_brand: string | null;
+  card_last4: string | null;
+  failure_code: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CardToken {
+  token: string;
+  brand: string;
+  last4: string;
+}
+
+export interface AuthorizeRequest {
+  // Our payments row, sent as the idempotency key so retries never charge twice
+  paymentId: string;
+  amount: number;
+  currency: string;
+  token: string;
+}
+
+export type PaymentEventType = 'payment.captured' | 'payment.failed' | 'payment.refunded' | 'payment.chargeback';
+
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  reference: string;
+  // The gateway's id for the refund, on payment.refunded
+  refund_reference?: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  // Runs the challenge (3-D Secure) of a payment left in requires_action
+  authenticate(reference: string): Promise<PaymentResult>;
+  capture(reference: string, amount: number): Promise<PaymentResult>;
+  // refundId is our refunds row, the idempotency key so a retry never refunds twice
+  refund(reference: string, amount: number, refundId: string): Promise<PaymentResult>;
+  void(reference: string): Promise<PaymentResult>;
+  // Null when the signature does not match the payload
+  verifyWebhook(payload: string, signature: string): Promise<PaymentEvent | null>;
+}
+
+export const PAYMENT_CURRENCY = 'usd';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Pendiente',
+  requires_action: 'Pendiente de verificación',
+  authorized: 'Autorizado',
+  captured: 'Pagado',
+  failed: 'Fallido',
+  voided: 'Anulado',
+  refunded: 'Reembolsado',
+  chargeback: 'Disputado'
+};
+
+export const ORDER_PAYMENT_STATUS_LABELS: Record<OrderPaymentStatus, string> = {
+  unpaid: 'Pendiente de pago',
+  paid: 'Pagado',
+  failed: 'Pago fallido',
+  partially_refunded: 'Reembolsado en parte',
+  refunded: 'Reembolsado',
+  chargeback: 'Pago disputado'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: 'Tarjeta',
+  cash: 'Contra entrega',
+  transfer: 'Transferencia bancaria'
+};
+
+// Admin action that records a cash or transfer payment
+export const CONFIRM_PAYMENT_ACTIONS: Partial<Record<PaymentMethod, string>> = {
+  cash: 'Marcar cobrado',
+  transfer: 'Transferencia recibida'
+};
+
+export const PAYMENT_FAILURE_MESSAGES: Record<PaymentFailureCode, string> = {
+  card_declined: 'El banco ha rechazado la tarjeta.',
+  insufficient_funds: 'La tarjeta no tiene fondos suficientes.',
+  authentication_failed: 'No se pudo verificar la tarjeta con tu banco.',
+  timeout: 'La pasarela de pago no respondió a tiempo. Comprueba tus pedidos antes de reintentar.',
+  invalid_request: 'No se pudo procesar el pago.'
+};
+
+// Luhn checksum, rejecting anything that is not 12-19 digits
+export function isValidCardNumber(number: string): boolean {
+  const digits = number.replace(/\s/g, '');
+  if (!/^\d{12,19}$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function detectCardBrand(number: string): string {
+  const digits = number.replace(/\s/g, '');
+  if (/^4/.test(digits)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  return 'card';
+}
+
+// Mirrors validate_order_status: an order is not prepared until it is paid,
+// except cash on delivery, which is collected once it ships
+export function isAwaitingPayment(order: Pick<Order, 'payment_method' | 'payment_status'>): boolean {
+  if (order.payment_method === 'cash') return false;
+  return order.payment_status !== 'paid' && order.payment_status !== 'partially_refunded';
+}
+
+// "MM/YY" that has not ended yet
+export function isValidExpiry(expiry: string, now = new Date()): boolean {
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry);
+  if (!match) return false;
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) return false;
+  // Day 0 of the next month is the last day of the expiry month
+  const end = new Date(2000 + Number(match[2]), month, 0, 23, 59, 59);
+  return end >= now;
+}
+
+// Mirrors confirm_order_payment: cash is collected once the order is on its way,
+// a transfer can be confirmed while the order is still open
+export function canConfirmPayment(order: Pick<Order, 'payment_method' | 'payment_status' | 'status'>): boolean {
+  if (order.payment_status !== 'unpaid' || order.status === 'cancelled') return false;
+  if (order.payment_method === 'transfer') return true;
+  return order.payment_method === 'cash' && (order.status === 'shipped' || order.status === 'delivered');
+}
+
+// "ES91 2100 0418 4502 0005 1332"
+export function formatIban(iban: string): string {
+  return iban
+    .replace(/\s/g, '')
+    .toUpperCase()
+    .replace(/(.{4})(?=.)/g, '$1 ');
+}
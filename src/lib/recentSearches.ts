@@ -0,0 +1,28 @@
+const STORAGE_KEY = 'nexoshop:recent-searches';
+const MAX_RECENT_SEARCHES = 5;
+
+export function getRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Most recent first, without duplicates (case-insensitive)
+export function addRecentSearch(query: string): string[] {
+  const term = query.trim();
+  if (!term) return getRecentSearches();
+
+  const searches = [
+    term,
+    ...getRecentSearches().filter(item => item.toLowerCase() !== term.toLowerCase())
+  ].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+  return searches;
+}
+
+export function clearRecentSearches() {
+  localStorage.removeItem(STORAGE_KEY);
+}
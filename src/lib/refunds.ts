@@ -0,0 +1,58 @@
+import { Order, OrderItem } from '@/types';
+
+type RefundOrder = Pick<Order, 'subtotal' | 'discount_total' | 'total' | 'refunded_total'>;
+type RefundOrderItem = Pick<OrderItem, 'id' | 'quantity' | 'refunded_quantity' | 'subtotal' | 'tax_amount' | 'tax_inclusive'>;
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  payment_id: string | null;
+  amount: number;
+  status: RefundStatus;
+  provider_reference: string | null;
+  restock: boolean;
+  reason: string | null;
+  created_at: string;
+}
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'En curso',
+  succeeded: 'Completado',
+  failed: 'Rechazado'
+};
+
+// Quantities to refund by order item id
+export type RefundQuantities = Record<string, number>;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function isRefundable(order: Pick<Order, 'payment_status'>): boolean {
+  return order.payment_status === 'paid' || order.payment_status === 'partially_refunded';
+}
+
+export function getRefundableQuantity(item: Pick<OrderItem, 'quantity' | 'refunded_quantity'>): number {
+  return item.quantity - item.refunded_quantity;
+}
+
+// Mirrors refund_line_amount: the line's share of the order discount comes
+// off and taxes not included in the price are given back
+export function getRefundLineAmount(order: RefundOrder, item: RefundOrderItem, quantity: number): number {
+  const discount = order.subtotal > 0 ? (order.discount_total * item.subtotal) / order.subtotal : 0;
+  const tax = item.tax_inclusive ? 0 : item.tax_amount;
+  return round(((item.subtotal - discount + tax) * quantity) / item.quantity);
+}
+
+// What is left to refund, shipping included
+export function getRemainingRefund(order: RefundOrder): number {
+  return round(order.total - order.refunded_total);
+}
+
+export function getRefundAmount(order: RefundOrder, items: RefundOrderItem[], quantities: RefundQuantities): number {
+  const amount = items.reduce(
+    (sum, item) => sum + (quantities[item.id] ? getRefundLineAmount(order, item, quantities[item.id]) : 0),
+    0
+  );
+  return Math.min(round(amount), getRemainingRefund(order));
+}
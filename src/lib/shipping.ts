@@ -0,0 +1,37 @@
+import { ShippingKind, ShippingMethod, ShippingPricing } from '@/types';
+
+export const SHIPPING_KIND_LABELS: Record<ShippingKind, string> = {
+  standard: 'Estándar',
+  express: 'Exprés',
+  pickup: 'Recogida en tienda'
+};
+
+export const SHIPPING_PRICING_LABELS: Record<ShippingPricing, string> = {
+  flat: 'Tarifa plana',
+  weight: 'Según peso',
+  free_over: 'Gratis desde un importe'
+};
+
+// Splits the comma or newline separated list typed in the admin into city names
+export function parseCities(text: string): string[] {
+  const cities = text.split(/[,\n]/).map(city => city.trim().replace(/\s+/g, ' ')).filter(Boolean);
+  return Array.from(new Set(cities));
+}
+
+// Short description of how the method is priced, for the admin tables
+export function describeShippingPricing(
+  method: Pick<ShippingMethod, 'pricing' | 'base_cost' | 'cost_per_kg' | 'free_over'>
+): string {
+  switch (method.pricing) {
+    case 'weight':
+      return `$${method.base_cost.toFixed(2)} + $${method.cost_per_kg.toFixed(2)}/kg`;
+    case 'free_over':
+      return `$${method.base_cost.toFixed(2)}, gratis desde $${(method.free_over ?? 0).toFixed(2)}`;
+    default:
+      return method.base_cost > 0 ? `$${method.base_cost.toFixed(2)}` : 'Gratis';
+  }
+}
+
+export function formatShippingCost(cost: number): string {
+  return cost > 0 ? `$${cost.toFixed(2)}` : 'Gratis';
+}
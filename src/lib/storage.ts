@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const IMAGES_BUCKET = 'product-images';
+
+export type ImageFolder = 'products' | 'categories';
+
+const MAX_IMAGE_SIZE = 1600;
+const IMAGE_QUALITY = 0.85;
+
+// Scales the image down so its longest side is at most MAX_IMAGE_SIZE and re-encodes it as WebP
+export async function resizeImage(file: File, maxSize = MAX_IMAGE_SIZE): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * ratio);
+  canvas.height = Math.round(bitmap.height * ratio);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas not supported');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))),
+      'image/webp',
+      IMAGE_QUALITY
+    );
+  });
+}
+
+// Uploads through the Storage REST endpoint with XHR, since supabase-js does not report upload progress
+export async function uploadImage(
+  blob: Blob,
+  folder: ImageFolder,
+  onProgress?: (percent: number) => void
+): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  const path = `${folder}/${crypto.randomUUID()}.${extension}`;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${IMAGES_BUCKET}/${path}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('Content-Type', blob.type);
+    xhr.setRequestHeader('cache-control', 'max-age=31536000');
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onProgress?.(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => (xhr.status < 300 ? resolve() : reject(new Error(xhr.responseText || `Upload failed (${xhr.status})`)));
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.send(blob);
+  });
+
+  return supabase.storage.from(IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// Path inside the bucket for URLs we uploaded; null for external URLs
+export function getImagePath(url: string | null | undefined): string | null {
+  if (!url) return null;
+  const prefix = supabase.storage.from(IMAGES_BUCKET).getPublicUrl('').data.publicUrl;
+  return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length)) : null;
+}
+
+// Deletes the uploaded files behind the given URLs, ignoring external ones
+export async function removeImages(urls: (string | null | undefined)[]) {
+  const paths = Array.from(new Set(urls.map(getImagePath).filter((path): path is string => !!path)));
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(IMAGES_BUCKET).remove(paths);
+  if (error) console.error('Error removing images:', error);
+}
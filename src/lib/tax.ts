@@ -0,0 +1,28 @@
+import { OrderItem, TaxRate } from '@/types';
+
+// "21%", "10.5%"
+export function formatTaxRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}%`;
+}
+
+// Short description of a rate for the admin table, e.g. "21% incluido en el precio"
+export function describeTaxRate(rate: Pick<TaxRate, 'rate' | 'inclusive'>): string {
+  return `${formatTaxRate(rate.rate)} ${rate.inclusive ? 'incluido en el precio' : 'sobre el precio'}`;
+}
+
+export interface TaxSplit {
+  // Added on top of the prices
+  added: number;
+  // Already part of the prices
+  included: number;
+}
+
+export function splitOrderTaxes(items: Pick<OrderItem, 'tax_amount' | 'tax_inclusive'>[]): TaxSplit {
+  return items.reduce<TaxSplit>(
+    (split, item) =>
+      item.tax_inclusive
+        ? { ...split, included: split.included + item.tax_amount }
+        : { ...split, added: split.added + item.tax_amount },
+    { added: 0, included: 0 }
+  );
+}
@@ -0,0 +1,92 @@
+import {
+  buildVariantCombinations,
+  findVariant,
+  getVariantTitle,
+  parseOptionValues,
+  VariantOption,
+  VariantSelection
+} from '@/lib/variants';
+import { ProductOptionType, ProductVariant } from '@/types';
+
+// Form state for the admin variant matrix: inputs are kept as strings until saved
+export interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+export interface VariantDraft {
+  id: string | null;
+  title: string;
+  options: VariantSelection;
+  sku: string;
+  price: string;
+  stock: string;
+  image_url: string;
+}
+
+export interface VariantMatrix {
+  options: OptionDraft[];
+  variants: VariantDraft[];
+}
+
+export const emptyVariantMatrix: VariantMatrix = { options: [], variants: [] };
+
+export function toVariantMatrix(optionTypes: ProductOptionType[] = [], variants: ProductVariant[] = []): VariantMatrix {
+  return {
+    options: [...optionTypes]
+      .sort((a, b) => a.position - b.position)
+      .map(option => ({ name: option.name, values: option.values.join(', ') })),
+    variants: [...variants]
+      .sort((a, b) => a.position - b.position)
+      .map(variant => ({
+        id: variant.id,
+        title: variant.title,
+        options: variant.options,
+        sku: variant.sku || '',
+        price: variant.price?.toString() ?? '',
+        stock: variant.stock.toString(),
+        image_url: variant.image_url || ''
+      }))
+  };
+}
+
+export function toVariantOptions(matrix: VariantMatrix): VariantOption[] {
+  return matrix.options
+    .filter(option => option.name.trim())
+    .map(option => ({ name: option.name.trim(), values: parseOptionValues(option.values) }));
+}
+
+// Payload for public.save_product_variants
+export function serializeVariantMatrix(matrix: VariantMatrix) {
+  return {
+    options: toVariantOptions(matrix),
+    variants: matrix.variants.map(variant => ({
+      id: variant.id,
+      sku: variant.sku || null,
+      title: variant.title,
+      options: variant.options,
+      price: variant.price === '' ? null : parseFloat(variant.price),
+      stock: parseInt(variant.stock) || 0,
+      image_url: variant.image_url || null
+    }))
+  };
+}
+
+// Rebuilds the matrix from the options, keeping SKU/price/stock of combinations that already existed
+export function generateVariantDrafts(matrix: VariantMatrix): VariantDraft[] {
+  const options = toVariantOptions(matrix);
+  return buildVariantCombinations(options).map(selection => {
+    const existing = findVariant(matrix.variants, selection);
+    return existing
+      ? { ...existing, title: getVariantTitle(options, selection) }
+      : {
+          id: null,
+          title: getVariantTitle(options, selection),
+          options: selection,
+          sku: '',
+          price: '',
+          stock: '0',
+          image_url: ''
+        };
+  });
+}
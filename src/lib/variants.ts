@@ -0,0 +1,49 @@
+import { ProductVariant } from '@/types';
+
+export type VariantOption = {
+  name: string;
+  values: string[];
+};
+
+export type VariantSelection = Record<string, string>;
+
+// Every combination of option values, in option order:
+// [{ name: 'Talla', values: ['S', 'M'] }] -> [{ Talla: 'S' }, { Talla: 'M' }]
+export function buildVariantCombinations(options: VariantOption[]): VariantSelection[] {
+  const usable = options.filter(option => option.name.trim() && option.values.length > 0);
+  if (usable.length === 0) return [];
+
+  return usable.reduce<VariantSelection[]>(
+    (combinations, option) =>
+      combinations.flatMap(combination =>
+        option.values.map(value => ({ ...combination, [option.name.trim()]: value }))
+      ),
+    [{}]
+  );
+}
+
+export function getVariantTitle(options: VariantOption[], selection: VariantSelection): string {
+  return options
+    .map(option => selection[option.name.trim()])
+    .filter(Boolean)
+    .join(' / ');
+}
+
+export function findVariant<T extends Pick<ProductVariant, 'options'>>(
+  variants: T[],
+  selection: VariantSelection
+): T | undefined {
+  const keys = Object.keys(selection);
+  return variants.find(variant => {
+    const variantKeys = Object.keys(variant.options);
+    return (
+      variantKeys.length === keys.length &&
+      keys.every(key => variant.options[key] === selection[key])
+    );
+  });
+}
+
+// Splits "S, M, L" into ['S', 'M', 'L'], dropping blanks and duplicates
+export function parseOptionValues(input: string): string[] {
+  return Array.from(new Set(input.split(',').map(value => value.trim()).filter(Boolean)));
+}
@@ -1,23 +1,60 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { Header } from '@/components/layout/Header';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { Category } from '@/types';
-
-interface AdminProduct {
-  id: string;
-  name: string;
-  description: string | null;
-  price: number;
-  stock: number;
-  image_url: string | null;
-  category_id: string | null;
-  featured: boolean | null;
-  created_at: string;
-  updated_at: string;
-  categories?: { name: string } | null;
-}
+import { Category, CouponType, OrderStatus, ReturnRequest, ReturnRequestStatus } from '@/types';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusBadge';
+import { getNextStatuses, ORDER_STATUS_ACTIONS, ORDER_STATUS_LABELS, RETURN_STATUS_LABELS } from '@/lib/orderStatus';
+import { VariantMatrixEditor } from '@/components/admin/VariantMatrixEditor';
+import { ImageDraft, ProductImagesEditor } from '@/components/admin/ProductImagesEditor';
+import { ImageDropzone } from '@/components/admin/ImageDropzone';
+import { CouponScopePicker } from '@/components/admin/CouponScopePicker';
+import { ShippingZonesManager } from '@/components/admin/ShippingZonesManager';
+import { TaxRatesManager } from '@/components/admin/TaxRatesManager';
+import { PaymentSettingsForm } from '@/components/admin/PaymentSettingsForm';
+import { RefundOrderDialog } from '@/components/admin/RefundOrderDialog';
+import { removeImages } from '@/lib/storage';
+import { isRefundable } from '@/lib/refunds';
+import {
+  canConfirmPayment,
+  CONFIRM_PAYMENT_ACTIONS,
+  isAwaitingPayment,
+  ORDER_PAYMENT_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS
+} from '@/lib/payments';
+import { emptyVariantMatrix, toVariantMatrix, VariantMatrix } from '@/lib/variantMatrix';
+import {
+  COUPON_CODE_PATTERN,
+  COUPON_STATUS_LABELS,
+  COUPON_TYPE_LABELS,
+  formatCouponValue,
+  fromDateTimeInput,
+  getCouponStatus,
+  normalizeCouponCode,
+  toDateTimeInput
+} from '@/lib/coupons';
+import { useCategories } from '@/api/catalog';
+import { useStoreSettings } from '@/api/settings';
+import {
+  AdminCoupon,
+  AdminOrder,
+  AdminProduct,
+  useAdminCoupons,
+  useAdminOrders,
+  useAdminProducts,
+  useAdminReturnRequests,
+  useAdminShippingZones,
+  useAdminTaxRates,
+  useConfirmOrderPayment,
+  useDeleteCategory,
+  useDeleteCoupon,
+  useDeleteProduct,
+  useResolveReturnRequest,
+  useSaveCategory,
+  useSaveCoupon,
+  useSaveProduct,
+  useUpdateOrderStatus
+} from '@/api/admin';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -30,7 +67,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Pencil, Trash2, Package, Tags, ShoppingCart, Loader2, Search, AlertTriangle } from 'lucide-react';
+import { Plus, Pencil, Trash2, Package, Tags, ShoppingCart, Loader2, Search, AlertTriangle, RotateCcw, TicketPercent, Truck, Percent, Landmark } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 
@@ -39,7 +76,7 @@ interface ProductFormData {
   description: string;
   price: string;
   stock: string;
-  image_url: string;
+  weight: string;
   category_id: string;
   featured: boolean;
 }
@@ -55,7 +92,7 @@ const emptyProduct: ProductFormData = {
   description: '',
   price: '',
   stock: '',
-  image_url: '',
+  weight: '',
   category_id: '',
   featured: false
 };
@@ -66,17 +103,80 @@ const emptyCategory: CategoryFormData = {
   image_url: ''
 };
 
-type ActiveSection = 'products' | 'categories' | 'orders';
+interface CouponFormData {
+  code: string;
+  description: string;
+  discount_type: CouponType;
+  discount_value: string;
+  min_subtotal: string;
+  category_ids: string[];
+  product_ids: string[];
+  usage_limit: string;
+  usage_limit_per_user: string;
+  starts_at: string;
+  ends_at: string;
+  active: boolean;
+}
+
+const emptyCoupon: CouponFormData = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  min_subtotal: '',
+  category_ids: [],
+  product_ids: [],
+  usage_limit: '',
+  usage_limit_per_user: '',
+  starts_at: '',
+  ends_at: '',
+  active: true
+};
+
+type ActiveSection = 'products' | 'categories' | 'coupons' | 'shipping' | 'taxes' | 'payments' | 'orders' | 'returns';
 
 export default function Admin() {
   const navigate = useNavigate();
   const { user, isAdmin, loading: authLoading } = useAuth();
   
   const [activeSection, setActiveSection] = useState<ActiveSection>('products');
-  const [products, setProducts] = useState<AdminProduct[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [orders, setOrders] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const canManage = !!user && isAdmin;
+  const productsQuery = useAdminProducts(canManage);
+  const categoriesQuery = useCategories();
+  const ordersQuery = useAdminOrders(canManage);
+  const returnsQuery = useAdminReturnRequests(canManage);
+  const couponsQuery = useAdminCoupons(canManage);
+  const shippingZonesQuery = useAdminShippingZones(canManage);
+  const taxRatesQuery = useAdminTaxRates(canManage);
+  const storeSettingsQuery = useStoreSettings();
+  const products = productsQuery.data ?? [];
+  const categories = categoriesQuery.data ?? [];
+  const orders = ordersQuery.data ?? [];
+  const returnRequests = returnsQuery.data ?? [];
+  const coupons = couponsQuery.data ?? [];
+  const shippingZones = shippingZonesQuery.data ?? [];
+  const taxRates = taxRatesQuery.data ?? [];
+  const storeSettings = storeSettingsQuery.data;
+  const loading = [
+    productsQuery,
+    categoriesQuery,
+    ordersQuery,
+    returnsQuery,
+    couponsQuery,
+    shippingZonesQuery,
+    taxRatesQuery,
+    storeSettingsQuery
+  ].some(query => query.isPending);
+
+  const saveProduct = useSaveProduct();
+  const deleteProduct = useDeleteProduct();
+  const saveCategory = useSaveCategory();
+  const deleteCategory = useDeleteCategory();
+  const saveCoupon = useSaveCoupon();
+  const deleteCoupon = useDeleteCoupon();
+  const updateOrderStatus = useUpdateOrderStatus();
+  const confirmOrderPayment = useConfirmOrderPayment();
+  const resolveReturnRequest = useResolveReturnRequest();
   const [searchTerm, setSearchTerm] = useState('');
   
   // Product dialogs
@@ -84,8 +184,9 @@ export default function Admin() {
   const [deleteProductDialogOpen, setDeleteProductDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<AdminProduct | null>(null);
   const [productToDelete, setProductToDelete] = useState<AdminProduct | null>(null);
+  const [variantMatrix, setVariantMatrix] = useState<VariantMatrix>(emptyVariantMatrix);
+  const [productImages, setProductImages] = useState<ImageDraft[]>([]);
   const [productFormData, setProductFormData] = useState<ProductFormData>(emptyProduct);
-  const [savingProduct, setSavingProduct] = useState(false);
 
   // Category dialogs
   const [categoryDialogOpen, setCategoryDialogOpen] = useState(false);
@@ -93,7 +194,15 @@ export default function Admin() {
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
   const [categoryFormData, setCategoryFormData] = useState<CategoryFormData>(emptyCategory);
-  const [savingCategory, setSavingCategory] = useState(false);
+
+  // Coupon dialogs
+  const [couponDialogOpen, setCouponDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<AdminCoupon | null>(null);
+  const [couponToDelete, setCouponToDelete] = useState<AdminCoupon | null>(null);
+  const [couponFormData, setCouponFormData] = useState<CouponFormData>(emptyCoupon);
+
+  // Files uploaded from the open dialog that are not saved yet; deleted if the dialog is dismissed
+  const pendingUploads = useRef<string[]>([]);
 
   useEffect(() => {
     if (!authLoading) {
@@ -102,36 +211,31 @@ export default function Admin() {
       } else if (!isAdmin) {
         navigate('/');
         toast.error('No tienes permisos de administrador');
-      } else {
-        loadData();
       }
     }
   }, [user, isAdmin, authLoading, navigate]);
 
-  const loadData = async () => {
-    setLoading(true);
-    try {
-      const [productsRes, categoriesRes, ordersRes] = await Promise.all([
-        supabase.from('products').select('*, categories(name)').order('created_at', { ascending: false }),
-        supabase.from('categories').select('*').order('name'),
-        supabase.from('orders').select('*, order_items(*)').order('created_at', { ascending: false }).limit(50)
-      ]);
-      
-      setProducts(productsRes.data || []);
-      setCategories(categoriesRes.data || []);
-      setOrders(ordersRes.data || []);
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Error al cargar los datos');
-    } finally {
-      setLoading(false);
-    }
+  const discardPendingUploads = () => {
+    removeImages(pendingUploads.current);
+    pendingUploads.current = [];
   };
 
   // Product handlers
+  const handleProductDialogChange = (open: boolean) => {
+    if (!open) discardPendingUploads();
+    setProductDialogOpen(open);
+  };
+
+  const handleProductImageUploaded = (url: string) => {
+    pendingUploads.current.push(url);
+    setProductImages(current => [...current, { url, alt_text: '' }]);
+  };
+
   const openCreateProductDialog = () => {
     setEditingProduct(null);
     setProductFormData(emptyProduct);
+    setVariantMatrix(emptyVariantMatrix);
+    setProductImages([]);
     setProductDialogOpen(true);
   };
 
@@ -142,85 +246,98 @@ export default function Admin() {
       description: product.description || '',
       price: product.price.toString(),
       stock: product.stock.toString(),
-      image_url: product.image_url || '',
+      weight: product.weight > 0 ? product.weight.toString() : '',
       category_id: product.category_id || '',
       featured: product.featured || false
     });
+    setVariantMatrix(toVariantMatrix(product.product_option_types, product.product_variants));
+    setProductImages(
+      product.product_images?.length
+        ? [...product.product_images]
+            .sort((a, b) => a.position - b.position)
+            .map(image => ({ url: image.url, alt_text: image.alt_text || '' }))
+        : product.image_url
+          ? [{ url: product.image_url, alt_text: '' }]
+          : []
+    );
     setProductDialogOpen(true);
   };
 
+  const hasVariants = variantMatrix.variants.length > 0;
+
+  const getProductImageUrls = (product: AdminProduct) => [
+    product.image_url,
+    ...(product.product_images || []).map(image => image.url),
+    ...(product.product_variants || []).map(variant => variant.image_url)
+  ].filter((url): url is string => !!url);
+
   const openDeleteProductDialog = (product: AdminProduct) => {
     setProductToDelete(product);
     setDeleteProductDialogOpen(true);
   };
 
-  const handleSaveProduct = async () => {
+  const handleSaveProduct = () => {
     if (!productFormData.name || !productFormData.price) {
       toast.error('Nombre y precio son requeridos');
       return;
     }
 
-    setSavingProduct(true);
-    try {
-      const productData = {
-        name: productFormData.name,
-        description: productFormData.description || null,
-        price: parseFloat(productFormData.price),
-        stock: parseInt(productFormData.stock) || 0,
-        image_url: productFormData.image_url || null,
-        category_id: productFormData.category_id || null,
-        featured: productFormData.featured
-      };
-
-      if (editingProduct) {
-        const { error } = await supabase
-          .from('products')
-          .update(productData)
-          .eq('id', editingProduct.id);
-        
-        if (error) throw error;
-        toast.success('Producto actualizado');
-      } else {
-        const { error } = await supabase
-          .from('products')
-          .insert(productData);
-        
-        if (error) throw error;
-        toast.success('Producto creado');
-      }
-
-      setProductDialogOpen(false);
-      loadData();
-    } catch (error) {
-      console.error('Error saving product:', error);
-      toast.error('Error al guardar el producto');
-    } finally {
-      setSavingProduct(false);
+    if (variantMatrix.options.length > 0 && variantMatrix.variants.length === 0) {
+      toast.error('Genera las combinaciones de variantes antes de guardar');
+      return;
     }
+
+    saveProduct.mutate(
+      {
+        id: editingProduct?.id,
+        product: {
+          name: productFormData.name,
+          description: productFormData.description || null,
+          price: parseFloat(productFormData.price),
+          weight: parseFloat(productFormData.weight) || 0,
+          category_id: productFormData.category_id || null,
+          featured: productFormData.featured,
+          // With variants, stock is the sum of the variants' stock and is kept in sync by the database
+          ...(hasVariants ? {} : { stock: parseInt(productFormData.stock) || 0 })
+        },
+        variants: hasVariants || editingProduct?.has_variants ? variantMatrix : null,
+        images: productImages.map(image => ({ url: image.url, alt_text: image.alt_text || null }))
+      },
+      {
+        onSuccess: () => {
+          toast.success(editingProduct ? 'Producto actualizado' : 'Producto creado');
+
+          // Uploaded files no longer referenced by the gallery or a variant
+          const keptUrls = new Set([
+            ...productImages.map(image => image.url),
+            ...variantMatrix.variants.map(variant => variant.image_url)
+          ]);
+          const previousUrls = editingProduct ? getProductImageUrls(editingProduct) : [];
+          removeImages([...previousUrls, ...pendingUploads.current].filter(url => !keptUrls.has(url)));
+          pendingUploads.current = [];
+
+          setProductDialogOpen(false);
+        }
+      }
+    );
   };
 
-  const handleDeleteProduct = async () => {
+  const handleDeleteProduct = () => {
     if (!productToDelete) return;
 
-    try {
-      const { error } = await supabase
-        .from('products')
-        .delete()
-        .eq('id', productToDelete.id);
-      
-      if (error) throw error;
-      
-      toast.success('Producto eliminado');
-      setDeleteProductDialogOpen(false);
-      setProductToDelete(null);
-      loadData();
-    } catch (error) {
-      console.error('Error deleting product:', error);
-      toast.error('Error al eliminar el producto');
-    }
+    deleteProduct.mutate(productToDelete.id, {
+      onSuccess: () => removeImages(getProductImageUrls(productToDelete))
+    });
+    setDeleteProductDialogOpen(false);
+    setProductToDelete(null);
   };
 
   // Category handlers
+  const handleCategoryDialogChange = (open: boolean) => {
+    if (!open) discardPendingUploads();
+    setCategoryDialogOpen(open);
+  };
+
   const openCreateCategoryDialog = () => {
     setEditingCategory(null);
     setCategoryFormData(emptyCategory);
@@ -242,66 +359,141 @@ export default function Admin() {
     setDeleteCategoryDialogOpen(true);
   };
 
-  const handleSaveCategory = async () => {
+  const handleSaveCategory = () => {
     if (!categoryFormData.name) {
       toast.error('El nombre es requerido');
       return;
     }
 
-    setSavingCategory(true);
-    try {
-      const categoryData = {
-        name: categoryFormData.name,
-        description: categoryFormData.description || null,
-        image_url: categoryFormData.image_url || null
-      };
-
-      if (editingCategory) {
-        const { error } = await supabase
-          .from('categories')
-          .update(categoryData)
-          .eq('id', editingCategory.id);
-        
-        if (error) throw error;
-        toast.success('Categoría actualizada');
-      } else {
-        const { error } = await supabase
-          .from('categories')
-          .insert(categoryData);
-        
-        if (error) throw error;
-        toast.success('Categoría creada');
-      }
+    const categoryData = {
+      name: categoryFormData.name,
+      description: categoryFormData.description || null,
+      image_url: categoryFormData.image_url || null
+    };
 
-      setCategoryDialogOpen(false);
-      loadData();
-    } catch (error) {
-      console.error('Error saving category:', error);
-      toast.error('Error al guardar la categoría');
-    } finally {
-      setSavingCategory(false);
-    }
+    saveCategory.mutate(
+      { id: editingCategory?.id, category: categoryData },
+      {
+        onSuccess: () => {
+          if (editingCategory && editingCategory.image_url !== categoryData.image_url) {
+            removeImages([editingCategory.image_url]);
+          }
+          toast.success(editingCategory ? 'Categoría actualizada' : 'Categoría creada');
+
+          // Uploads replaced before saving are orphans; keep the one in use
+          pendingUploads.current = pendingUploads.current.filter(url => url !== categoryData.image_url);
+          discardPendingUploads();
+          setCategoryDialogOpen(false);
+        }
+      }
+    );
   };
 
-  const handleDeleteCategory = async () => {
+  const handleDeleteCategory = () => {
     if (!categoryToDelete) return;
 
-    try {
-      const { error } = await supabase
-        .from('categories')
-        .delete()
-        .eq('id', categoryToDelete.id);
-      
-      if (error) throw error;
-      
-      toast.success('Categoría eliminada');
-      setDeleteCategoryDialogOpen(false);
-      setCategoryToDelete(null);
-      loadData();
-    } catch (error) {
-      console.error('Error deleting category:', error);
-      toast.error('Error al eliminar la categoría. Puede que tenga productos asociados.');
+    deleteCategory.mutate(categoryToDelete.id, {
+      onSuccess: () => removeImages([categoryToDelete.image_url])
+    });
+    setDeleteCategoryDialogOpen(false);
+    setCategoryToDelete(null);
+  };
+
+  // Coupon handlers
+  const openCreateCouponDialog = () => {
+    setEditingCoupon(null);
+    setCouponFormData(emptyCoupon);
+    setCouponDialogOpen(true);
+  };
+
+  const openEditCouponDialog = (coupon: AdminCoupon) => {
+    setEditingCoupon(coupon);
+    setCouponFormData({
+      code: coupon.code,
+      description: coupon.description || '',
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_type === 'free_shipping' ? '' : coupon.discount_value.toString(),
+      min_subtotal: coupon.min_subtotal > 0 ? coupon.min_subtotal.toString() : '',
+      category_ids: coupon.category_ids,
+      product_ids: coupon.product_ids,
+      usage_limit: coupon.usage_limit?.toString() ?? '',
+      usage_limit_per_user: coupon.usage_limit_per_user?.toString() ?? '',
+      starts_at: toDateTimeInput(coupon.starts_at),
+      ends_at: toDateTimeInput(coupon.ends_at),
+      active: coupon.active
+    });
+    setCouponDialogOpen(true);
+  };
+
+  const handleSaveCoupon = () => {
+    const code = normalizeCouponCode(couponFormData.code);
+    if (!COUPON_CODE_PATTERN.test(code)) {
+      toast.error('El código solo puede tener letras, números, guiones y guiones bajos');
+      return;
+    }
+    if (coupons.some(coupon => coupon.code === code && coupon.id !== editingCoupon?.id)) {
+      toast.error('Ya existe un cupón con ese código');
+      return;
+    }
+
+    const discountValue = couponFormData.discount_type === 'free_shipping' ? 0 : parseFloat(couponFormData.discount_value);
+    if (couponFormData.discount_type !== 'free_shipping' && !(discountValue > 0)) {
+      toast.error('El descuento debe ser mayor que 0');
+      return;
+    }
+    if (couponFormData.discount_type === 'percentage' && discountValue > 100) {
+      toast.error('El porcentaje no puede superar el 100%');
+      return;
     }
+
+    const startsAt = fromDateTimeInput(couponFormData.starts_at);
+    const endsAt = fromDateTimeInput(couponFormData.ends_at);
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      toast.error('La fecha de fin debe ser posterior a la de inicio');
+      return;
+    }
+
+    const couponData = {
+      code,
+      description: couponFormData.description || null,
+      discount_type: couponFormData.discount_type,
+      discount_value: discountValue,
+      min_subtotal: parseFloat(couponFormData.min_subtotal) || 0,
+      category_ids: couponFormData.category_ids,
+      product_ids: couponFormData.product_ids,
+      usage_limit: parseInt(couponFormData.usage_limit) || null,
+      usage_limit_per_user: parseInt(couponFormData.usage_limit_per_user) || null,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      active: couponFormData.active
+    };
+
+    saveCoupon.mutate(
+      { id: editingCoupon?.id, coupon: couponData },
+      {
+        onSuccess: () => {
+          toast.success(editingCoupon ? 'Cupón actualizado' : 'Cupón creado');
+          setCouponDialogOpen(false);
+        }
+      }
+    );
+  };
+
+  const handleDeleteCoupon = () => {
+    if (!couponToDelete) return;
+    deleteCoupon.mutate(couponToDelete.id);
+    setCouponToDelete(null);
+  };
+
+  const getCouponStatusBadge = (coupon: AdminCoupon) => {
+    const status = getCouponStatus(coupon);
+    const exhausted = coupon.usage_limit !== null && coupon.uses >= coupon.usage_limit;
+    if (status === 'active' && exhausted) return <Badge variant="outline">Agotado</Badge>;
+    return (
+      <Badge variant={status === 'active' ? 'default' : status === 'scheduled' ? 'secondary' : 'outline'}>
+        {COUPON_STATUS_LABELS[status]}
+      </Badge>
+    );
   };
 
   const filteredProducts = products.filter(product =>
@@ -314,60 +506,80 @@ export default function Admin() {
     return <Badge variant="secondary">{stock} disponibles</Badge>;
   };
 
-  const getOrderStatusBadge = (status: string) => {
-    const config: Record<string, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label: string; className?: string }> = {
-      pending: { variant: 'outline', label: 'Pendiente' },
-      processing: { variant: 'secondary', label: 'En proceso' },
-      shipped: { variant: 'secondary', label: 'Enviado' },
-      delivered: { variant: 'default', label: 'Completado', className: 'bg-success text-success-foreground' },
-      cancelled: { variant: 'destructive', label: 'Cancelado' }
-    };
-    const { variant, label, className } = config[status] || { variant: 'outline', label: status };
-    return <Badge variant={variant} className={className}>{label}</Badge>;
+  // Order status dialog
+  const [statusChange, setStatusChange] = useState<{ orderId: string; status: OrderStatus } | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+  const updatingOrderId = updateOrderStatus.isPending ? updateOrderStatus.variables.orderId : null;
+
+  const openStatusDialog = (orderId: string, status: OrderStatus) => {
+    setStatusChange({ orderId, status });
+    setStatusNote('');
+  };
+
+  const handleUpdateOrderStatus = () => {
+    if (!statusChange) return;
+    const { orderId, status } = statusChange;
+
+    updateOrderStatus.mutate(
+      { orderId, status, note: statusNote || null },
+      { onSuccess: () => toast.success(`Pedido actualizado: ${ORDER_STATUS_LABELS[status]}`) }
+    );
+    setStatusChange(null);
   };
 
-  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
-
-  const handleCompleteOrder = async (order: any) => {
-    setUpdatingOrderId(order.id);
-    try {
-      // Reduce stock for each item in the order
-      for (const item of order.order_items) {
-        // Get current product stock
-        const { data: product, error: productError } = await supabase
-          .from('products')
-          .select('stock')
-          .eq('id', item.product_id)
-          .single();
-        
-        if (productError) throw productError;
-        
-        const newStock = Math.max(0, (product?.stock || 0) - item.quantity);
-        
-        await supabase
-          .from('products')
-          .update({ stock: newStock })
-          .eq('id', item.product_id);
+  // Cash and transfer payments confirmed by hand
+  const awaitingPayment = orders.filter(canConfirmPayment);
+  const [paymentToConfirm, setPaymentToConfirm] = useState<AdminOrder | null>(null);
+  const confirmingPaymentId = confirmOrderPayment.isPending ? confirmOrderPayment.variables : null;
+
+  // An order waits for its payment before it is prepared
+  const getOrderActions = (order: AdminOrder) =>
+    getNextStatuses(order.status).filter(status => !(status === 'processing' && isAwaitingPayment(order)));
+
+  const [orderToRefund, setOrderToRefund] = useState<AdminOrder | null>(null);
+
+  const handleConfirmPayment = () => {
+    if (!paymentToConfirm) return;
+    const { id, payment_method } = paymentToConfirm;
+
+    confirmOrderPayment.mutate(id, {
+      onSuccess: () =>
+        toast.success(payment_method === 'cash' ? 'Cobro registrado' : 'Transferencia marcada como recibida')
+    });
+    setPaymentToConfirm(null);
+  };
+
+  // Return request dialog
+  const [returnToResolve, setReturnToResolve] = useState<ReturnRequest | null>(null);
+  const [returnResolution, setReturnResolution] = useState({ restock: true, note: '' });
+  const resolvingReturn = resolveReturnRequest.isPending;
+
+  const openResolveReturnDialog = (request: ReturnRequest) => {
+    setReturnToResolve(request);
+    setReturnResolution({ restock: true, note: '' });
+  };
+
+  const handleResolveReturn = (approve: boolean) => {
+    if (!returnToResolve) return;
+
+    resolveReturnRequest.mutate(
+      {
+        requestId: returnToResolve.id,
+        approve,
+        restock: returnResolution.restock,
+        note: returnResolution.note || null
+      },
+      {
+        onSuccess: () => {
+          toast.success(approve ? 'Devolución aprobada' : 'Devolución rechazada');
+          setReturnToResolve(null);
+        }
       }
-      
-      // Update order status to delivered
-      const { error: orderError } = await supabase
-        .from('orders')
-        .update({ status: 'delivered' })
-        .eq('id', order.id);
-      
-      if (orderError) throw orderError;
-      
-      toast.success('Pedido completado y stock actualizado');
-      loadData();
-    } catch (error) {
-      console.error('Error completing order:', error);
-      toast.error('Error al completar el pedido');
-    } finally {
-      setUpdatingOrderId(null);
-    }
+    );
   };
 
+  const pendingReturnsCount = returnRequests.filter(request => request.status === 'pending').length;
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -388,10 +600,10 @@ export default function Admin() {
           animate={{ opacity: 1, y: 0 }}
         >
           <h1 className="text-3xl font-display font-bold mb-2">Panel de Administración</h1>
-          <p className="text-muted-foreground mb-8">Gestiona productos, categorías y pedidos</p>
+          <p className="text-muted-foreground mb-8">Gestiona productos, categorías, cupones, envíos, impuestos, pagos, pedidos y devoluciones</p>
 
           {/* Navigation Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-4 xl:grid-cols-8 gap-4 mb-8">
             <Card 
               className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'products' ? 'ring-2 ring-primary' : ''}`}
               onClick={() => setActiveSection('products')}
@@ -420,6 +632,62 @@ export default function Admin() {
                 </div>
               </CardContent>
             </Card>
+            <Card 
+              className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'coupons' ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setActiveSection('coupons')}
+            >
+              <CardContent className="flex items-center gap-4 pt-6">
+                <div className={`p-3 rounded-lg ${activeSection === 'coupons' ? 'bg-primary text-primary-foreground' : 'bg-accent/10'}`}>
+                  <TicketPercent className={`h-6 w-6 ${activeSection === 'coupons' ? 'text-primary-foreground' : 'text-accent'}`} />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{coupons.length}</p>
+                  <p className="text-sm text-muted-foreground">Cupones</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card 
+              className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'shipping' ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setActiveSection('shipping')}
+            >
+              <CardContent className="flex items-center gap-4 pt-6">
+                <div className={`p-3 rounded-lg ${activeSection === 'shipping' ? 'bg-primary text-primary-foreground' : 'bg-primary/10'}`}>
+                  <Truck className={`h-6 w-6 ${activeSection === 'shipping' ? 'text-primary-foreground' : 'text-primary'}`} />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{shippingZones.length}</p>
+                  <p className="text-sm text-muted-foreground">Zonas de envío</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card 
+              className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'taxes' ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setActiveSection('taxes')}
+            >
+              <CardContent className="flex items-center gap-4 pt-6">
+                <div className={`p-3 rounded-lg ${activeSection === 'taxes' ? 'bg-primary text-primary-foreground' : 'bg-primary/10'}`}>
+                  <Percent className={`h-6 w-6 ${activeSection === 'taxes' ? 'text-primary-foreground' : 'text-primary'}`} />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{taxRates.length}</p>
+                  <p className="text-sm text-muted-foreground">Impuestos</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card 
+              className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'payments' ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setActiveSection('payments')}
+            >
+              <CardContent className="flex items-center gap-4 pt-6">
+                <div className={`p-3 rounded-lg ${activeSection === 'payments' ? 'bg-primary text-primary-foreground' : 'bg-warning/10'}`}>
+                  <Landmark className={`h-6 w-6 ${activeSection === 'payments' ? 'text-primary-foreground' : 'text-warning'}`} />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{awaitingPayment.length}</p>
+                  <p className="text-sm text-muted-foreground">Pagos por confirmar</p>
+                </div>
+              </CardContent>
+            </Card>
             <Card 
               className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'orders' ? 'ring-2 ring-primary' : ''}`}
               onClick={() => setActiveSection('orders')}
@@ -434,6 +702,20 @@ export default function Admin() {
                 </div>
               </CardContent>
             </Card>
+            <Card 
+              className={`cursor-pointer transition-all hover:shadow-lg ${activeSection === 'returns' ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setActiveSection('returns')}
+            >
+              <CardContent className="flex items-center gap-4 pt-6">
+                <div className={`p-3 rounded-lg ${activeSection === 'returns' ? 'bg-primary text-primary-foreground' : 'bg-warning/10'}`}>
+                  <RotateCcw className={`h-6 w-6 ${activeSection === 'returns' ? 'text-primary-foreground' : 'text-warning'}`} />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{pendingReturnsCount}</p>
+                  <p className="text-sm text-muted-foreground">Devoluciones pendientes</p>
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
           {/* Products Section */}
@@ -495,9 +777,16 @@ export default function Admin() {
                                 />
                               </TableCell>
                               <TableCell className="font-medium">{product.name}</TableCell>
-                              <TableCell>{(product as any).categories?.name || '-'}</TableCell>
+                              <TableCell>{product.categories?.name || '-'}</TableCell>
                               <TableCell>${product.price.toFixed(2)}</TableCell>
-                              <TableCell>{getStockBadge(product.stock)}</TableCell>
+                              <TableCell>
+                                <div className="flex flex-col items-start gap-1">
+                                  {getStockBadge(product.stock)}
+                                  {product.reserved > 0 && (
+                                    <span className="text-xs text-muted-foreground">{product.reserved} reservados</span>
+                                  )}
+                                </div>
+                              </TableCell>
                               <TableCell>
                                 {product.featured && <Badge>Destacado</Badge>}
                               </TableCell>
@@ -611,6 +900,210 @@ export default function Admin() {
             </motion.div>
           )}
 
+          {/* Coupons Section */}
+          {activeSection === 'coupons' && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Gestión de Cupones</CardTitle>
+                  <Button onClick={openCreateCouponDialog} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Nuevo Cupón
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Código</TableHead>
+                          <TableHead>Descuento</TableHead>
+                          <TableHead>Condiciones</TableHead>
+                          <TableHead>Usos</TableHead>
+                          <TableHead>Vigencia</TableHead>
+                          <TableHead>Estado</TableHead>
+                          <TableHead className="text-right">Acciones</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {coupons.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                              No hay cupones
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          coupons.map(coupon => (
+                            <TableRow key={coupon.id}>
+                              <TableCell>
+                                <p className="font-mono font-medium">{coupon.code}</p>
+                                {coupon.description && (
+                                  <p className="text-xs text-muted-foreground max-w-xs truncate">{coupon.description}</p>
+                                )}
+                              </TableCell>
+                              <TableCell>{formatCouponValue(coupon)}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {coupon.min_subtotal > 0 && <p>Mínimo ${coupon.min_subtotal.toFixed(2)}</p>}
+                                <p>
+                                  {coupon.category_ids.length === 0 && coupon.product_ids.length === 0
+                                    ? 'Todo el carrito'
+                                    : [
+                                        coupon.category_ids.length > 0 && `${coupon.category_ids.length} categorías`,
+                                        coupon.product_ids.length > 0 && `${coupon.product_ids.length} productos`
+                                      ].filter(Boolean).join(', ')}
+                                </p>
+                                {coupon.usage_limit_per_user && <p>{coupon.usage_limit_per_user} por cliente</p>}
+                              </TableCell>
+                              <TableCell>
+                                {coupon.uses}{coupon.usage_limit ? ` / ${coupon.usage_limit}` : ''}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {coupon.starts_at || coupon.ends_at ? (
+                                  <>
+                                    {coupon.starts_at && <p>Desde {new Date(coupon.starts_at).toLocaleDateString('es-ES')}</p>}
+                                    {coupon.ends_at && <p>Hasta {new Date(coupon.ends_at).toLocaleDateString('es-ES')}</p>}
+                                  </>
+                                ) : (
+                                  'Sin límite'
+                                )}
+                              </TableCell>
+                              <TableCell>{getCouponStatusBadge(coupon)}</TableCell>
+                              <TableCell className="text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => openEditCouponDialog(coupon)}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-destructive hover:text-destructive"
+                                  onClick={() => setCouponToDelete(coupon)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Shipping Section */}
+          {activeSection === 'shipping' && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              <ShippingZonesManager zones={shippingZones} />
+            </motion.div>
+          )}
+
+          {/* Taxes Section */}
+          {activeSection === 'taxes' && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              <TaxRatesManager taxRates={taxRates} categories={categories} zones={shippingZones} />
+            </motion.div>
+          )}
+
+          {/* Payments Section */}
+          {activeSection === 'payments' && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+              className="space-y-6"
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pagos por confirmar</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Pedido</TableHead>
+                          <TableHead>Método</TableHead>
+                          <TableHead>Importe</TableHead>
+                          <TableHead>Referencia</TableHead>
+                          <TableHead>Estado</TableHead>
+                          <TableHead className="text-right">Acciones</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {awaitingPayment.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                              No hay pagos pendientes de confirmar
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          awaitingPayment.map(order => (
+                            <TableRow key={order.id}>
+                              <TableCell>
+                                <span className="font-mono text-sm">{order.id.slice(0, 8)}...</span>
+                                <span className="block text-xs text-muted-foreground">
+                                  {new Date(order.created_at).toLocaleDateString()}
+                                </span>
+                              </TableCell>
+                              <TableCell>{PAYMENT_METHOD_LABELS[order.payment_method ?? 'card']}</TableCell>
+                              <TableCell className="font-medium">
+                                ${(order.amount_to_collect ?? order.total).toFixed(2)}
+                              </TableCell>
+                              <TableCell>
+                                {order.payment_reference ? (
+                                  <>
+                                    <span className="font-mono text-sm">{order.payment_reference}</span>
+                                    {order.payment_due_at && (
+                                      <span className="block text-xs text-muted-foreground">
+                                        Vence el {new Date(order.payment_due_at).toLocaleString()}
+                                      </span>
+                                    )}
+                                  </>
+                                ) : (
+                                  '-'
+                                )}
+                              </TableCell>
+                              <TableCell><OrderStatusBadge status={order.status} /></TableCell>
+                              <TableCell className="text-right">
+                                <Button
+                                  size="sm"
+                                  onClick={() => setPaymentToConfirm(order)}
+                                  disabled={confirmingPaymentId === order.id}
+                                >
+                                  {CONFIRM_PAYMENT_ACTIONS[order.payment_method ?? 'card']}
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {storeSettings && <PaymentSettingsForm key={storeSettings.updated_at} settings={storeSettings} />}
+            </motion.div>
+          )}
+
           {/* Orders Section */}
           {activeSection === 'orders' && (
             <motion.div
@@ -630,6 +1123,7 @@ export default function Admin() {
                           <TableHead>ID</TableHead>
                           <TableHead>Fecha</TableHead>
                           <TableHead>Total</TableHead>
+                          <TableHead>Pago</TableHead>
                           <TableHead>Estado</TableHead>
                           <TableHead>Items</TableHead>
                           <TableHead className="text-right">Acciones</TableHead>
@@ -638,7 +1132,7 @@ export default function Admin() {
                       <TableBody>
                         {orders.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                            <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                               No hay pedidos
                             </TableCell>
                           </TableRow>
@@ -646,28 +1140,134 @@ export default function Admin() {
                           orders.map(order => (
                             <TableRow key={order.id}>
                               <TableCell className="font-mono text-sm">
-                                {order.id.slice(0, 8)}...
+                                <Link to={`/admin/orders/${order.id}`} className="text-primary hover:underline">
+                                  {order.id.slice(0, 8)}...
+                                </Link>
                               </TableCell>
                               <TableCell>
                                 {new Date(order.created_at).toLocaleDateString()}
                               </TableCell>
                               <TableCell className="font-medium">
                                 ${order.total.toFixed(2)}
+                                {order.refunded_total > 0 && (
+                                  <span className="block text-xs font-normal text-muted-foreground">
+                                    -${order.refunded_total.toFixed(2)} reembolsado
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                {PAYMENT_METHOD_LABELS[order.payment_method ?? 'card']}
+                                <span className="block text-xs text-muted-foreground">
+                                  {ORDER_PAYMENT_STATUS_LABELS[order.payment_status]}
+                                </span>
                               </TableCell>
-                              <TableCell>{getOrderStatusBadge(order.status)}</TableCell>
+                              <TableCell><OrderStatusBadge status={order.status} /></TableCell>
                               <TableCell>{order.order_items?.length || 0} productos</TableCell>
                               <TableCell className="text-right">
-                                {order.status === 'pending' && (
-                                  <Button
-                                    size="sm"
-                                    onClick={() => handleCompleteOrder(order)}
-                                    disabled={updatingOrderId === order.id}
+                                <div className="flex justify-end gap-2">
+                                  {getOrderActions(order).map(status => (
+                                    <Button
+                                      key={status}
+                                      size="sm"
+                                      variant={status === 'cancelled' ? 'outline' : 'default'}
+                                      className={status === 'cancelled' ? 'text-destructive hover:text-destructive' : undefined}
+                                      onClick={() => openStatusDialog(order.id, status)}
+                                      disabled={updatingOrderId === order.id}
+                                    >
+                                      {ORDER_STATUS_ACTIONS[status]}
+                                    </Button>
+                                  ))}
+                                  {isRefundable(order) && (
+                                    <Button size="sm" variant="outline" onClick={() => setOrderToRefund(order)}>
+                                      Reembolsar
+                                    </Button>
+                                  )}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Returns Section */}
+          {activeSection === 'returns' && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>Solicitudes de Devolución</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Pedido</TableHead>
+                          <TableHead>Fecha</TableHead>
+                          <TableHead>Producto</TableHead>
+                          <TableHead>Cantidad</TableHead>
+                          <TableHead>Motivo</TableHead>
+                          <TableHead>Estado</TableHead>
+                          <TableHead className="text-right">Acciones</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {returnRequests.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                              No hay solicitudes de devolución
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          returnRequests.map(request => (
+                            <TableRow key={request.id}>
+                              <TableCell className="font-mono text-sm">
+                                {request.order_id.slice(0, 8)}...
+                              </TableCell>
+                              <TableCell>
+                                {new Date(request.created_at).toLocaleDateString()}
+                              </TableCell>
+                              <TableCell className="font-medium">
+                                {request.order_items?.product_name || '-'}
+                                {request.order_items?.variant_title && (
+                                  <span className="block text-xs text-muted-foreground">{request.order_items.variant_title}</span>
+                                )}
+                              </TableCell>
+                              <TableCell>{request.quantity}</TableCell>
+                              <TableCell className="max-w-xs">
+                                <p className="truncate">{request.reason}</p>
+                                {request.photo_url && (
+                                  <a
+                                    href={request.photo_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-xs text-primary hover:underline"
                                   >
-                                    {updatingOrderId === order.id ? (
-                                      <Loader2 className="h-4 w-4 animate-spin" />
-                                    ) : (
-                                      'Completar'
-                                    )}
+                                    Ver foto
+                                  </a>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant={request.status === 'rejected' ? 'destructive' : request.status === 'approved' ? 'default' : 'outline'}>
+                                  {RETURN_STATUS_LABELS[request.status as ReturnRequestStatus] || request.status}
+                                </Badge>
+                                {request.restocked && (
+                                  <p className="text-xs text-muted-foreground mt-1">Stock repuesto</p>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {request.status === 'pending' && (
+                                  <Button size="sm" onClick={() => openResolveReturnDialog(request)}>
+                                    Revisar
                                   </Button>
                                 )}
                               </TableCell>
@@ -684,9 +1284,132 @@ export default function Admin() {
         </motion.div>
       </div>
 
+      {/* Resolve Return Dialog */}
+      <Dialog open={!!returnToResolve} onOpenChange={open => !open && setReturnToResolve(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Revisar devolución</DialogTitle>
+            <DialogDescription>
+              {returnToResolve?.quantity} × {returnToResolve?.order_items?.product_name} del pedido #{returnToResolve?.order_id.slice(0, 8)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="text-sm">
+              <p className="font-medium">Motivo del cliente</p>
+              <p className="text-muted-foreground">{returnToResolve?.reason}</p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="return-restock">Reponer stock al aprobar</Label>
+              <Switch
+                id="return-restock"
+                checked={returnResolution.restock}
+                onCheckedChange={checked => setReturnResolution({ ...returnResolution, restock: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-note">Nota para el cliente (opcional)</Label>
+              <Textarea
+                id="return-note"
+                value={returnResolution.note}
+                onChange={e => setReturnResolution({ ...returnResolution, note: e.target.value })}
+                placeholder="Ej. instrucciones de envío o motivo del rechazo"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="text-destructive hover:text-destructive"
+              onClick={() => handleResolveReturn(false)}
+              disabled={resolvingReturn}
+            >
+              Rechazar
+            </Button>
+            <Button onClick={() => handleResolveReturn(true)} disabled={resolvingReturn}>
+              {resolvingReturn && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Aprobar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Refund Dialog */}
+      {orderToRefund && <RefundOrderDialog key={orderToRefund.id} order={orderToRefund} onClose={() => setOrderToRefund(null)} />}
+
+      {/* Confirm Payment Dialog */}
+      <AlertDialog open={!!paymentToConfirm} onOpenChange={open => !open && setPaymentToConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {paymentToConfirm?.payment_method === 'cash' ? '¿Registrar el cobro?' : '¿Marcar la transferencia como recibida?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {paymentToConfirm?.payment_method === 'cash'
+                ? `Confirma que el repartidor ha cobrado $${(paymentToConfirm.amount_to_collect ?? paymentToConfirm.total).toFixed(2)} del pedido #${paymentToConfirm.id.slice(0, 8)}.`
+                : `Comprueba que has recibido $${paymentToConfirm?.total.toFixed(2)} con el concepto ${paymentToConfirm?.payment_reference}. Después podrás preparar el pedido.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Volver</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmPayment}>Confirmar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Order Status Dialog */}
+      <Dialog open={!!statusChange} onOpenChange={open => !open && setStatusChange(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {statusChange && ORDER_STATUS_ACTIONS[statusChange.status]} pedido
+            </DialogTitle>
+            <DialogDescription>
+              El pedido #{statusChange?.orderId.slice(0, 8)} pasará a "{statusChange && ORDER_STATUS_LABELS[statusChange.status]}".
+              El cliente verá este cambio en su historial.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="status-note">Nota (opcional)</Label>
+            <Textarea
+              id="status-note"
+              value={statusNote}
+              onChange={e => setStatusNote(e.target.value)}
+              placeholder="Ej. número de seguimiento o motivo de la cancelación"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusChange(null)}>
+              Volver
+            </Button>
+            <Button
+              onClick={handleUpdateOrderStatus}
+              disabled={!!updatingOrderId}
+              variant={statusChange?.status === 'cancelled' ? 'destructive' : 'default'}
+            >
+              {updatingOrderId ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Guardando...
+                </>
+              ) : (
+                'Confirmar'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Product Dialog */}
-      <Dialog open={productDialogOpen} onOpenChange={setProductDialogOpen}>
-        <DialogContent className="max-w-lg">
+      <Dialog open={productDialogOpen} onOpenChange={handleProductDialogChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingProduct ? 'Editar Producto' : 'Nuevo Producto'}
@@ -718,7 +1441,7 @@ export default function Admin() {
               />
             </div>
             
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="price">Precio *</Label>
                 <Input
@@ -737,22 +1460,31 @@ export default function Admin() {
                   id="stock"
                   type="number"
                   min="0"
-                  value={productFormData.stock}
+                  value={hasVariants ? '' : productFormData.stock}
                   onChange={e => setProductFormData({ ...productFormData, stock: e.target.value })}
-                  placeholder="0"
+                  placeholder={hasVariants ? 'Suma de variantes' : '0'}
+                  disabled={hasVariants}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="weight">Peso (kg)</Label>
+                <Input
+                  id="weight"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={productFormData.weight}
+                  onChange={e => setProductFormData({ ...productFormData, weight: e.target.value })}
+                  placeholder="0.000"
                 />
               </div>
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="image_url">URL de imagen</Label>
-              <Input
-                id="image_url"
-                value={productFormData.image_url}
-                onChange={e => setProductFormData({ ...productFormData, image_url: e.target.value })}
-                placeholder="https://ejemplo.com/imagen.jpg"
-              />
-            </div>
+            <ProductImagesEditor
+              value={productImages}
+              onChange={setProductImages}
+              onUploaded={handleProductImageUploaded}
+            />
             
             <div className="space-y-2">
               <Label htmlFor="category">Categoría</Label>
@@ -781,14 +1513,22 @@ export default function Admin() {
                 onCheckedChange={checked => setProductFormData({ ...productFormData, featured: checked })}
               />
             </div>
+
+            <div className="border-t pt-4">
+              <VariantMatrixEditor
+                value={variantMatrix}
+                onChange={setVariantMatrix}
+                basePrice={productFormData.price}
+              />
+            </div>
           </div>
 
           <DialogFooter>
-            <Button variant="outline" onClick={() => setProductDialogOpen(false)}>
+            <Button variant="outline" onClick={() => handleProductDialogChange(false)}>
               Cancelar
             </Button>
-            <Button onClick={handleSaveProduct} disabled={savingProduct}>
-              {savingProduct ? (
+            <Button onClick={handleSaveProduct} disabled={saveProduct.isPending}>
+              {saveProduct.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Guardando...
@@ -826,7 +1566,7 @@ export default function Admin() {
       </AlertDialog>
 
       {/* Category Dialog */}
-      <Dialog open={categoryDialogOpen} onOpenChange={setCategoryDialogOpen}>
+      <Dialog open={categoryDialogOpen} onOpenChange={handleCategoryDialogChange}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
             <DialogTitle>
@@ -860,22 +1600,36 @@ export default function Admin() {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="category-image">URL de imagen</Label>
+              <Label htmlFor="category-image">Imagen</Label>
+              {categoryFormData.image_url && (
+                <img
+                  src={categoryFormData.image_url}
+                  alt=""
+                  className="h-24 w-24 rounded-md object-cover bg-muted"
+                />
+              )}
+              <ImageDropzone
+                folder="categories"
+                onUploaded={url => {
+                  pendingUploads.current.push(url);
+                  setCategoryFormData(current => ({ ...current, image_url: url }));
+                }}
+              />
               <Input
                 id="category-image"
                 value={categoryFormData.image_url}
                 onChange={e => setCategoryFormData({ ...categoryFormData, image_url: e.target.value })}
-                placeholder="https://ejemplo.com/imagen.jpg"
+                placeholder="O pega una URL: https://ejemplo.com/imagen.jpg"
               />
             </div>
           </div>
 
           <DialogFooter>
-            <Button variant="outline" onClick={() => setCategoryDialogOpen(false)}>
+            <Button variant="outline" onClick={() => handleCategoryDialogChange(false)}>
               Cancelar
             </Button>
-            <Button onClick={handleSaveCategory} disabled={savingCategory}>
-              {savingCategory ? (
+            <Button onClick={handleSaveCategory} disabled={saveCategory.isPending}>
+              {saveCategory.isPending ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Guardando...
@@ -912,6 +1666,199 @@ export default function Admin() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Coupon Dialog */}
+      <Dialog open={couponDialogOpen} onOpenChange={setCouponDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCoupon ? 'Editar Cupón' : 'Nuevo Cupón'}
+            </DialogTitle>
+            <DialogDescription>
+              {editingCoupon ? 'Modifica las condiciones del cupón' : 'Crea un código de descuento'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-code">Código *</Label>
+                <Input
+                  id="coupon-code"
+                  value={couponFormData.code}
+                  onChange={e => setCouponFormData({ ...couponFormData, code: e.target.value.toUpperCase() })}
+                  placeholder="VERANO10"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-type">Tipo *</Label>
+                <Select
+                  value={couponFormData.discount_type}
+                  onValueChange={value => setCouponFormData({ ...couponFormData, discount_type: value as CouponType })}
+                >
+                  <SelectTrigger id="coupon-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COUPON_TYPE_LABELS) as CouponType[]).map(type => (
+                      <SelectItem key={type} value={type}>
+                        {COUPON_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="coupon-description">Descripción</Label>
+              <Input
+                id="coupon-description"
+                value={couponFormData.description}
+                onChange={e => setCouponFormData({ ...couponFormData, description: e.target.value })}
+                placeholder="Solo para uso interno"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {couponFormData.discount_type !== 'free_shipping' && (
+                <div className="space-y-2">
+                  <Label htmlFor="coupon-value">
+                    {couponFormData.discount_type === 'percentage' ? 'Porcentaje *' : 'Importe *'}
+                  </Label>
+                  <Input
+                    id="coupon-value"
+                    type="number"
+                    step={couponFormData.discount_type === 'percentage' ? '1' : '0.01'}
+                    min="0"
+                    max={couponFormData.discount_type === 'percentage' ? '100' : undefined}
+                    value={couponFormData.discount_value}
+                    onChange={e => setCouponFormData({ ...couponFormData, discount_value: e.target.value })}
+                    placeholder={couponFormData.discount_type === 'percentage' ? '10' : '5.00'}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="coupon-min-subtotal">Compra mínima</Label>
+                <Input
+                  id="coupon-min-subtotal"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={couponFormData.min_subtotal}
+                  onChange={e => setCouponFormData({ ...couponFormData, min_subtotal: e.target.value })}
+                  placeholder="Sin mínimo"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-usage-limit">Usos totales</Label>
+                <Input
+                  id="coupon-usage-limit"
+                  type="number"
+                  min="1"
+                  value={couponFormData.usage_limit}
+                  onChange={e => setCouponFormData({ ...couponFormData, usage_limit: e.target.value })}
+                  placeholder="Sin límite"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-usage-limit-per-user">Usos por cliente</Label>
+                <Input
+                  id="coupon-usage-limit-per-user"
+                  type="number"
+                  min="1"
+                  value={couponFormData.usage_limit_per_user}
+                  onChange={e => setCouponFormData({ ...couponFormData, usage_limit_per_user: e.target.value })}
+                  placeholder="Sin límite"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-starts-at">Válido desde</Label>
+                <Input
+                  id="coupon-starts-at"
+                  type="datetime-local"
+                  value={couponFormData.starts_at}
+                  onChange={e => setCouponFormData({ ...couponFormData, starts_at: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-ends-at">Válido hasta</Label>
+                <Input
+                  id="coupon-ends-at"
+                  type="datetime-local"
+                  value={couponFormData.ends_at}
+                  onChange={e => setCouponFormData({ ...couponFormData, ends_at: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <CouponScopePicker
+              categories={categories}
+              products={products}
+              categoryIds={couponFormData.category_ids}
+              productIds={couponFormData.product_ids}
+              onChange={changes => setCouponFormData(current => ({ ...current, ...changes }))}
+            />
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="coupon-active"
+                checked={couponFormData.active}
+                onCheckedChange={checked => setCouponFormData({ ...couponFormData, active: checked })}
+              />
+              <Label htmlFor="coupon-active">Activo</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCouponDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveCoupon} disabled={saveCoupon.isPending}>
+              {saveCoupon.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Guardando...
+                </>
+              ) : (
+                'Guardar'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Coupon Confirmation Dialog */}
+      <AlertDialog open={!!couponToDelete} onOpenChange={open => !open && setCouponToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              ¿Eliminar cupón?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              El cupón "{couponToDelete?.code}" dejará de funcionar. Los pedidos que ya lo usaron conservan su descuento.
+              Si solo quieres pausarlo, desactívalo en su lugar.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteCoupon}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Header } from '@/components/layout/Header';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAddOrderNote, useAdminOrder, useRetryRefund } from '@/api/admin';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusBadge';
+import { OrderTimeline } from '@/components/orders/OrderTimeline';
+import { OrderBreakdown } from '@/components/orders/OrderBreakdown';
+import { RefundOrderDialog } from '@/components/admin/RefundOrderDialog';
+import { formatTaxRate } from '@/lib/tax';
+import { isRefundable, Refund, REFUND_STATUS_LABELS } from '@/lib/refunds';
+import { ORDER_PAYMENT_STATUS_LABELS, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/lib/payments';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, CreditCard, Loader2, MapPin, StickyNote, User } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export default function AdminOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, isAdmin, loading: authLoading } = useAuth();
+  const { data: order, isPending: loading } = useAdminOrder(id, !!user && isAdmin);
+  const addNote = useAddOrderNote(id ?? '');
+  const [noteBody, setNoteBody] = useState('');
+  const retryRefund = useRetryRefund();
+  const [refunding, setRefunding] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading) {
+      if (!user) {
+        navigate('/auth');
+      } else if (!isAdmin) {
+        navigate('/');
+        toast.error('No tienes permisos de administrador');
+      }
+    }
+  }, [user, isAdmin, authLoading, navigate]);
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteBody.trim()) return;
+    addNote.mutate(noteBody.trim(), {
+      onSuccess: () => setNoteBody('')
+    });
+  };
+
+  const handleRetryRefund = (refund: Refund) => {
+    retryRefund.mutate(refund, {
+      onSuccess: result => {
+        if (result.status === 'succeeded') {
+          toast.success(`Reembolso de $${result.amount.toFixed(2)} realizado`);
+        } else {
+          toast.error('La pasarela de pago rechazó el reembolso');
+        }
+      }
+    });
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container py-8 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container py-16 text-center">
+          <h1 className="text-2xl font-bold mb-4">Pedido no encontrado</h1>
+          <Button asChild>
+            <Link to="/admin">Volver al panel</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const notes = [...order.order_notes].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container py-8">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Link to="/admin" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-4">
+            <ArrowLeft className="h-4 w-4" />
+            Volver al panel
+          </Link>
+
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+            <div>
+              <div className="flex items-center gap-3 mb-1">
+                <h1 className="text-3xl font-display font-bold">Pedido #{order.id.slice(0, 8)}</h1>
+                <OrderStatusBadge status={order.status} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatDateTime(order.created_at)} · <span className="font-mono">{order.id}</span>
+              </p>
+            </div>
+            {isRefundable(order) && (
+              <Button variant="outline" onClick={() => setRefunding(true)}>
+                Reembolsar
+              </Button>
+            )}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="space-y-6 lg:col-span-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Productos</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Producto</TableHead>
+                          <TableHead className="text-right">Precio</TableHead>
+                          <TableHead className="text-right">Cantidad</TableHead>
+                          <TableHead className="text-right">Impuestos</TableHead>
+                          <TableHead className="text-right">Subtotal</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {order.order_items.map(item => (
+                          <TableRow key={item.id}>
+                            <TableCell>
+                              <p className="font-medium">{item.product_name}</p>
+                              {item.variant_title && (
+                                <p className="text-sm text-muted-foreground">{item.variant_title}</p>
+                              )}
+                              {item.refunded_quantity > 0 && (
+                                <p className="text-sm text-success">{item.refunded_quantity} reembolsados</p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">${item.product_price.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">{item.quantity}</TableCell>
+                            <TableCell className="text-right">
+                              {item.tax_amount > 0 ? (
+                                <>
+                                  ${item.tax_amount.toFixed(2)}
+                                  <span className="block text-xs text-muted-foreground">
+                                    {formatTaxRate(item.tax_rate)}
+                                    {item.tax_inclusive && ' incluido'}
+                                  </span>
+                                </>
+                              ) : (
+                                '-'
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">${item.subtotal.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  <OrderBreakdown order={order} />
+
+                  <div className="space-y-1 pt-4 border-t mt-4">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">Total</span>
+                      <span className="text-xl font-bold text-primary">${order.total.toFixed(2)}</span>
+                    </div>
+                    {order.refunded_total > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Reembolsado</span>
+                        <span className="text-success">-${order.refunded_total.toFixed(2)}</span>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Historial de estados</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderTimeline history={order.order_status_history} />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <StickyNote className="h-5 w-5" />
+                    Notas internas
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form onSubmit={handleAddNote} className="space-y-2">
+                    <Label htmlFor="order-note">Nueva nota (el cliente no la ve y no se puede borrar)</Label>
+                    <Textarea
+                      id="order-note"
+                      value={noteBody}
+                      onChange={e => setNoteBody(e.target.value)}
+                      placeholder="Ej. el cliente llamó para cambiar la hora de entrega"
+                      rows={3}
+                    />
+                    <div className="flex justify-end">
+                      <Button type="submit" size="sm" disabled={addNote.isPending || !noteBody.trim()}>
+                        {addNote.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Añadir nota
+                      </Button>
+                    </div>
+                  </form>
+
+                  {notes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Sin notas</p>
+                  ) : (
+                    <ul className="space-y-3">
+                      {notes.map(note => (
+                        <li key={note.id} className="rounded-md border p-3 text-sm">
+                          <p className="whitespace-pre-wrap">{note.body}</p>
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {note.profiles?.full_name || note.profiles?.email || 'Admin'} · {formatDateTime(note.created_at)}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <User className="h-4 w-4" />
+                    Cliente
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  {order.profile ? (
+                    <>
+                      <p className="font-medium">{order.profile.full_name || 'Sin nombre'}</p>
+                      {order.profile.email && <p>{order.profile.email}</p>}
+                      {order.profile.phone && <p>{order.profile.phone}</p>}
+                      <p className="text-muted-foreground">Cliente desde {new Date(order.profile.created_at).toLocaleDateString('es-ES')}</p>
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">Perfil no disponible</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <MapPin className="h-4 w-4" />
+                    Envío
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-1">
+                  <p>{order.shipping_address || '-'}</p>
+                  <p>{order.shipping_city}</p>
+                  {order.shipping_method && <p className="text-muted-foreground">{order.shipping_method}</p>}
+                  {order.notes && (
+                    <p className="pt-2">
+                      <strong>Nota del cliente:</strong> {order.notes}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <CreditCard className="h-4 w-4" />
+                    Pago
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm space-y-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {PAYMENT_METHOD_LABELS[order.payment_method ?? 'card']} ·{' '}
+                      {ORDER_PAYMENT_STATUS_LABELS[order.payment_status]}
+                    </p>
+                    {order.paid_at && <p className="text-muted-foreground">Pagado el {formatDateTime(order.paid_at)}</p>}
+                    {order.amount_to_collect != null && (
+                      <p>A cobrar en la entrega: ${order.amount_to_collect.toFixed(2)}</p>
+                    )}
+                    {order.payment_reference && (
+                      <p>
+                        Concepto: <span className="font-mono">{order.payment_reference}</span>
+                      </p>
+                    )}
+                    {order.payment_due_at && order.payment_status === 'unpaid' && (
+                      <p className="text-muted-foreground">Vence el {formatDateTime(order.payment_due_at)}</p>
+                    )}
+                  </div>
+
+                  {order.payments.length > 0 && (
+                    <div className="space-y-2 border-t pt-3">
+                      <p className="font-medium">Cobros</p>
+                      {order.payments.map(payment => (
+                        <div key={payment.id} className="flex justify-between gap-2">
+                          <div>
+                            <p>
+                              {payment.card_brand
+                                ? `${payment.card_brand} •••• ${payment.card_last4}`
+                                : PAYMENT_METHOD_LABELS[payment.provider as keyof typeof PAYMENT_METHOD_LABELS] ?? payment.provider}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {PAYMENT_STATUS_LABELS[payment.status]} · {formatDateTime(payment.created_at)}
+                            </p>
+                          </div>
+                          <span>${payment.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {order.refunds.length > 0 && (
+                    <div className="space-y-2 border-t pt-3">
+                      <p className="font-medium">Reembolsos</p>
+                      {order.refunds.map(refund => (
+                        <div key={refund.id} className="space-y-2">
+                          <div className="flex justify-between gap-2">
+                            <div>
+                              <p>{REFUND_STATUS_LABELS[refund.status]}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatDateTime(refund.created_at)}
+                                {refund.reason && ` · ${refund.reason}`}
+                              </p>
+                            </div>
+                            <span>-${refund.amount.toFixed(2)}</span>
+                          </div>
+                          {/* A card refund stays pending while the answer of the gateway is unknown */}
+                          {refund.status === 'pending' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRetryRefund(refund)}
+                              disabled={retryRefund.isPending}
+                            >
+                              {retryRefund.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Reintentar
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+
+      {refunding && <RefundOrderDialog order={order} onClose={() => setRefunding(false)} />}
+    </div>
+  );
+}
@@ -2,15 +2,23 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Header } from '@/components/layout/Header';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCartTaxes } from '@/api/cart';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Minus, Plus, Trash2, ShoppingBag, ArrowRight } from 'lucide-react';
+import { Minus, Plus, Trash2, ShoppingBag, ArrowRight, Loader2 } from 'lucide-react';
+import { CartChangesAlert } from '@/components/cart/CartChangesAlert';
+import { CouponField } from '@/components/cart/CouponField';
+import { getCartItemImage, getCartItemPrice, getCartItemStock, hasPriceChanged, hasStockShortage } from '@/lib/cart';
+import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
 
 export default function Cart() {
-  const { items, loading, itemCount, total, updateQuantity, removeItem } = useCart();
+  const { items, loading, itemCount, total, discount, coupon, cartId, updateQuantity, removeItem, isItemPending } = useCart();
   const { user } = useAuth();
+  // The city is not known yet, so taxes are an estimate until checkout
+  const { data: taxes } = useCartTaxes(cartId ?? undefined, null);
+  const addedTax = taxes ? taxes.tax_total - taxes.tax_included : 0;
   const navigate = useNavigate();
 
   const handleCheckout = () => {
@@ -59,6 +67,7 @@ export default function Cart() {
           <div className="grid lg:grid-cols-3 gap-8">
             {/* Cart Items */}
             <div className="lg:col-span-2 space-y-4">
+              <CartChangesAlert />
               {items.map((item, index) => (
                 <motion.div
                   key={item.id}
@@ -66,11 +75,11 @@ export default function Cart() {
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ delay: index * 0.1 }}
                 >
-                  <Card>
+                  <Card aria-busy={isItemPending(item.id)}>
                     <CardContent className="p-4">
                       <div className="flex gap-4">
                         <img
-                          src={item.products?.image_url || '/placeholder.svg'}
+                          src={getCartItemImage(item)}
                           alt={item.products?.name}
                           className="w-24 h-24 object-cover rounded-lg"
                         />
@@ -81,9 +90,22 @@ export default function Cart() {
                           >
                             {item.products?.name}
                           </Link>
+                          {item.product_variants && (
+                            <p className="text-sm text-muted-foreground">{item.product_variants.title}</p>
+                          )}
                           <p className="text-sm text-muted-foreground mt-1">
-                            ${item.products?.price.toFixed(2)} c/u
+                            {hasPriceChanged(item) && (
+                              <span className="line-through mr-2">${item.unit_price.toFixed(2)}</span>
+                            )}
+                            ${getCartItemPrice(item).toFixed(2)} c/u
                           </p>
+                          {hasStockShortage(item) && (
+                            <p className="text-sm text-destructive">
+                              {getCartItemStock(item) > 0
+                                ? `Solo quedan ${getCartItemStock(item)} unidades`
+                                : 'Agotado'}
+                            </p>
+                          )}
                           
                           <div className="flex items-center justify-between mt-4">
                             <div className="flex items-center gap-2">
@@ -101,15 +123,18 @@ export default function Cart() {
                                 size="icon"
                                 className="h-8 w-8"
                                 onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                                disabled={item.quantity >= (item.products?.stock || 0)}
+                                disabled={item.quantity >= getCartItemStock(item)}
                               >
                                 <Plus className="h-4 w-4" />
                               </Button>
+                              {isItemPending(item.id) && (
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-label="Guardando" />
+                              )}
                             </div>
                             
                             <div className="flex items-center gap-4">
-                              <span className="font-bold text-lg">
-                                ${((item.products?.price || 0) * item.quantity).toFixed(2)}
+                              <span className={cn('font-bold text-lg transition-opacity', isItemPending(item.id) && 'opacity-60')}>
+                                ${(getCartItemPrice(item) * item.quantity).toFixed(2)}
                               </span>
                               <Button
                                 variant="ghost"
@@ -140,14 +165,37 @@ export default function Cart() {
                     <span className="text-muted-foreground">Subtotal ({itemCount} productos)</span>
                     <span>${total.toFixed(2)}</span>
                   </div>
+                  {discount > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Descuento ({coupon?.code})</span>
+                      <span className="text-success">-${discount.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Envío</span>
-                    <span className="text-success">Gratis</span>
+                    {coupon?.discount_type === 'free_shipping' ? (
+                      <span className="text-success">Gratis</span>
+                    ) : (
+                      <span className="text-muted-foreground">Se calcula al pagar</span>
+                    )}
                   </div>
+                  {addedTax > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Impuestos (estimados)</span>
+                      <span>${addedTax.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {!!taxes?.tax_included && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Impuestos incluidos en el precio</span>
+                      <span>${taxes.tax_included.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <CouponField />
                   <Separator />
                   <div className="flex justify-between text-lg font-bold">
-                    <span>Total</span>
-                    <span className="text-primary">${total.toFixed(2)}</span>
+                    <span>Total{coupon?.discount_type !== 'free_shipping' && ' sin envío'}</span>
+                    <span className="text-primary">${(total - discount + addedTax).toFixed(2)}</span>
                   </div>
                 </CardContent>
                 <CardFooter>
@@ -1,9 +1,14 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Header } from '@/components/layout/Header';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useOrder, usePlaceOrder } from '@/api/orders';
+import { usePayOrder } from '@/api/payments';
+import { useCartTaxes, useShippingOptions } from '@/api/cart';
+import { useStoreSettings } from '@/api/settings';
+import { getPostgrestError } from '@/api/queryClient';
+import { useDebounce } from '@/hooks/use-debounce';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -11,18 +16,31 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Separator } from '@/components/ui/separator';
-import { CreditCard, Banknote, Truck, CheckCircle2, Loader2, ShieldCheck } from 'lucide-react';
+import { CreditCard, Banknote, Landmark, Truck, CheckCircle2, Loader2, ShieldCheck } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
+import { PaymentMethod, StockShortage } from '@/types';
+import { CartChangesAlert } from '@/components/cart/CartChangesAlert';
+import { CouponField } from '@/components/cart/CouponField';
+import { CardFieldsHandle, MockCardFields } from '@/components/payments/MockCardFields';
+import { MockChallengeDialog } from '@/components/payments/MockChallengeDialog';
+import { TransferInstructions } from '@/components/payments/TransferInstructions';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { getCartItemImage, getCartItemPrice, hasPriceChanged } from '@/lib/cart';
+import { formatShippingCost } from '@/lib/shipping';
+import { CardToken, PAYMENT_FAILURE_MESSAGES } from '@/lib/payments';
 
 type CheckoutStep = 'shipping' | 'payment' | 'confirmation' | 'success';
 
 export default function Checkout() {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { items, total, clearCart } = useCart();
+  const { items, total, discount, coupon, cartId, priceChanges, refreshCart } = useCart();
+  const placeOrder = usePlaceOrder();
+  const payOrder = usePayOrder();
   const [step, setStep] = useState<CheckoutStep>('shipping');
   const [processing, setProcessing] = useState(false);
+  const [shortages, setShortages] = useState<StockShortage[]>([]);
   
   const [shippingData, setShippingData] = useState({
     fullName: '',
@@ -31,21 +49,37 @@ export default function Checkout() {
     phone: '',
     notes: ''
   });
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null);
+  const shippingCity = useDebounce(shippingData.city.trim(), 400);
+  const shippingOptionsQuery = useShippingOptions(cartId ?? undefined, shippingCity);
+  const shippingOptions = shippingOptionsQuery.data ?? [];
+  // Undefined when the chosen method is not offered for the current city or cart
+  const shippingOption = shippingOptions.find(option => option.method_id === shippingMethodId);
+  const shippingCost = shippingOption?.cost ?? 0;
+  const { data: taxes } = useCartTaxes(cartId ?? undefined, shippingCity || null);
+  const addedTax = taxes ? taxes.tax_total - taxes.tax_included : 0;
+  const orderTotal = total - discount + shippingCost + addedTax;
   
-  const [paymentMethod, setPaymentMethod] = useState('card');
-  const [cardData, setCardData] = useState({
-    number: '',
-    expiry: '',
-    cvv: '',
-    name: ''
-  });
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('card');
+  const { data: storeSettings } = useStoreSettings();
+  // Offered once the store has set up its bank details
+  const transferAvailable = !!storeSettings?.bank_iban;
+  const cardFieldsRef = useRef<CardFieldsHandle>(null);
+  // Only the gateway's token and what is needed to show the card
+  const [card, setCard] = useState<CardToken | null>(null);
+  const [tokenizing, setTokenizing] = useState(false);
+  // Set once a card order exists, so a failed payment is retried without placing it again
+  const [unpaidOrderId, setUnpaidOrderId] = useState<string | null>(null);
+  // Cash and transfer orders, to show what the customer has to pay and how
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
+  const { data: placedOrder } = useOrder(placedOrderId);
 
   if (!user) {
     navigate('/auth');
     return null;
   }
 
-  if (items.length === 0 && step !== 'success') {
+  if (items.length === 0 && step !== 'success' && !unpaidOrderId) {
     navigate('/cart');
     return null;
   }
@@ -56,65 +90,114 @@ export default function Checkout() {
       toast.error('Por favor completa todos los campos requeridos');
       return;
     }
+    if (!shippingOption) {
+      toast.error('Elige un método de envío');
+      return;
+    }
     setStep('payment');
   };
 
-  const handlePaymentSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (paymentMethod === 'card') {
-      if (!cardData.number || !cardData.expiry || !cardData.cvv || !cardData.name) {
-        toast.error('Por favor completa los datos de la tarjeta');
+  // Returns the token, or null when the card fields show an error
+  const tokenizeCard = async () => {
+    setTokenizing(true);
+    try {
+      const result = await cardFieldsRef.current?.tokenize();
+      if (!result || 'error' in result) return null;
+      setCard(result);
+      return result;
+    } finally {
+      setTokenizing(false);
+    }
+  };
+
+  // Declines leave the order unpaid and send the customer back to try another card
+  const chargeOrder = async (orderId: string, cardToken: CardToken) => {
+    try {
+      const result = await payOrder.mutateAsync({ orderId, card: cardToken });
+      if (result.status === 'captured') {
+        setUnpaidOrderId(null);
+        setStep('success');
+        toast.success('¡Compra realizada con éxito!');
         return;
       }
+      toast.error('No se pudo completar el pago', {
+        description: PAYMENT_FAILURE_MESSAGES[result.failureCode ?? 'invalid_request']
+      });
+    } catch (error) {
+      console.error('Error processing payment:', error);
+      toast.error('Error al procesar el pago. Inténtalo de nuevo.');
+    }
+    setCard(null);
+    setStep('payment');
+  };
+
+  const handlePaymentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (paymentMethod !== 'card') {
+      setStep('confirmation');
+      return;
+    }
+
+    const cardToken = await tokenizeCard();
+    if (!cardToken) return;
+
+    if (unpaidOrderId) {
+      setProcessing(true);
+      await chargeOrder(unpaidOrderId, cardToken);
+      setProcessing(false);
+      return;
     }
     setStep('confirmation');
   };
 
   const processOrder = async () => {
     setProcessing(true);
+    setShortages([]);
     
     try {
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Create the order
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          user_id: user.id,
-          total: total,
-          status: 'pending',
-          shipping_address: shippingData.address,
-          shipping_city: shippingData.city,
-          payment_method: paymentMethod,
-          notes: shippingData.notes || null
-        })
-        .select('id')
-        .single();
-      
-      if (orderError) throw orderError;
-      
-      // Create order items (stock will be reduced when order is completed by admin)
-      for (const item of items) {
-        await supabase
-          .from('order_items')
-          .insert({
-            order_id: order.id,
-            product_id: item.product_id,
-            product_name: item.products?.name || '',
-            product_price: item.products?.price || 0,
-            quantity: item.quantity,
-            subtotal: (item.products?.price || 0) * item.quantity
-          });
+      const orderId = await placeOrder.mutateAsync({
+        cartId,
+        shippingAddress: shippingData.address,
+        shippingCity: shippingData.city,
+        shippingMethodId: shippingMethodId!,
+        paymentMethod,
+        notes: shippingData.notes || null
+      });
+
+      if (paymentMethod === 'card' && card) {
+        setUnpaidOrderId(orderId);
+        await chargeOrder(orderId, card);
+        return;
       }
       
-      // Clear the cart
-      await clearCart();
-      
+      setPlacedOrderId(orderId);
       setStep('success');
       toast.success('¡Compra realizada con éxito!');
       
     } catch (error) {
+      const dbError = getPostgrestError(error);
+      if (dbError?.hint === 'insufficient_stock') {
+        setShortages(JSON.parse(dbError.details));
+        toast.error('Algunos productos ya no tienen stock suficiente');
+        return;
+      }
+      if (dbError?.hint === 'price_changed') {
+        // Reload the cart so the changed lines show up and can be accepted
+        await refreshCart();
+        toast.error('El precio de algunos productos ha cambiado. Revísalos antes de confirmar.');
+        return;
+      }
+      if (dbError?.hint === 'invalid_shipping_method') {
+        await refreshCart();
+        toast.error(dbError.message);
+        setStep('shipping');
+        return;
+      }
+      if (dbError?.hint === 'invalid_coupon') {
+        await refreshCart();
+        toast.error('No se pudo aplicar el cupón', { description: dbError.message });
+        return;
+      }
       console.error('Error processing order:', error);
       toast.error('Error al procesar el pedido. Inténtalo de nuevo.');
     } finally {
@@ -122,22 +205,10 @@ export default function Checkout() {
     }
   };
 
-  const formatCardNumber = (value: string) => {
-    const numbers = value.replace(/\D/g, '');
-    return numbers.replace(/(\d{4})(?=\d)/g, '$1 ').slice(0, 19);
-  };
-
-  const formatExpiry = (value: string) => {
-    const numbers = value.replace(/\D/g, '');
-    if (numbers.length >= 2) {
-      return numbers.slice(0, 2) + '/' + numbers.slice(2, 4);
-    }
-    return numbers;
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Header />
+      <MockChallengeDialog />
       <div className="container py-8 max-w-4xl">
         {/* Progress Steps */}
         <div className="flex items-center justify-center mb-8">
@@ -231,6 +302,42 @@ export default function Checkout() {
                         required
                       />
                     </div>
+
+                    <div className="space-y-2">
+                      <Label>Método de envío *</Label>
+                      {!shippingCity ? (
+                        <p className="text-sm text-muted-foreground">Escribe tu ciudad para ver las opciones de envío.</p>
+                      ) : shippingOptionsQuery.isPending || shippingCity !== shippingData.city.trim() ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Calculando envío...
+                        </div>
+                      ) : shippingOptions.length === 0 ? (
+                        <p className="text-sm text-destructive">Todavía no realizamos envíos a esta ciudad.</p>
+                      ) : (
+                        <RadioGroup value={shippingMethodId ?? ''} onValueChange={setShippingMethodId}>
+                          {shippingOptions.map(option => (
+                            <div
+                              key={option.method_id}
+                              className="flex items-center space-x-3 p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+                            >
+                              <RadioGroupItem value={option.method_id} id={`shipping-${option.method_id}`} />
+                              <Label htmlFor={`shipping-${option.method_id}`} className="flex flex-1 items-center justify-between gap-2 cursor-pointer">
+                                <span>
+                                  <span className="block">{option.name}</span>
+                                  {option.estimated_days && (
+                                    <span className="block text-xs font-normal text-muted-foreground">{option.estimated_days}</span>
+                                  )}
+                                </span>
+                                <span className={option.cost > 0 ? 'font-semibold' : 'font-semibold text-success'}>
+                                  {formatShippingCost(option.cost)}
+                                </span>
+                              </Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      )}
+                    </div>
                     
                     <div className="space-y-2">
                       <Label htmlFor="notes">Notas adicionales</Label>
@@ -273,87 +380,79 @@ export default function Checkout() {
                 </CardHeader>
                 <form onSubmit={handlePaymentSubmit}>
                   <CardContent className="space-y-6">
-                    <RadioGroup value={paymentMethod} onValueChange={setPaymentMethod}>
-                      <div className="flex items-center space-x-3 p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors">
-                        <RadioGroupItem value="card" id="card" />
-                        <Label htmlFor="card" className="flex items-center gap-2 cursor-pointer flex-1">
-                          <CreditCard className="h-5 w-5" />
-                          Tarjeta de crédito/débito
-                        </Label>
-                      </div>
-                      <div className="flex items-center space-x-3 p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors">
-                        <RadioGroupItem value="cash" id="cash" />
-                        <Label htmlFor="cash" className="flex items-center gap-2 cursor-pointer flex-1">
-                          <Banknote className="h-5 w-5" />
-                          Pago contra entrega
-                        </Label>
-                      </div>
-                    </RadioGroup>
+                    {unpaidOrderId ? (
+                      <Alert>
+                        <CreditCard className="h-4 w-4" />
+                        <AlertTitle>Tu pedido está registrado pero falta el pago</AlertTitle>
+                        <AlertDescription>
+                          Prueba con otra tarjeta. Si prefieres no continuar, puedes cancelar el pedido desde Mis pedidos.
+                        </AlertDescription>
+                      </Alert>
+                    ) : (
+                      <RadioGroup value={paymentMethod} onValueChange={value => setPaymentMethod(value as PaymentMethod)}>
+                        <div className="flex items-center space-x-3 p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors">
+                          <RadioGroupItem value="card" id="card" />
+                          <Label htmlFor="card" className="flex items-center gap-2 cursor-pointer flex-1">
+                            <CreditCard className="h-5 w-5" />
+                            Tarjeta de crédito/débito
+                          </Label>
+                        </div>
+                        <div className="flex items-center space-x-3 p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors">
+                          <RadioGroupItem value="cash" id="cash" />
+                          <Label htmlFor="cash" className="flex items-center gap-2 cursor-pointer flex-1">
+                            <Banknote className="h-5 w-5" />
+                            Pago contra entrega
+                          </Label>
+                        </div>
+                        {transferAvailable && (
+                          <div className="flex items-center space-x-3 p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors">
+                            <RadioGroupItem value="transfer" id="transfer" />
+                            <Label htmlFor="transfer" className="flex items-center gap-2 cursor-pointer flex-1">
+                              <Landmark className="h-5 w-5" />
+                              Transferencia bancaria
+                            </Label>
+                          </div>
+                        )}
+                      </RadioGroup>
+                    )}
+
+                    {paymentMethod === 'cash' && (
+                      <p className="text-sm text-muted-foreground">
+                        Pagarás ${orderTotal.toFixed(2)} en efectivo al recibir el pedido.
+                      </p>
+                    )}
+
+                    {paymentMethod === 'transfer' && storeSettings && (
+                      <p className="text-sm text-muted-foreground">
+                        Al confirmar te daremos los datos bancarios y la referencia del pedido. Lo prepararemos en cuanto
+                        recibamos la transferencia; si no llega en {storeSettings.transfer_deadline_hours} horas, se
+                        cancelará.
+                      </p>
+                    )}
 
                     {paymentMethod === 'card' && (
                       <motion.div
                         initial={{ opacity: 0, height: 0 }}
                         animate={{ opacity: 1, height: 'auto' }}
-                        className="space-y-4 pt-4 border-t"
+                        className={unpaidOrderId ? '' : 'pt-4 border-t'}
                       >
-                        <div className="space-y-2">
-                          <Label htmlFor="cardNumber">Número de tarjeta</Label>
-                          <Input
-                            id="cardNumber"
-                            value={cardData.number}
-                            onChange={e => setCardData({ ...cardData, number: formatCardNumber(e.target.value) })}
-                            placeholder="1234 5678 9012 3456"
-                            maxLength={19}
-                          />
-                        </div>
-                        
-                        <div className="grid grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="expiry">Fecha de expiración</Label>
-                            <Input
-                              id="expiry"
-                              value={cardData.expiry}
-                              onChange={e => setCardData({ ...cardData, expiry: formatExpiry(e.target.value) })}
-                              placeholder="MM/YY"
-                              maxLength={5}
-                            />
-                          </div>
-                          <div className="space-y-2">
-                            <Label htmlFor="cvv">CVV</Label>
-                            <Input
-                              id="cvv"
-                              value={cardData.cvv}
-                              onChange={e => setCardData({ ...cardData, cvv: e.target.value.replace(/\D/g, '').slice(0, 4) })}
-                              placeholder="123"
-                              maxLength={4}
-                              type="password"
-                            />
-                          </div>
-                        </div>
-                        
-                        <div className="space-y-2">
-                          <Label htmlFor="cardName">Nombre en la tarjeta</Label>
-                          <Input
-                            id="cardName"
-                            value={cardData.name}
-                            onChange={e => setCardData({ ...cardData, name: e.target.value.toUpperCase() })}
-                            placeholder="JUAN PEREZ"
-                          />
-                        </div>
-                        
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">
-                          <ShieldCheck className="h-4 w-4 text-success" />
-                          <span>Este es un pago simulado. No se realizará ningún cargo real.</span>
-                        </div>
+                        <MockCardFields ref={cardFieldsRef} />
                       </motion.div>
                     )}
                   </CardContent>
                   <CardFooter className="flex justify-between">
-                    <Button type="button" variant="outline" onClick={() => setStep('shipping')}>
-                      Atrás
-                    </Button>
-                    <Button type="submit">
-                      Revisar pedido
+                    {unpaidOrderId ? (
+                      <Button type="button" variant="outline" onClick={() => navigate('/orders')} disabled={processing}>
+                        Ver mis pedidos
+                      </Button>
+                    ) : (
+                      <Button type="button" variant="outline" onClick={() => setStep('shipping')}>
+                        Atrás
+                      </Button>
+                    )}
+                    <Button type="submit" disabled={tokenizing || processing} className="gap-2">
+                      {(tokenizing || processing) && <Loader2 className="h-4 w-4 animate-spin" />}
+                      {unpaidOrderId ? 'Pagar pedido' : 'Revisar pedido'}
                     </Button>
                   </CardFooter>
                 </form>
@@ -370,29 +469,48 @@ export default function Checkout() {
               exit={{ opacity: 0, x: -20 }}
               className="space-y-6"
             >
+              <CartChangesAlert />
+
               <Card>
                 <CardHeader>
                   <CardTitle>Resumen del Pedido</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {items.map(item => (
-                    <div key={item.id} className="flex gap-4 items-center">
-                      <img
-                        src={item.products?.image_url || '/placeholder.svg'}
-                        alt={item.products?.name}
-                        className="w-16 h-16 object-cover rounded"
-                      />
-                      <div className="flex-1">
-                        <p className="font-medium">{item.products?.name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Cantidad: {item.quantity} × ${item.products?.price.toFixed(2)}
+                  {items.map(item => {
+                    const shortage = shortages.find(s => s.product_id === item.product_id && s.variant_id === item.variant_id);
+                    return (
+                      <div key={item.id} className="flex gap-4 items-center">
+                        <img
+                          src={getCartItemImage(item)}
+                          alt={item.products?.name}
+                          className="w-16 h-16 object-cover rounded"
+                        />
+                        <div className="flex-1">
+                          <p className="font-medium">{item.products?.name}</p>
+                          {item.product_variants && (
+                            <p className="text-sm text-muted-foreground">{item.product_variants.title}</p>
+                          )}
+                          <p className="text-sm text-muted-foreground">
+                            Cantidad: {item.quantity} ×{' '}
+                            {hasPriceChanged(item) && (
+                              <span className="line-through mr-1">${item.unit_price.toFixed(2)}</span>
+                            )}
+                            ${getCartItemPrice(item).toFixed(2)}
+                          </p>
+                          {shortage && (
+                            <p className="text-sm text-destructive">
+                              {shortage.available > 0
+                                ? `Solo quedan ${shortage.available} unidades. Ajusta la cantidad en el carrito.`
+                                : 'Producto agotado. Elimínalo del carrito para continuar.'}
+                            </p>
+                          )}
+                        </div>
+                        <p className="font-semibold">
+                          ${(getCartItemPrice(item) * item.quantity).toFixed(2)}
                         </p>
                       </div>
-                      <p className="font-semibold">
-                        ${((item.products?.price || 0) * item.quantity).toFixed(2)}
-                      </p>
-                    </div>
-                  ))}
+                    );
+                  })}
                   
                   <Separator />
                   
@@ -401,14 +519,35 @@ export default function Checkout() {
                       <span>Subtotal</span>
                       <span>${total.toFixed(2)}</span>
                     </div>
+                    {discount > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span>Descuento ({coupon?.code})</span>
+                        <span className="text-success">-${discount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
-                      <span>Envío</span>
-                      <span className="text-success">Gratis</span>
+                      <span>Envío{shippingOption && ` (${shippingOption.name})`}</span>
+                      <span className={shippingCost > 0 ? '' : 'text-success'}>
+                        {shippingOption ? formatShippingCost(shippingCost) : '—'}
+                      </span>
                     </div>
+                    {addedTax > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span>Impuestos</span>
+                        <span>${addedTax.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {!!taxes?.tax_included && (
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <span>Impuestos incluidos en el precio</span>
+                        <span>${taxes.tax_included.toFixed(2)}</span>
+                      </div>
+                    )}
+                    <CouponField />
                     <Separator />
                     <div className="flex justify-between text-lg font-bold">
                       <span>Total</span>
-                      <span className="text-primary">${total.toFixed(2)}</span>
+                      <span className="text-primary">${orderTotal.toFixed(2)}</span>
                     </div>
                   </div>
                 </CardContent>
@@ -422,8 +561,16 @@ export default function Checkout() {
                   <p><strong>Nombre:</strong> {shippingData.fullName}</p>
                   <p><strong>Dirección:</strong> {shippingData.address}</p>
                   <p><strong>Ciudad:</strong> {shippingData.city}</p>
+                  <p><strong>Envío:</strong> {shippingOption?.name ?? 'No disponible'}</p>
                   {shippingData.phone && <p><strong>Teléfono:</strong> {shippingData.phone}</p>}
-                  <p><strong>Método de pago:</strong> {paymentMethod === 'card' ? 'Tarjeta de crédito/débito' : 'Pago contra entrega'}</p>
+                  <p>
+                    <strong>Método de pago:</strong>{' '}
+                    {paymentMethod === 'card'
+                      ? `Tarjeta ${card ? `${card.brand} •••• ${card.last4}` : 'de crédito/débito'}`
+                      : paymentMethod === 'transfer'
+                        ? 'Transferencia bancaria'
+                        : 'Pago contra entrega'}
+                  </p>
                 </CardContent>
               </Card>
 
@@ -431,7 +578,18 @@ export default function Checkout() {
                 <Button variant="outline" onClick={() => setStep('payment')} disabled={processing}>
                   Atrás
                 </Button>
-                <Button onClick={processOrder} disabled={processing} size="lg" className="gap-2">
+                <Button
+                  onClick={processOrder}
+                  disabled={
+                    processing ||
+                    priceChanges.length > 0 ||
+                    !!coupon?.error ||
+                    !shippingOption ||
+                    (paymentMethod === 'card' && !card)
+                  }
+                  size="lg"
+                  className="gap-2"
+                >
                   {processing ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
@@ -465,10 +623,25 @@ export default function Checkout() {
                 <CheckCircle2 className="h-12 w-12 text-success" />
               </motion.div>
               
-              <h1 className="text-3xl font-display font-bold mb-4">¡Compra Exitosa!</h1>
+              <h1 className="text-3xl font-display font-bold mb-4">
+                {paymentMethod === 'transfer' ? '¡Pedido Reservado!' : '¡Compra Exitosa!'}
+              </h1>
               <p className="text-muted-foreground mb-8 max-w-md mx-auto">
-                Tu pedido ha sido confirmado y está siendo procesado. Recibirás un correo con los detalles de tu compra.
+                {paymentMethod === 'transfer'
+                  ? 'Guardamos tus productos hasta recibir la transferencia. Recibirás un correo con los detalles de tu compra.'
+                  : 'Tu pedido ha sido confirmado y está siendo procesado. Recibirás un correo con los detalles de tu compra.'}
               </p>
+
+              {placedOrder?.payment_method === 'transfer' && (
+                <div className="max-w-md mx-auto mb-8">
+                  <TransferInstructions order={placedOrder} />
+                </div>
+              )}
+              {placedOrder?.amount_to_collect != null && (
+                <p className="font-medium mb-8">
+                  Importe a pagar en la entrega: ${placedOrder.amount_to_collect.toFixed(2)}
+                </p>
+              )}
               
               <div className="flex gap-4 justify-center">
                 <Button variant="outline" onClick={() => navigate('/orders')}>
@@ -1,70 +1,164 @@
-import { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
-import { Product, Category } from '@/types';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigationType, useSearchParams } from 'react-router-dom';
 import { Header } from '@/components/layout/Header';
 import { ProductCard } from '@/components/products/ProductCard';
+import { CatalogFilterPanel } from '@/components/products/CatalogFilterPanel';
+import { ProductCardSkeleton } from '@/components/products/ProductCardSkeleton';
+import {
+  CATALOG_SORT_LABELS,
+  CatalogFilters,
+  CatalogSort,
+  hasActiveFilters,
+  parseCatalogFilters,
+  serializeCatalogFilters
+} from '@/lib/catalogFilters';
+import { saveCatalogPosition, takeCatalogPosition } from '@/lib/catalogScroll';
+import { getPageCount, getPageItems } from '@/lib/pagination';
+import {
+  CATALOG_PAGE_SIZE,
+  useCatalogInfinite,
+  useCatalogPage,
+  useCategories,
+  useCategoryCounts,
+  usePriceBounds,
+  useSearchResults
+} from '@/api/catalog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Skeleton } from '@/components/ui/skeleton';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
 import { motion } from 'framer-motion';
-import { ArrowRight, Sparkles } from 'lucide-react';
+import { ArrowRight, Loader2, SlidersHorizontal, Sparkles } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
+const MODE_STORAGE_KEY = 'nexoshop:catalog-mode';
+
+type CatalogMode = 'infinite' | 'pages';
+
 export default function Index() {
-  const [searchParams] = useSearchParams();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<string>('featured');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [mode, setMode] = useState<CatalogMode>(() =>
+    localStorage.getItem(MODE_STORAGE_KEY) === 'pages' ? 'pages' : 'infinite'
+  );
+  const navigationType = useNavigationType();
+  const gridRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // All filter and sort state lives in the URL so filtered views can be shared and reloaded
+  const filters = parseCatalogFilters(searchParams);
+  const filtersKey = serializeCatalogFilters(filters).toString();
+  const searchQuery = filters.search;
+  const filtering = hasActiveFilters(filters);
+  const page = mode === 'pages' ? Math.max(1, Number(searchParams.get('page')) || 1) : 1;
+  const viewKey = `${filtersKey}|${mode}|${page}`;
+
+  const { data: categories = [] } = useCategories();
+  const { data: priceBounds = [0, 0] } = usePriceBounds();
+  const { data: categoryCounts = {} } = useCategoryCounts(filters);
+  const { data: searchResults } = useSearchResults(searchQuery);
+  const infiniteQuery = useCatalogInfinite(filters, mode === 'infinite');
+  const pageQuery = useCatalogPage(filters, page, mode === 'pages');
+
+  const highlights = searchResults?.highlights ?? {};
+  const products = mode === 'infinite'
+    ? infiniteQuery.data?.pages.flatMap(result => result.products) ?? []
+    : pageQuery.data?.products ?? [];
+  const totalCount = (mode === 'infinite' ? infiniteQuery.data?.pages[0]?.count : pageQuery.data?.count) ?? 0;
+  const loading = mode === 'infinite' ? infiniteQuery.isPending : pageQuery.isPending;
+  const loadingMore = infiniteQuery.isFetchingNextPage;
+  const pageCount = getPageCount(totalCount, CATALOG_PAGE_SIZE);
+  const hasMore = mode === 'infinite' && infiniteQuery.hasNextPage;
+
+  const updateFilters = (changes: Partial<CatalogFilters>) => {
+    setSearchParams(serializeCatalogFilters({ ...filters, ...changes }), { replace: true });
+  };
 
-  const searchQuery = searchParams.get('search') || '';
+  const resetFilters = () => {
+    setSearchParams(serializeCatalogFilters({
+      ...filters,
+      categories: [],
+      minPrice: null,
+      maxPrice: null,
+      inStock: false,
+      featured: false
+    }), { replace: true });
+  };
+
+  // Coming back from a product page: the loaded products are still cached, so only the scroll is restored
+  const [savedPosition] = useState(() => (navigationType === 'POP' ? takeCatalogPosition(viewKey) : null));
+  const positionRestored = useRef(false);
+  useEffect(() => {
+    if (loading || !savedPosition || positionRestored.current) return;
+    positionRestored.current = true;
+    requestAnimationFrame(() => window.scrollTo(0, savedPosition.scrollY));
+  }, [loading, savedPosition]);
 
+  // Remember where the user was so coming back from a product lands on the same spot
+  const viewKeyRef = useRef(viewKey);
+  viewKeyRef.current = viewKey;
   useEffect(() => {
-    fetchCategories();
+    return () => saveCatalogPosition({ key: viewKeyRef.current, scrollY: window.scrollY });
   }, []);
 
+  const loadMore = () => {
+    if (hasMore && !infiniteQuery.isFetching) infiniteQuery.fetchNextPage();
+  };
+  const loadMoreRef = useRef(loadMore);
+  loadMoreRef.current = loadMore;
   useEffect(() => {
-    fetchProducts();
-  }, [selectedCategory, sortBy, searchQuery]);
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
 
-  const fetchCategories = async () => {
-    const { data } = await supabase.from('categories').select('*');
-    if (data) setCategories(data);
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) loadMoreRef.current();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, products.length]);
+
+  const goToPage = (nextPage: number) => {
+    const params = serializeCatalogFilters(filters);
+    if (nextPage > 1) params.set('page', String(nextPage));
+    setSearchParams(params);
+    gridRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const getPageHref = (target: number) => {
+    const params = serializeCatalogFilters(filters);
+    if (target > 1) params.set('page', String(target));
+    const query = params.toString();
+    return query ? `?${query}` : '/';
   };
 
-  const fetchProducts = async () => {
-    setLoading(true);
-    let query = supabase.from('products').select('*, categories(*)');
-
-    if (selectedCategory !== 'all') {
-      query = query.eq('category_id', selectedCategory);
-    }
-
-    if (searchQuery) {
-      query = query.ilike('name', `%${searchQuery}%`);
-    }
-
-    switch (sortBy) {
-      case 'price-asc':
-        query = query.order('price', { ascending: true });
-        break;
-      case 'price-desc':
-        query = query.order('price', { ascending: false });
-        break;
-      case 'name':
-        query = query.order('name', { ascending: true });
-        break;
-      default:
-        query = query.order('featured', { ascending: false }).order('created_at', { ascending: false });
-    }
-
-    const { data } = await query;
-    if (data) setProducts(data);
-    setLoading(false);
+  const changeMode = (nextMode: CatalogMode) => {
+    localStorage.setItem(MODE_STORAGE_KEY, nextMode);
+    setMode(nextMode);
+    setSearchParams(serializeCatalogFilters(filters), { replace: true });
   };
 
+  const filterPanel = (
+    <CatalogFilterPanel
+      filters={filters}
+      onChange={updateFilters}
+      onReset={resetFilters}
+      categories={categories}
+      categoryCounts={categoryCounts}
+      priceBounds={priceBounds}
+    />
+  );
+
   const featuredProducts = products.filter(p => p.featured).slice(0, 4);
 
   return (
@@ -72,7 +166,7 @@ export default function Index() {
       <Header />
 
       {/* Hero Section */}
-      {!searchQuery && selectedCategory === 'all' && (
+      {!searchQuery && !filtering && (
         <section className="relative overflow-hidden py-16 md:py-24" style={{ background: 'var(--gradient-hero)' }}>
           <div className="container relative z-10">
             <motion.div
@@ -102,7 +196,7 @@ export default function Index() {
       )}
 
       {/* Categories */}
-      {!searchQuery && selectedCategory === 'all' && categories.length > 0 && (
+      {!searchQuery && !filtering && categories.length > 0 && (
         <section className="py-12 border-b">
           <div className="container">
             <h2 className="text-2xl font-display font-bold mb-6">Categorías</h2>
@@ -110,7 +204,7 @@ export default function Index() {
               {categories.map((category) => (
                 <motion.button
                   key={category.id}
-                  onClick={() => setSelectedCategory(category.id)}
+                  onClick={() => updateFilters({ categories: [category.id] })}
                   className="category-card aspect-[4/3]"
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
@@ -133,65 +227,153 @@ export default function Index() {
       {/* Products Section */}
       <section id="productos" className="py-12">
         <div className="container">
-          {/* Filters */}
           <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
             <div>
               <h2 className="text-2xl font-display font-bold">
                 {searchQuery ? `Resultados para "${searchQuery}"` : 'Todos los Productos'}
               </h2>
-              <p className="text-muted-foreground">{products.length} productos encontrados</p>
+              <p className="text-muted-foreground">{totalCount} productos encontrados</p>
             </div>
             <div className="flex flex-wrap gap-3">
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
-                <SelectTrigger className="w-[180px]">
-                  <SelectValue placeholder="Categoría" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">Todas las categorías</SelectItem>
-                  {categories.map((cat) => (
-                    <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Select value={sortBy} onValueChange={setSortBy}>
-                <SelectTrigger className="w-[180px]">
+              {/* Mobile Filters */}
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="outline" className="gap-2 lg:hidden">
+                    <SlidersHorizontal className="h-4 w-4" />
+                    Filtros
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="w-80 overflow-y-auto">
+                  <SheetHeader className="sr-only">
+                    <SheetTitle>Filtros</SheetTitle>
+                  </SheetHeader>
+                  <div className="mt-6">{filterPanel}</div>
+                </SheetContent>
+              </Sheet>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={mode}
+                onValueChange={value => value && changeMode(value as CatalogMode)}
+                aria-label="Modo de navegación"
+              >
+                <ToggleGroupItem value="infinite" className="px-3 text-sm">Continuo</ToggleGroupItem>
+                <ToggleGroupItem value="pages" className="px-3 text-sm">Páginas</ToggleGroupItem>
+              </ToggleGroup>
+              <Select value={filters.sort} onValueChange={value => updateFilters({ sort: value as CatalogSort })}>
+                <SelectTrigger className="w-[200px]">
                   <SelectValue placeholder="Ordenar por" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="featured">Destacados</SelectItem>
-                  <SelectItem value="price-asc">Precio: menor a mayor</SelectItem>
-                  <SelectItem value="price-desc">Precio: mayor a menor</SelectItem>
-                  <SelectItem value="name">Nombre A-Z</SelectItem>
+                  {(Object.keys(CATALOG_SORT_LABELS) as CatalogSort[])
+                    .filter(sort => sort !== 'relevance' || searchQuery)
+                    .map(sort => (
+                      <SelectItem key={sort} value={sort}>{CATALOG_SORT_LABELS[sort]}</SelectItem>
+                    ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
-          {/* Products Grid */}
-          {loading ? (
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6">
-              {Array.from({ length: 8 }).map((_, i) => (
-                <div key={i} className="space-y-3">
-                  <Skeleton className="aspect-square rounded-2xl" />
-                  <Skeleton className="h-4 w-3/4" />
-                  <Skeleton className="h-4 w-1/2" />
+          <div className="grid lg:grid-cols-[240px_1fr] gap-8">
+            {/* Filters */}
+            <aside className="hidden lg:block">{filterPanel}</aside>
+
+            {/* Products Grid */}
+            <div ref={gridRef} className="scroll-mt-24">
+              {loading ? (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 md:gap-6">
+                  {Array.from({ length: 6 }).map((_, i) => (
+                    <ProductCardSkeleton key={i} />
+                  ))}
                 </div>
-              ))}
-            </div>
-          ) : products.length === 0 ? (
-            <div className="text-center py-16">
-              <p className="text-xl text-muted-foreground">No se encontraron productos</p>
-              <Button variant="outline" onClick={() => { setSelectedCategory('all'); }} className="mt-4">
-                Ver todos los productos
-              </Button>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6">
-              {products.map((product) => (
-                <ProductCard key={product.id} product={product} />
-              ))}
+              ) : products.length === 0 ? (
+                <div className="text-center py-16">
+                  <p className="text-xl text-muted-foreground">No se encontraron productos</p>
+                  {filtering && (
+                    <Button variant="outline" onClick={resetFilters} className="mt-4">
+                      Quitar filtros
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4 md:gap-6">
+                    {products.map((product) => (
+                      <ProductCard key={product.id} product={product} highlight={highlights[product.id]} />
+                    ))}
+                    {loadingMore && Array.from({ length: 3 }).map((_, i) => (
+                      <ProductCardSkeleton key={`more-${i}`} />
+                    ))}
+                  </div>
+
+                  {mode === 'infinite' ? (
+                    <div ref={sentinelRef} className="flex justify-center py-8">
+                      {hasMore ? (
+                        <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                          {loadingMore ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Cargando...
+                            </>
+                          ) : (
+                            'Cargar más'
+                          )}
+                        </Button>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">Has visto todos los productos</p>
+                      )}
+                    </div>
+                  ) : pageCount > 1 && (
+                    <Pagination className="mt-8">
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href={getPageHref(page - 1)}
+                            aria-disabled={page === 1}
+                            className={page === 1 ? 'pointer-events-none opacity-50' : undefined}
+                            onClick={e => {
+                              e.preventDefault();
+                              goToPage(page - 1);
+                            }}
+                          />
+                        </PaginationItem>
+                        {getPageItems(page, pageCount).map((item, index) => (
+                          <PaginationItem key={`${item}-${index}`}>
+                            {item === 'ellipsis' ? (
+                              <PaginationEllipsis />
+                            ) : (
+                              <PaginationLink
+                                href={getPageHref(item)}
+                                isActive={item === page}
+                                onClick={e => {
+                                  e.preventDefault();
+                                  goToPage(item);
+                                }}
+                              >
+                                {item}
+                              </PaginationLink>
+                            )}
+                          </PaginationItem>
+                        ))}
+                        <PaginationItem>
+                          <PaginationNext
+                            href={getPageHref(page + 1)}
+                            aria-disabled={page === pageCount}
+                            className={page === pageCount ? 'pointer-events-none opacity-50' : undefined}
+                            onClick={e => {
+                              e.preventDefault();
+                              goToPage(page + 1);
+                            }}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </section>
 
@@ -2,76 +2,60 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Header } from '@/components/layout/Header';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { CustomerOrder, useCancelOrder, useOrders } from '@/api/orders';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Package, Calendar, CreditCard, MapPin, Loader2 } from 'lucide-react';
+import { OrderStatusBadge } from '@/components/orders/OrderStatusBadge';
+import { OrderTimeline } from '@/components/orders/OrderTimeline';
+import { OrderBreakdown } from '@/components/orders/OrderBreakdown';
+import { ReturnRequestDialog } from '@/components/orders/ReturnRequestDialog';
+import { TransferInstructions } from '@/components/payments/TransferInstructions';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { isCancellableByCustomer, RETURN_STATUS_LABELS } from '@/lib/orderStatus';
+import { formatTaxRate } from '@/lib/tax';
+import { ORDER_PAYMENT_STATUS_LABELS, PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import { ReturnRequestStatus } from '@/types';
+import { Package, Calendar, CreditCard, MapPin, Loader2, RotateCcw, XCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
 
-interface OrderItem {
-  id: string;
-  product_name: string;
-  product_price: number;
-  quantity: number;
-  subtotal: number;
-}
-
-interface Order {
-  id: string;
-  created_at: string;
-  total: number;
-  status: string;
-  shipping_address: string | null;
-  shipping_city: string | null;
-  payment_method: string | null;
-  order_items: OrderItem[];
-}
-
 export default function Orders() {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: orders = [], isPending: loading } = useOrders(user?.id);
+  const cancelOrder = useCancelOrder(user?.id);
+  const [orderToCancel, setOrderToCancel] = useState<CustomerOrder | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [returnOrder, setReturnOrder] = useState<CustomerOrder | null>(null);
+  const cancelling = cancelOrder.isPending;
 
   useEffect(() => {
-    if (!authLoading) {
-      if (!user) {
-        navigate('/auth');
-      } else {
-        loadOrders();
-      }
-    }
+    if (!authLoading && !user) navigate('/auth');
   }, [user, authLoading, navigate]);
 
-  const loadOrders = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('*, order_items(*)')
-        .eq('user_id', user!.id)
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      setOrders(data || []);
-    } catch (error) {
-      console.error('Error loading orders:', error);
-    } finally {
-      setLoading(false);
-    }
+  const openCancelDialog = (order: CustomerOrder) => {
+    setOrderToCancel(order);
+    setCancelReason('');
+  };
+
+  const handleCancelOrder = () => {
+    if (!orderToCancel) return;
+    cancelOrder.mutate(
+      { orderId: orderToCancel.id, reason: cancelReason || null },
+      { onSuccess: () => setOrderToCancel(null) }
+    );
   };
 
-  const getStatusBadge = (status: string) => {
-    const config: Record<string, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label: string; className?: string }> = {
-      pending: { variant: 'outline', label: 'Pendiente' },
-      processing: { variant: 'secondary', label: 'En proceso' },
-      shipped: { variant: 'secondary', label: 'Enviado' },
-      delivered: { variant: 'default', label: 'Completado', className: 'bg-success text-success-foreground' },
-      cancelled: { variant: 'destructive', label: 'Cancelado' }
-    };
-    const { variant, label, className } = config[status] || { variant: 'outline', label: status };
-    return <Badge variant={variant} className={className}>{label}</Badge>;
+  const getRequestedQuantities = (order: CustomerOrder) => {
+    return order.return_requests
+      .filter(request => request.status !== 'rejected')
+      .reduce<Record<string, number>>((acc, request) => {
+        acc[request.order_item_id] = (acc[request.order_item_id] || 0) + request.quantity;
+        return acc;
+      }, {});
   };
 
   const formatDate = (dateStr: string) => {
@@ -134,7 +118,7 @@ export default function Orders() {
                         <CardTitle className="text-base font-medium">
                           Pedido #{order.id.slice(0, 8)}
                         </CardTitle>
-                        {getStatusBadge(order.status)}
+                        <OrderStatusBadge status={order.status} />
                       </div>
                     </CardHeader>
                     <CardContent>
@@ -145,7 +129,9 @@ export default function Orders() {
                         </div>
                         <div className="flex items-center gap-1">
                           <CreditCard className="h-4 w-4" />
-                          {order.payment_method === 'card' ? 'Tarjeta' : 'Contra entrega'}
+                          {PAYMENT_METHOD_LABELS[order.payment_method ?? 'card']}
+                          {' · '}
+                          {ORDER_PAYMENT_STATUS_LABELS[order.payment_status]}
                         </div>
                         {order.shipping_city && (
                           <div className="flex items-center gap-1">
@@ -155,6 +141,17 @@ export default function Orders() {
                         )}
                       </div>
 
+                      {order.status === 'pending' && order.payment_method === 'transfer' && order.payment_status === 'unpaid' && (
+                        <div className="mb-4">
+                          <TransferInstructions order={order} />
+                        </div>
+                      )}
+                      {order.status !== 'cancelled' && order.payment_status === 'unpaid' && order.amount_to_collect != null && (
+                        <p className="text-sm mb-4">
+                          Importe a pagar en la entrega: <strong>${order.amount_to_collect.toFixed(2)}</strong>
+                        </p>
+                      )}
+
                       <Accordion type="single" collapsible>
                         <AccordionItem value="items" className="border-0">
                           <AccordionTrigger className="py-2 text-sm hover:no-underline">
@@ -169,9 +166,25 @@ export default function Orders() {
                                 >
                                   <div>
                                     <p className="font-medium">{item.product_name}</p>
+                                    {item.variant_title && (
+                                      <p className="text-muted-foreground">{item.variant_title}</p>
+                                    )}
                                     <p className="text-muted-foreground">
                                       {item.quantity} × ${item.product_price.toFixed(2)}
                                     </p>
+                                    {item.tax_amount > 0 && (
+                                      <p className="text-muted-foreground">
+                                        Impuestos {formatTaxRate(item.tax_rate)}
+                                        {item.tax_inclusive && ' incluidos'}: ${item.tax_amount.toFixed(2)}
+                                      </p>
+                                    )}
+                                    {item.refunded_quantity > 0 && (
+                                      <p className="text-success">
+                                        {item.refunded_quantity === item.quantity
+                                          ? 'Reembolsado'
+                                          : `${item.refunded_quantity} de ${item.quantity} reembolsados`}
+                                      </p>
+                                    )}
                                   </div>
                                   <p className="font-medium">${item.subtotal.toFixed(2)}</p>
                                 </div>
@@ -179,14 +192,82 @@ export default function Orders() {
                             </div>
                           </AccordionContent>
                         </AccordionItem>
+                        <AccordionItem value="history" className="border-0">
+                          <AccordionTrigger className="py-2 text-sm hover:no-underline">
+                            Seguimiento del pedido
+                          </AccordionTrigger>
+                          <AccordionContent>
+                            <div className="pt-2">
+                              <OrderTimeline history={order.order_status_history} />
+                            </div>
+                          </AccordionContent>
+                        </AccordionItem>
                       </Accordion>
 
+                      {order.return_requests.length > 0 && (
+                        <div className="space-y-2 mt-4">
+                          <p className="text-sm font-medium">Devoluciones</p>
+                          {order.return_requests.map(request => {
+                            const item = order.order_items.find(i => i.id === request.order_item_id);
+                            return (
+                              <div key={request.id} className="flex justify-between items-start gap-4 text-sm">
+                                <div>
+                                  <p>{request.quantity} × {item?.product_name}{item?.variant_title && ` (${item.variant_title})`}</p>
+                                  {request.admin_note && (
+                                    <p className="text-muted-foreground">{request.admin_note}</p>
+                                  )}
+                                </div>
+                                <Badge variant={request.status === 'rejected' ? 'destructive' : request.status === 'approved' ? 'default' : 'outline'}>
+                                  {RETURN_STATUS_LABELS[request.status as ReturnRequestStatus] || request.status}
+                                </Badge>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+
+                      <OrderBreakdown order={order} />
+
                       <div className="flex justify-between items-center pt-4 border-t mt-4">
                         <span className="font-medium">Total</span>
                         <span className="text-xl font-bold text-primary">
                           ${order.total.toFixed(2)}
                         </span>
                       </div>
+                      {order.refunded_total > 0 && (
+                        <div className="space-y-1 pt-2 text-sm">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Reembolsado</span>
+                            <span className="text-success">-${order.refunded_total.toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between font-medium">
+                            <span>Total pagado</span>
+                            <span>${(order.total - order.refunded_total).toFixed(2)}</span>
+                          </div>
+                        </div>
+                      )}
+
+                      {(isCancellableByCustomer(order) || order.status === 'delivered') && (
+                        <div className="flex justify-end gap-2 pt-4">
+                          {isCancellableByCustomer(order) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="gap-2 text-destructive hover:text-destructive"
+                              onClick={() => openCancelDialog(order)}
+                            >
+                              <XCircle className="h-4 w-4" />
+                              Cancelar pedido
+                            </Button>
+                          )}
+                          {order.status === 'delivered' && (
+                            <Button variant="outline" size="sm" className="gap-2" onClick={() => setReturnOrder(order)}>
+                              <RotateCcw className="h-4 w-4" />
+                              Solicitar devolución
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -195,6 +276,52 @@ export default function Orders() {
           )}
         </motion.div>
       </div>
+
+      {/* Cancel Order Dialog */}
+      <AlertDialog open={!!orderToCancel} onOpenChange={open => !open && setOrderToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Cancelar pedido?</AlertDialogTitle>
+            <AlertDialogDescription>
+              El pedido #{orderToCancel?.id.slice(0, 8)} será cancelado y los productos volverán a estar disponibles.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Motivo (opcional)</Label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              onChange={e => setCancelReason(e.target.value)}
+              placeholder="Cuéntanos por qué cancelas"
+              rows={3}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelling}>Volver</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={e => {
+                e.preventDefault();
+                handleCancelOrder();
+              }}
+              disabled={cancelling}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancelar pedido
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {returnOrder && (
+        <ReturnRequestDialog
+          open={!!returnOrder}
+          onOpenChange={open => !open && setReturnOrder(null)}
+          orderId={returnOrder.id}
+          items={returnOrder.order_items}
+          requestedQuantities={getRequestedQuantities(returnOrder)}
+        />
+      )}
     </div>
   );
 }
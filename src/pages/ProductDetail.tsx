@@ -1,8 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import { Product } from '@/types';
+import { useProduct } from '@/api/products';
+import { findVariant, VariantSelection } from '@/lib/variants';
+import { cn } from '@/lib/utils';
 import { Header } from '@/components/layout/Header';
+import { GalleryImage, ProductGallery } from '@/components/products/ProductGallery';
 import { useCart } from '@/contexts/CartContext';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,33 +14,74 @@ import { ShoppingCart, Minus, Plus, ArrowLeft, Check } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 
+// Preselect the first variant that can be bought
+const getInitialSelection = (product: Product): VariantSelection => {
+  const variants = [...(product.product_variants || [])].sort((a, b) => a.position - b.position);
+  const initial = variants.find(v => v.stock > 0) || variants[0];
+  return initial ? { ...initial.options } : {};
+};
+
 export default function ProductDetail() {
   const { id } = useParams<{ id: string }>();
-  const [product, setProduct] = useState<Product | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data: product, isPending: loading } = useProduct(id);
   const [quantity, setQuantity] = useState(1);
+  const [selection, setSelection] = useState<VariantSelection>({});
+  const [selectionFor, setSelectionFor] = useState<string | null>(null);
   const { addItem } = useCart();
 
-  useEffect(() => {
-    if (id) fetchProduct();
-  }, [id]);
-
-  const fetchProduct = async () => {
-    const { data } = await supabase
-      .from('products')
-      .select('*, categories(*)')
-      .eq('id', id)
-      .single();
-    
-    if (data) setProduct(data);
-    setLoading(false);
+  // Reset the selection when another product is shown, but not when the same one is refetched
+  if (product && selectionFor !== product.id) {
+    setSelectionFor(product.id);
+    setSelection(getInitialSelection(product));
+  }
+
+  const optionTypes = [...(product?.product_option_types || [])].sort((a, b) => a.position - b.position);
+  const variants = product?.product_variants || [];
+  const selectedVariant = product?.has_variants ? findVariant(variants, selection) : undefined;
+  const price = selectedVariant?.price ?? product?.price ?? 0;
+  const stock = product?.has_variants ? selectedVariant?.stock ?? 0 : product?.stock ?? 0;
+
+  // Product images in order, followed by any variant image not already in the gallery
+  const galleryImages = useMemo<GalleryImage[]>(() => {
+    if (!product) return [];
+    const images = [...(product.product_images || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(image => ({ url: image.url, alt: image.alt_text || product.name }));
+    if (images.length === 0 && product.image_url) {
+      images.push({ url: product.image_url, alt: product.name });
+    }
+    [...(product.product_variants || [])]
+      .sort((a, b) => a.position - b.position)
+      .forEach(variant => {
+        if (variant.image_url && !images.some(image => image.url === variant.image_url)) {
+          images.push({ url: variant.image_url, alt: `${product.name} - ${variant.title}` });
+        }
+      });
+    return images;
+  }, [product]);
+  const activeImageIndex = selectedVariant?.image_url
+    ? galleryImages.findIndex(image => image.url === selectedVariant.image_url)
+    : -1;
+
+  const selectOption = (name: string, value: string) => {
+    setSelection({ ...selection, [name]: value });
+    setQuantity(1);
+  };
+
+  // Whether picking this value, keeping the rest of the selection, leads to a variant in stock
+  const isValueAvailable = (name: string, value: string) => {
+    const variant = findVariant(variants, { ...selection, [name]: value });
+    return !!variant && variant.stock > 0;
   };
 
   const handleAddToCart = () => {
-    if (product) {
-      addItem(product, quantity);
-      setQuantity(1);
+    if (!product) return;
+    if (product.has_variants && !selectedVariant) {
+      toast.error('Selecciona una opción disponible');
+      return;
     }
+    addItem(product, quantity, selectedVariant);
+    setQuantity(1);
   };
 
   if (loading) {
@@ -86,19 +130,13 @@ export default function ProductDetail() {
         </Link>
 
         <div className="grid md:grid-cols-2 gap-8 lg:gap-12">
-          {/* Product Image */}
+          {/* Product Images */}
           <motion.div
             initial={{ opacity: 0, x: -20 }}
             animate={{ opacity: 1, x: 0 }}
             className="relative"
           >
-            <div className="aspect-square rounded-2xl overflow-hidden bg-muted">
-              <img
-                src={product.image_url || '/placeholder.svg'}
-                alt={product.name}
-                className="w-full h-full object-cover"
-              />
-            </div>
+            <ProductGallery images={galleryImages} activeIndex={activeImageIndex} />
             {product.featured && (
               <Badge className="absolute top-4 left-4 bg-accent text-accent-foreground">
                 Destacado
@@ -120,7 +158,7 @@ export default function ProductDetail() {
             </div>
 
             <div className="flex items-baseline gap-4">
-              <span className="text-4xl font-bold text-primary">${product.price.toFixed(2)}</span>
+              <span className="text-4xl font-bold text-primary">${price.toFixed(2)}</span>
             </div>
 
             {product.description && (
@@ -129,22 +167,52 @@ export default function ProductDetail() {
               </div>
             )}
 
+            {/* Variant Picker */}
+            {product.has_variants && optionTypes.map(optionType => (
+              <div key={optionType.id} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {optionType.name}: <span className="text-muted-foreground">{selection[optionType.name] || 'Seleccionar'}</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {optionType.values.map(value => {
+                    const isSelected = selection[optionType.name] === value;
+                    const isAvailable = isValueAvailable(optionType.name, value);
+                    return (
+                      <Button
+                        key={value}
+                        type="button"
+                        variant={isSelected ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => selectOption(optionType.name, value)}
+                        className={cn('min-w-12', !isAvailable && 'line-through opacity-60')}
+                        aria-pressed={isSelected}
+                      >
+                        {value}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
             {/* Stock Status */}
             <div className="flex items-center gap-2">
-              {product.stock > 0 ? (
+              {stock > 0 ? (
                 <>
                   <Check className="h-4 w-4 text-success" />
                   <span className="text-sm text-success">
-                    {product.stock > 10 ? 'En stock' : `Solo ${product.stock} disponibles`}
+                    {stock > 10 ? 'En stock' : `Solo ${stock} disponibles`}
                   </span>
                 </>
               ) : (
-                <span className="text-sm text-destructive">Agotado</span>
+                <span className="text-sm text-destructive">
+                  {product.has_variants && !selectedVariant ? 'Combinación no disponible' : 'Agotado'}
+                </span>
               )}
             </div>
 
             {/* Quantity Selector */}
-            {product.stock > 0 && (
+            {stock > 0 && (
               <div className="flex items-center gap-4">
                 <span className="text-sm font-medium">Cantidad:</span>
                 <div className="flex items-center gap-2">
@@ -160,8 +228,8 @@ export default function ProductDetail() {
                   <Button
                     variant="outline"
                     size="icon"
-                    onClick={() => setQuantity(Math.min(product.stock, quantity + 1))}
-                    disabled={quantity >= product.stock}
+                    onClick={() => setQuantity(Math.min(stock, quantity + 1))}
+                    disabled={quantity >= stock}
                   >
                     <Plus className="h-4 w-4" />
                   </Button>
@@ -174,10 +242,10 @@ export default function ProductDetail() {
               size="lg"
               className="w-full gap-2"
               onClick={handleAddToCart}
-              disabled={product.stock === 0}
+              disabled={stock === 0}
             >
               <ShoppingCart className="h-5 w-5" />
-              {product.stock === 0 ? 'Agotado' : 'Agregar al carrito'}
+              {stock === 0 ? 'Agotado' : 'Agregar al carrito'}
             </Button>
           </motion.div>
         </div>
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { CartItem, Product } from "@/types";
+import { hasPriceChanged, hasStockShortage } from "@/lib/cart";
+
+const item = (changes: Partial<CartItem>, product: Partial<Product> = {}): CartItem =>
+  ({
+    id: "item",
+    product_id: "product",
+    variant_id: null,
+    quantity: 1,
+    unit_price: 10,
+    products: { id: "product", price: 10, stock: 5, ...product } as Product,
+    product_variants: null,
+    ...changes,
+  }) as CartItem;
+
+describe("cart line changes", () => {
+  it("flags a price change against the snapshot", () => {
+    expect(hasPriceChanged(item({}))).toBe(false);
+    expect(hasPriceChanged(item({}, { price: 12.5 }))).toBe(true);
+    expect(hasPriceChanged(item({ unit_price: 0.1 + 0.2 }, { price: 0.3 }))).toBe(false);
+  });
+
+  it("flags lines with more units than in stock", () => {
+    expect(hasStockShortage(item({ quantity: 5 }))).toBe(false);
+    expect(hasStockShortage(item({ quantity: 6 }))).toBe(true);
+    expect(hasStockShortage(item({ quantity: 1 }, { stock: 0 }))).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { getCatalogFilterClauses, parseCatalogFilters, serializeCatalogFilters } from "@/lib/catalogFilters";
+
+describe("catalog filters", () => {
+  it("round-trips through the URL", () => {
+    const params = new URLSearchParams("search=silla&category=a,b&min_price=10&max_price=99.5&in_stock=1&featured=1&sort=name");
+    const filters = parseCatalogFilters(params);
+
+    expect(filters).toEqual({
+      search: "silla",
+      categories: ["a", "b"],
+      minPrice: 10,
+      maxPrice: 99.5,
+      inStock: true,
+      featured: true,
+      sort: "name",
+    });
+    expect(serializeCatalogFilters(filters).toString()).toBe(params.toString());
+  });
+
+  it("defaults to relevance for searches and featured otherwise", () => {
+    expect(parseCatalogFilters(new URLSearchParams("search=lampara")).sort).toBe("relevance");
+    expect(parseCatalogFilters(new URLSearchParams("sort=relevance")).sort).toBe("featured");
+    expect(serializeCatalogFilters(parseCatalogFilters(new URLSearchParams("search=lampara"))).toString()).toBe("search=lampara");
+  });
+
+  it("ignores invalid values", () => {
+    const filters = parseCatalogFilters(new URLSearchParams("category=all&min_price=abc&sort=cheapest"));
+    expect(filters.categories).toEqual([]);
+    expect(filters.minPrice).toBeNull();
+    expect(filters.sort).toBe("featured");
+  });
+
+  it("builds PostgREST filters", () => {
+    const filters = parseCatalogFilters(new URLSearchParams("category=a,b&min_price=10&in_stock=1"));
+    expect(getCatalogFilterClauses(filters, ["x", "y"])).toEqual([
+      ["id", "in", "(x,y)"],
+      ["category_id", "in", "(a,b)"],
+      ["price", "gte", "10"],
+      ["stock", "gt", "0"],
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatCouponValue,
+  fromDateTimeInput,
+  getCouponStatus,
+  normalizeCouponCode,
+  toDateTimeInput,
+} from "@/lib/coupons";
+
+describe("coupons", () => {
+  const now = new Date("2026-02-01T12:00:00Z");
+
+  it("is only active inside its validity window", () => {
+    const window = { active: true, starts_at: "2026-01-01T00:00:00Z", ends_at: "2026-03-01T00:00:00Z" };
+    expect(getCouponStatus(window, now)).toBe("active");
+    expect(getCouponStatus({ ...window, starts_at: "2026-02-02T00:00:00Z" }, now)).toBe("scheduled");
+    expect(getCouponStatus({ ...window, ends_at: "2026-02-01T12:00:00Z" }, now)).toBe("expired");
+    expect(getCouponStatus({ ...window, active: false }, now)).toBe("inactive");
+    expect(getCouponStatus({ active: true, starts_at: null, ends_at: null }, now)).toBe("active");
+  });
+
+  it("formats the discount by type", () => {
+    expect(formatCouponValue({ discount_type: "percentage", discount_value: 15 })).toBe("15%");
+    expect(formatCouponValue({ discount_type: "fixed", discount_value: 5 })).toBe("$5.00");
+    expect(formatCouponValue({ discount_type: "free_shipping", discount_value: 0 })).toBe("Envío gratis");
+  });
+
+  it("normalizes codes the way they are stored", () => {
+    expect(normalizeCouponCode("  verano-10 ")).toBe("VERANO-10");
+  });
+
+  it("round-trips validity dates through the datetime input", () => {
+    const timestamp = "2026-02-01T12:30:00.000Z";
+    expect(fromDateTimeInput(toDateTimeInput(timestamp))).toBe(timestamp);
+    expect(toDateTimeInput(null)).toBe("");
+    expect(fromDateTimeInput("")).toBeNull();
+  });
+});
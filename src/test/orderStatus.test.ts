@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, getNextStatuses } from "@/lib/orderStatus";
+
+describe("order status transitions", () => {
+  it("follows the fulfilment sequence", () => {
+    expect(canTransition("pending", "processing")).toBe(true);
+    expect(canTransition("processing", "shipped")).toBe(true);
+    expect(canTransition("shipped", "delivered")).toBe(true);
+  });
+
+  it("only allows cancelling before shipping", () => {
+    expect(canTransition("pending", "cancelled")).toBe(true);
+    expect(canTransition("processing", "cancelled")).toBe(true);
+    expect(canTransition("shipped", "cancelled")).toBe(false);
+    expect(canTransition("delivered", "cancelled")).toBe(false);
+  });
+
+  it("does not skip states", () => {
+    expect(canTransition("pending", "delivered")).toBe(false);
+    expect(canTransition("pending", "shipped")).toBe(false);
+  });
+
+  it("treats delivered and cancelled as final", () => {
+    expect(getNextStatuses("delivered")).toEqual([]);
+    expect(getNextStatuses("cancelled")).toEqual([]);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { getPageCount, getPageItems } from "@/lib/pagination";
+
+describe("pagination", () => {
+  it("shows every page when there are few", () => {
+    expect(getPageItems(2, 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("collapses distant pages into ellipses", () => {
+    expect(getPageItems(10, 20)).toEqual([1, "ellipsis", 9, 10, 11, "ellipsis", 20]);
+    expect(getPageItems(1, 20)).toEqual([1, 2, "ellipsis", 20]);
+  });
+
+  it("fills a single gap instead of using an ellipsis", () => {
+    expect(getPageItems(4, 7)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("always has at least one page", () => {
+    expect(getPageCount(0, 12)).toBe(1);
+    expect(getPageCount(25, 12)).toBe(3);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { canConfirmPayment, formatIban, isAwaitingPayment, isValidCardNumber, isValidExpiry } from "@/lib/payments";
+import { createMockPaymentProvider, MOCK_TEST_CARDS } from "@/lib/mockPayments";
+
+const card = { expiry: "12/99", cvc: "123", name: "JUAN PEREZ" };
+
+const tokenFor = async (provider: ReturnType<typeof createMockPaymentProvider>, number: string) => {
+  const result = await provider.tokenizeCard({ ...card, number });
+  if ("error" in result) throw new Error(result.error);
+  return result.token;
+};
+
+describe("payments", () => {
+  it("validates card numbers and expiry dates", () => {
+    expect(isValidCardNumber(MOCK_TEST_CARDS.success)).toBe(true);
+    expect(isValidCardNumber("4242 4242 4242 4241")).toBe(false);
+    expect(isValidExpiry("01/30", new Date(2026, 0, 31))).toBe(true);
+    expect(isValidExpiry("12/25", new Date(2026, 0, 1))).toBe(false);
+    expect(isValidExpiry("13/30")).toBe(false);
+  });
+
+  it("only lets admins confirm cash once shipped and open transfers", () => {
+    expect(canConfirmPayment({ payment_method: "cash", payment_status: "unpaid", status: "pending" })).toBe(false);
+    expect(canConfirmPayment({ payment_method: "cash", payment_status: "unpaid", status: "delivered" })).toBe(true);
+    expect(canConfirmPayment({ payment_method: "transfer", payment_status: "unpaid", status: "pending" })).toBe(true);
+    expect(canConfirmPayment({ payment_method: "transfer", payment_status: "unpaid", status: "cancelled" })).toBe(false);
+    expect(canConfirmPayment({ payment_method: "transfer", payment_status: "paid", status: "processing" })).toBe(false);
+    expect(canConfirmPayment({ payment_method: "card", payment_status: "unpaid", status: "shipped" })).toBe(false);
+  });
+
+  it("holds every order but cash on delivery until it is paid", () => {
+    expect(isAwaitingPayment({ payment_method: "card", payment_status: "unpaid" })).toBe(true);
+    expect(isAwaitingPayment({ payment_method: "transfer", payment_status: "unpaid" })).toBe(true);
+    expect(isAwaitingPayment({ payment_method: "card", payment_status: "partially_refunded" })).toBe(false);
+    expect(isAwaitingPayment({ payment_method: "cash", payment_status: "unpaid" })).toBe(false);
+  });
+
+  it("groups IBANs in blocks of four", () => {
+    expect(formatIban("es9121000418450200051332")).toBe("ES91 2100 0418 4502 0005 1332");
+  });
+
+  it("tokenizes cards without exposing the number", async () => {
+    const provider = createMockPaymentProvider({ latencyMs: 0 });
+    const result = await provider.tokenizeCard({ ...card, number: MOCK_TEST_CARDS.success });
+    expect(result).toMatchObject({ brand: "visa", last4: "4242" });
+    expect(JSON.stringify(result)).not.toContain("42424242");
+    expect(await provider.tokenizeCard({ ...card, number: "1234" })).toHaveProperty("error");
+  });
+
+  it("gives the same outcome for the same test card", async () => {
+    const provider = createMockPaymentProvider({ latencyMs: 0 });
+    const authorize = async (number: string) =>
+      provider.authorize({ paymentId: "p1", amount: 10, currency: "usd", token: await tokenFor(provider, number) });
+
+    expect(await authorize(MOCK_TEST_CARDS.success)).toMatchObject({ status: "authorized" });
+    expect(await authorize(MOCK_TEST_CARDS.declined)).toMatchObject({ status: "failed", failureCode: "card_declined" });
+    expect(await authorize(MOCK_TEST_CARDS.insufficient_funds)).toMatchObject({ failureCode: "insufficient_funds" });
+
+    const first = await authorize(MOCK_TEST_CARDS.success);
+    const second = await authorize(MOCK_TEST_CARDS.success);
+    expect(first.reference).toBe(second.reference);
+    expect(await provider.capture(first.reference, 10)).toMatchObject({ status: "captured" });
+    expect(await provider.refund(first.reference, 5, "r1")).toMatchObject({ status: "refunded", reference: "re_mock_r1" });
+    expect(await provider.capture("pay_other_1", 10)).toMatchObject({ failureCode: "invalid_request" });
+  });
+
+  it("asks for a 3-D Secure challenge", async () => {
+    let approve = true;
+    const provider = createMockPaymentProvider({ latencyMs: 0, challenge: async () => approve });
+    const token = await tokenFor(provider, MOCK_TEST_CARDS.three_d_secure);
+    const pending = await provider.authorize({ paymentId: "p2", amount: 10, currency: "usd", token });
+
+    expect(pending.status).toBe("requires_action");
+    expect(await provider.authenticate(pending.reference)).toMatchObject({ status: "authorized" });
+    approve = false;
+    expect(await provider.authenticate(pending.reference)).toMatchObject({ failureCode: "authentication_failed" });
+  });
+
+  it("times out when the gateway does not answer", async () => {
+    const provider = createMockPaymentProvider({ latencyMs: 0, timeoutMs: 5 });
+    const token = await tokenFor(provider, MOCK_TEST_CARDS.timeout);
+    const result = await provider.authorize({ paymentId: "p3", amount: 10, currency: "usd", token });
+    expect(result).toMatchObject({ status: "failed", failureCode: "timeout" });
+  });
+
+  it("only accepts webhooks signed with the secret", async () => {
+    const provider = createMockPaymentProvider({ latencyMs: 0, webhookSecret: "whsec_test" });
+    const payload = JSON.stringify({ id: "evt_1", type: "payment.captured", reference: "pay_mock_success_p1", amount: 10 });
+    const signature = await provider.signWebhook(payload);
+
+    expect(await provider.verifyWebhook(payload, signature)).toMatchObject({ id: "evt_1" });
+    expect(await provider.verifyWebhook(payload, "0".repeat(64))).toBeNull();
+    expect(await createMockPaymentProvider({ webhookSecret: "other" }).verifyWebhook(payload, signature)).toBeNull();
+
+    const malformed = "{not json";
+    expect(await provider.verifyWebhook(malformed, await provider.signWebhook(malformed))).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { queryKeys } from "@/api/keys";
+import { parseCatalogFilters } from "@/lib/catalogFilters";
+
+const startsWith = (key: readonly unknown[], prefix: readonly unknown[]) =>
+  prefix.every((part, index) => key[index] === part);
+
+describe("queryKeys", () => {
+  it("nests every product query under the products prefix", () => {
+    const filters = parseCatalogFilters(new URLSearchParams("category=a"));
+    expect(startsWith(queryKeys.products.catalog(filters), queryKeys.products.all)).toBe(true);
+    expect(startsWith(queryKeys.products.detail("p1"), queryKeys.products.all)).toBe(true);
+    expect(startsWith(queryKeys.products.search("silla"), queryKeys.products.all)).toBe(true);
+  });
+
+  it("keeps admin lists apart from the storefront", () => {
+    expect(startsWith(queryKeys.admin.products(), queryKeys.products.all)).toBe(false);
+    expect(startsWith(queryKeys.admin.orders(), queryKeys.admin.all)).toBe(true);
+  });
+
+  it("separates catalog pages of the same filters", () => {
+    const filters = parseCatalogFilters(new URLSearchParams());
+    expect(queryKeys.products.catalogPage(filters, 1)).not.toEqual(queryKeys.products.catalogPage(filters, 2));
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from "@/lib/recentSearches";
+
+describe("recent searches", () => {
+  beforeEach(() => clearRecentSearches());
+
+  it("keeps the latest search first without duplicates", () => {
+    addRecentSearch("lampara");
+    addRecentSearch("camisa");
+    addRecentSearch("Lampara");
+    expect(getRecentSearches()).toEqual(["Lampara", "camisa"]);
+  });
+
+  it("keeps only the last five searches", () => {
+    ["a", "b", "c", "d", "e", "f"].forEach(addRecentSearch);
+    expect(getRecentSearches()).toEqual(["f", "e", "d", "c", "b"]);
+  });
+
+  it("ignores blank searches and corrupted storage", () => {
+    addRecentSearch("   ");
+    expect(getRecentSearches()).toEqual([]);
+    localStorage.setItem("nexoshop:recent-searches", "{not json");
+    expect(getRecentSearches()).toEqual([]);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { getRefundAmount, getRefundLineAmount, getRemainingRefund, isRefundable } from "@/lib/refunds";
+
+// 2 × $20 with 21% added tax and 1 × $10 with tax included, $5 off and $4.99 shipping
+const order = { subtotal: 50, discount_total: 5, total: 57.55, refunded_total: 0 };
+const shirt = { id: "a", quantity: 2, refunded_quantity: 0, subtotal: 40, tax_amount: 7.56, tax_inclusive: false };
+const book = { id: "b", quantity: 1, refunded_quantity: 0, subtotal: 10, tax_amount: 0.38, tax_inclusive: true };
+
+describe("refunds", () => {
+  it("refunds a line net of its share of the discount, plus added taxes", () => {
+    expect(getRefundLineAmount(order, shirt, 1)).toBe(21.78);
+    expect(getRefundLineAmount(order, shirt, 2)).toBe(43.56);
+    expect(getRefundLineAmount(order, book, 1)).toBe(9);
+  });
+
+  it("never refunds more than what is left", () => {
+    expect(getRefundAmount(order, [shirt, book], { a: 1 })).toBe(21.78);
+    expect(getRefundAmount({ ...order, refunded_total: 50 }, [shirt, book], { a: 2, b: 1 })).toBe(7.55);
+    expect(getRemainingRefund({ ...order, refunded_total: 21.78 })).toBe(35.77);
+  });
+
+  it("only refunds paid orders", () => {
+    expect(isRefundable({ payment_status: "paid" })).toBe(true);
+    expect(isRefundable({ payment_status: "partially_refunded" })).toBe(true);
+    expect(isRefundable({ payment_status: "unpaid" })).toBe(false);
+    expect(isRefundable({ payment_status: "refunded" })).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { describeShippingPricing, formatShippingCost, parseCities } from "@/lib/shipping";
+
+describe("shipping", () => {
+  it("parses the admin city list", () => {
+    expect(parseCities("Madrid, Barcelona\n  San   Sebastián ,,Madrid")).toEqual(["Madrid", "Barcelona", "San Sebastián"]);
+    expect(parseCities("  ")).toEqual([]);
+  });
+
+  it("describes each pricing rule", () => {
+    const method = { base_cost: 5, cost_per_kg: 1.5, free_over: 50 };
+    expect(describeShippingPricing({ ...method, pricing: "flat" })).toBe("$5.00");
+    expect(describeShippingPricing({ ...method, pricing: "flat", base_cost: 0 })).toBe("Gratis");
+    expect(describeShippingPricing({ ...method, pricing: "weight" })).toBe("$5.00 + $1.50/kg");
+    expect(describeShippingPricing({ ...method, pricing: "free_over" })).toBe("$5.00, gratis desde $50.00");
+  });
+
+  it("shows zero costs as free", () => {
+    expect(formatShippingCost(0)).toBe("Gratis");
+    expect(formatShippingCost(4.5)).toBe("$4.50");
+  });
+});
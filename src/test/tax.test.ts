@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { describeTaxRate, formatTaxRate, splitOrderTaxes } from "@/lib/tax";
+
+describe("tax", () => {
+  it("formats rates without trailing zeros", () => {
+    expect(formatTaxRate(21)).toBe("21%");
+    expect(formatTaxRate(10.5)).toBe("10.5%");
+    expect(describeTaxRate({ rate: 4, inclusive: true })).toBe("4% incluido en el precio");
+    expect(describeTaxRate({ rate: 21, inclusive: false })).toBe("21% sobre el precio");
+  });
+
+  it("separates included and added taxes", () => {
+    const split = splitOrderTaxes([
+      { tax_amount: 2.1, tax_inclusive: false },
+      { tax_amount: 0.5, tax_inclusive: true },
+      { tax_amount: 1.05, tax_inclusive: false }
+    ]);
+    expect(split.added).toBeCloseTo(3.15);
+    expect(split.included).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { buildVariantCombinations, findVariant, getVariantTitle, parseOptionValues } from "@/lib/variants";
+
+describe("product variants", () => {
+  const options = [
+    { name: "Talla", values: ["S", "M"] },
+    { name: "Color", values: ["Negro", "Blanco"] },
+  ];
+
+  it("builds every combination in option order", () => {
+    expect(buildVariantCombinations(options)).toEqual([
+      { Talla: "S", Color: "Negro" },
+      { Talla: "S", Color: "Blanco" },
+      { Talla: "M", Color: "Negro" },
+      { Talla: "M", Color: "Blanco" },
+    ]);
+    expect(buildVariantCombinations([])).toEqual([]);
+  });
+
+  it("titles a selection following the option order", () => {
+    expect(getVariantTitle(options, { Color: "Negro", Talla: "M" })).toBe("M / Negro");
+  });
+
+  it("finds the variant matching a full selection only", () => {
+    const variants = [
+      { id: "a", options: { Talla: "S", Color: "Negro" } },
+      { id: "b", options: { Talla: "M", Color: "Negro" } },
+    ];
+    expect(findVariant(variants, { Color: "Negro", Talla: "M" })?.id).toBe("b");
+    expect(findVariant(variants, { Talla: "M" })).toBeUndefined();
+  });
+
+  it("parses comma separated values", () => {
+    expect(parseOptionValues(" S, M,,L, M ")).toEqual(["S", "M", "L"]);
+  });
+});
@@ -4,12 +4,58 @@ export interface Product {
   description: string | null;
   price: number;
   stock: number;
+  reserved: number;
+  // Kilograms, used by weight-based shipping
+  weight: number;
   image_url: string | null;
   category_id: string | null;
   featured: boolean;
+  has_variants: boolean;
   created_at: string;
   updated_at: string;
   categories?: Category | null;
+  product_option_types?: ProductOptionType[];
+  product_variants?: ProductVariant[];
+  product_images?: ProductImage[];
+}
+
+// Highlighted fields returned by the search_products RPC, matches wrapped in <mark>
+export interface ProductSearchHighlight {
+  name_highlight: string;
+  snippet: string;
+}
+
+export interface ProductImage {
+  id: string;
+  product_id: string;
+  url: string;
+  alt_text: string | null;
+  position: number;
+  created_at: string;
+}
+
+export interface ProductOptionType {
+  id: string;
+  product_id: string;
+  name: string;
+  values: string[];
+  position: number;
+  created_at: string;
+}
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  sku: string | null;
+  title: string;
+  options: Record<string, string>;
+  price: number | null;
+  stock: number;
+  reserved: number;
+  image_url: string | null;
+  position: number;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Category {
@@ -25,44 +71,211 @@ export interface CartItem {
   id: string;
   cart_id: string;
   product_id: string;
+  variant_id: string | null;
   quantity: number;
+  // Unit price when the line was added or the customer last accepted a price change
+  unit_price: number;
   created_at: string;
   updated_at: string;
   products?: Product;
+  product_variants?: ProductVariant | null;
 }
 
 export interface Cart {
   id: string;
-  user_id: string | null;
-  session_id: string | null;
+  user_id: string;
+  coupon_code: string | null;
   created_at: string;
   updated_at: string;
   cart_items?: CartItem[];
 }
 
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+export type PaymentMethod = 'card' | 'cash' | 'transfer';
+
+export type OrderPaymentStatus = 'unpaid' | 'paid' | 'failed' | 'partially_refunded' | 'refunded' | 'chargeback';
+
 export interface Order {
   id: string;
   user_id: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  // total = subtotal - discount_total + shipping_total + the part of tax_total not included in prices
+  subtotal: number;
+  discount_total: number;
+  shipping_total: number;
+  tax_total: number;
   total: number;
+  coupon_id: string | null;
+  coupon_code: string | null;
+  shipping_method_id: string | null;
+  // Method name when the order was placed
+  shipping_method: string | null;
   shipping_address: string | null;
   shipping_city: string | null;
-  payment_method: string | null;
+  payment_method: PaymentMethod | null;
+  // Kept in step with the gateway's webhook events, or confirmed by an admin for cash and transfers
+  payment_status: OrderPaymentStatus;
+  paid_at: string | null;
+  // Sum of completed refunds; what the customer has paid net is total - refunded_total
+  refunded_total: number;
+  // Cash on delivery: what the courier collects
+  amount_to_collect: number | null;
+  // Bank transfer: the reference to quote and when the order is cancelled if unpaid
+  payment_reference: string | null;
+  payment_due_at: string | null;
   notes: string | null;
+  processing_at: string | null;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  cancelled_at: string | null;
   created_at: string;
   updated_at: string;
   order_items?: OrderItem[];
+  order_status_history?: OrderStatusHistory[];
 }
 
 export interface OrderItem {
   id: string;
   order_id: string;
   product_id: string;
+  variant_id: string | null;
   product_name: string;
+  variant_title: string | null;
   product_price: number;
   quantity: number;
   subtotal: number;
+  tax_rate: number;
+  // Inclusive taxes are part of product_price and not added to the total
+  tax_inclusive: boolean;
+  tax_amount: number;
+  // Units already refunded to the customer
+  refunded_quantity: number;
+  created_at: string;
+}
+
+// Internal to the store; customers never see these
+export interface OrderNote {
+  id: string;
+  order_id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  profiles?: Pick<Profile, 'full_name' | 'email'> | null;
+}
+
+export interface OrderStatusHistory {
+  id: string;
+  order_id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export type ReturnRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReturnRequest {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  user_id: string;
+  quantity: number;
+  reason: string;
+  photo_url: string | null;
+  status: string;
+  restocked: boolean;
+  admin_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  order_items?: Pick<OrderItem, 'product_name' | 'variant_title' | 'product_price'> | null;
+}
+
+export type CouponType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: CouponType;
+  // Percentage (0-100) or amount; unused for free shipping
+  discount_value: number;
+  min_subtotal: number;
+  // Empty arrays mean the coupon applies to the whole cart
+  product_ids: string[];
+  category_ids: string[];
+  usage_limit: number | null;
+  usage_limit_per_user: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ShippingKind = 'standard' | 'express' | 'pickup';
+
+export type ShippingPricing = 'flat' | 'weight' | 'free_over';
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  // Empty for the zone that covers every city not listed elsewhere
+  cities: string[];
+  created_at: string;
+  updated_at: string;
+  shipping_methods?: ShippingMethod[];
+}
+
+export interface ShippingMethod {
+  id: string;
+  zone_id: string;
+  name: string;
+  kind: ShippingKind;
+  pricing: ShippingPricing;
+  base_cost: number;
+  cost_per_kg: number;
+  // Order amount from which the method is free, for free_over pricing
+  free_over: number | null;
+  estimated_days: string | null;
+  active: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  // Percentage, 0-100
+  rate: number;
+  // Null category or zone means any; the most specific active rate wins
+  category_id: string | null;
+  zone_id: string | null;
+  inclusive: boolean;
+  active: boolean;
   created_at: string;
+  updated_at: string;
+}
+
+// Single row; the bank details are shown to customers paying by transfer
+export interface StoreSettings {
+  bank_name: string | null;
+  bank_account_holder: string | null;
+  bank_iban: string | null;
+  transfer_deadline_hours: number;
+  updated_at: string;
+}
+
+export interface StockShortage {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  requested: number;
+  available: number;
 }
 
 export interface Profile {
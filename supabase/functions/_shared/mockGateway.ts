@@ -0,0 +1,31 @@
+// Server side of the mock gateway in src/lib/mockPayments.ts. It is stateless
+// too: a reference "pay_mock_<scenario>_<payment id>" carries the test card, so
+// only the cards the mock ever authorizes can be captured.
+
+const CAPTURABLE_SCENARIOS = ['success', 'three_d_secure'];
+
+export interface CaptureResult {
+  status: 'captured' | 'failed';
+  reference: string;
+  failureCode?: string;
+}
+
+export interface RefundResult {
+  status: 'refunded' | 'failed';
+  reference: string;
+  failureCode?: string;
+}
+
+export function captureMockPayment(reference: string, paymentId: string): CaptureResult {
+  const approved = CAPTURABLE_SCENARIOS.some(scenario => reference === `pay_mock_${scenario}_${paymentId}`);
+  return approved ? { status: 'captured', reference } : { status: 'failed', reference, failureCode: 'invalid_request' };
+}
+
+// The refund id doubles as the idempotency key: retrying a refund gives back
+// the same reference instead of refunding twice
+export function refundMockPayment(reference: string, refundId: string): RefundResult {
+  const captured = CAPTURABLE_SCENARIOS.some(scenario => reference.startsWith(`pay_mock_${scenario}_`));
+  return captured
+    ? { status: 'refunded', reference: `re_mock_${refundId}` }
+    : { status: 'failed', reference, failureCode: 'invalid_request' };
+}
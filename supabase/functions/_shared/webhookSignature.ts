@@ -0,0 +1,31 @@
+// HMAC-SHA256 of the raw request body, hex encoded. Same scheme as the mock
+// gateway in src/lib/mockPayments.ts.
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export async function signPayload(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+// Compares every character so the response time does not leak how much of the signature matched
+export async function verifySignature(payload: string, signature: string, secret: string): Promise<boolean> {
+  const expected = await signPayload(payload, secret);
+  if (signature.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,78 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { captureMockPayment } from '../_shared/mockGateway.ts';
+
+// Captures a card payment the customer's browser left authorized. The capture
+// runs here rather than in the browser so a customer can never report their
+// own order as paid; the gateway's signed webhook confirms it again later.
+
+const provider = Deno.env.get('PAYMENT_PROVIDER') ?? 'mock';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let paymentId: unknown;
+  try {
+    ({ paymentId } = await req.json());
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+  if (typeof paymentId !== 'string') {
+    return json({ error: 'Missing paymentId' }, 400);
+  }
+
+  // Read the payment as the customer, so RLS only finds payments of their own orders
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    auth: { persistSession: false }
+  });
+  const { data: payment, error: paymentError } = await userClient
+    .from('payments')
+    .select('id, provider, provider_reference, status')
+    .eq('id', paymentId)
+    .maybeSingle();
+
+  if (paymentError) {
+    console.error('Error loading payment:', paymentError);
+    return json({ error: 'Could not load payment' }, 500);
+  }
+  if (!payment) {
+    return json({ error: 'Payment not found' }, 404);
+  }
+  if (payment.status !== 'authorized' || payment.provider !== provider || !payment.provider_reference) {
+    return json({ error: 'Payment is not authorized' }, 409);
+  }
+
+  const result = captureMockPayment(payment.provider_reference, payment.id);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+  const { error } = await supabase.rpc('record_payment_capture', {
+    _payment_id: payment.id,
+    _status: result.status,
+    _failure_code: result.failureCode ?? null
+  });
+
+  if (error) {
+    if (error.hint === 'not_authorized') {
+      return json({ error: error.message }, 409);
+    }
+    console.error('Error recording capture:', error);
+    return json({ error: 'Could not record capture' }, 500);
+  }
+
+  return json(result);
+});
@@ -0,0 +1,58 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { verifySignature } from '../_shared/webhookSignature.ts';
+
+// Receives the payment gateway's signed events and applies them to payments
+// and orders through apply_payment_event, which stores every event and skips
+// the ones already received.
+
+const SIGNATURE_HEADER = 'x-payment-signature';
+const provider = Deno.env.get('PAYMENT_PROVIDER') ?? 'mock';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+Deno.serve(async req => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const secret = Deno.env.get('PAYMENT_WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('PAYMENT_WEBHOOK_SECRET is not set');
+    return json({ error: 'Webhook not configured' }, 500);
+  }
+
+  // The signature covers the exact bytes sent, so read the body as text before parsing it
+  const payload = await req.text();
+  const signature = req.headers.get(SIGNATURE_HEADER) ?? '';
+  if (!(await verifySignature(payload, signature, secret))) {
+    console.warn('Rejected payment event with an invalid signature');
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+  if (!event || typeof event !== 'object' || Array.isArray(event)) {
+    return json({ error: 'Invalid event' }, 400);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+  const { data: outcome, error } = await supabase.rpc('apply_payment_event', { _provider: provider, _event: event });
+
+  if (error) {
+    if (error.hint === 'invalid_event') {
+      return json({ error: error.message }, 400);
+    }
+    // A 5xx makes the gateway retry later; the event id keeps the retry idempotent
+    console.error('Error applying payment event:', error);
+    return json({ error: 'Could not process event' }, 500);
+  }
+
+  return json({ received: true, outcome });
+});
@@ -0,0 +1,57 @@
+import { signPayload } from '../_shared/webhookSignature.ts';
+
+// Replays the fixture events against a running payment-webhook, signed the way
+// the gateway would sign them. Start the function locally first:
+//
+//   supabase functions serve payment-webhook --env-file supabase/functions/.env
+//
+// then pass the provider reference of a payment (payments.provider_reference)
+// and, optionally, which fixtures to send and in which order:
+//
+//   deno run --allow-net --allow-env --allow-read supabase/functions/payment-webhook/replay.ts \
+//     pay_mock_success_<payment id> captured partial_refund refunded
+//
+// Event ids are derived from the reference, so replaying the same fixture
+// twice must answer "duplicate". --amount overrides the fixture amounts and
+// --bad-signature checks that tampered requests are rejected.
+
+const DEFAULT_FIXTURES = ['captured', 'partial_refund', 'refunded', 'chargeback'];
+
+const url = Deno.env.get('WEBHOOK_URL') ?? 'http://127.0.0.1:54321/functions/v1/payment-webhook';
+const secret = Deno.env.get('PAYMENT_WEBHOOK_SECRET') ?? 'whsec_mock';
+
+const args = [...Deno.args];
+const takeFlag = (name: string) => {
+  const index = args.indexOf(name);
+  if (index === -1) return null;
+  const [, value] = args.splice(index, 2);
+  return value ?? null;
+};
+const badSignature = args.includes('--bad-signature');
+if (badSignature) args.splice(args.indexOf('--bad-signature'), 1);
+const amount = takeFlag('--amount');
+
+const [reference, ...fixtureNames] = args;
+if (!reference) {
+  console.error('Usage: replay.ts <provider reference> [fixture ...] [--amount N] [--bad-signature]');
+  Deno.exit(1);
+}
+
+for (const name of fixtureNames.length > 0 ? fixtureNames : DEFAULT_FIXTURES) {
+  const fixture = JSON.parse(await Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url)));
+  const event = {
+    ...fixture,
+    id: `${fixture.id}_${reference}`,
+    reference,
+    amount: amount !== null ? Number(amount) : fixture.amount
+  };
+  const payload = JSON.stringify(event);
+  const signature = badSignature ? '0'.repeat(64) : await signPayload(payload, secret);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-payment-signature': signature },
+    body: payload
+  });
+  console.log(`${name.padEnd(16)} ${response.status} ${await response.text()}`);
+}
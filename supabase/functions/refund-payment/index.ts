@@ -0,0 +1,91 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { refundMockPayment } from '../_shared/mockGateway.ts';
+
+// Sends a pending card refund to the gateway and records its answer. It runs
+// here with the service role so only the gateway's answer can complete a
+// refund. An error reaching the gateway is an unknown outcome: the refund stays
+// pending and is retried with the same id, which the gateway uses to avoid
+// refunding twice.
+
+const provider = Deno.env.get('PAYMENT_PROVIDER') ?? 'mock';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let refundId: unknown;
+  try {
+    ({ refundId } = await req.json());
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+  if (typeof refundId !== 'string') {
+    return json({ error: 'Missing refundId' }, 400);
+  }
+
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    auth: { persistSession: false }
+  });
+  const { data: isAdmin } = await userClient.rpc('is_admin');
+  if (isAdmin !== true) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+  const { data: refund, error: refundError } = await supabase
+    .from('refunds')
+    .select('id, status, payments(provider, provider_reference)')
+    .eq('id', refundId)
+    .maybeSingle();
+
+  if (refundError) {
+    console.error('Error loading refund:', refundError);
+    return json({ error: 'Could not load refund' }, 500);
+  }
+  if (!refund) {
+    return json({ error: 'Refund not found' }, 404);
+  }
+  if (refund.status !== 'pending') {
+    return json({ error: 'Refund is not pending' }, 409);
+  }
+  if (refund.payments?.provider !== provider || !refund.payments.provider_reference) {
+    return json({ error: 'Refund is not a card refund' }, 409);
+  }
+
+  let result;
+  try {
+    result = refundMockPayment(refund.payments.provider_reference, refund.id);
+  } catch (error) {
+    console.error('Error reaching the gateway:', error);
+    return json({ error: 'Gateway unavailable' }, 502);
+  }
+
+  const status = result.status === 'refunded' ? 'succeeded' : 'failed';
+  const { error } = await supabase.rpc('record_refund_result', {
+    _refund_id: refund.id,
+    _status: status,
+    _provider_reference: status === 'succeeded' ? result.reference : null
+  });
+
+  if (error) {
+    console.error('Error recording refund:', error);
+    return json({ error: 'Could not record refund' }, 500);
+  }
+
+  return json({ status });
+});
@@ -0,0 +1,79 @@
+-- =====================================================
+-- CREACIÓN ATÓMICA DE PEDIDOS
+-- =====================================================
+
+-- Los pedidos solo se crean a través de place_order: el cliente ya no puede
+-- insertar directamente en orders ni en order_items.
+DROP POLICY IF EXISTS "Users can create own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can create order items for own orders" ON public.order_items;
+
+-- Crea el pedido a partir del carrito del usuario actual en una sola transacción.
+-- Los precios se toman siempre de products, nunca del navegador.
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _total DECIMAL(10,2);
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    SELECT SUM(p.price * ci.quantity)
+    INTO _total
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    WHERE ci.cart_id = _cart_id;
+
+    INSERT INTO public.orders (user_id, total, status, shipping_address, shipping_city, payment_method, notes)
+    VALUES (_user_id, _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), ''))
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity, subtotal)
+    SELECT _order_id, p.id, p.name, p.price, ci.quantity, p.price * ci.quantity
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    WHERE ci.cart_id = _cart_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
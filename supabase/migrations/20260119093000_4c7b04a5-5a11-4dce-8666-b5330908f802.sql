@@ -0,0 +1,244 @@
+-- =====================================================
+-- RESERVA DE STOCK Y LIBRO DE MOVIMIENTOS
+-- =====================================================
+
+-- products.stock pasa a ser el stock disponible para la venta;
+-- reserved son las unidades apartadas por pedidos aún no enviados.
+ALTER TABLE public.products
+    ADD COLUMN reserved INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT products_stock_non_negative CHECK (stock >= 0),
+    ADD CONSTRAINT products_reserved_non_negative CHECK (reserved >= 0);
+
+-- Tabla de movimientos de stock
+-- reserve: disponible -> reservado (delta negativo)
+-- release: reservado -> disponible (delta positivo)
+-- commit:  reservado -> enviado al cliente (delta negativo)
+CREATE TABLE public.stock_movements (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+    product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+    delta INTEGER NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('reserve', 'release', 'commit')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX stock_movements_order_id_idx ON public.stock_movements (order_id);
+CREATE INDEX stock_movements_product_id_idx ON public.stock_movements (product_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Stock Movements: solo admins consultan, solo las funciones escriben
+CREATE POLICY "Admins can view stock movements"
+    ON public.stock_movements FOR SELECT
+    USING (public.is_admin());
+
+-- =====================================================
+-- FUNCIONES DE RESERVA
+-- =====================================================
+
+-- Indica si el pedido tiene una reserva pendiente de liberar o confirmar.
+-- Los pedidos anteriores a esta migración no tienen reserva y no mueven stock.
+CREATE OR REPLACE FUNCTION public.order_has_open_reservation(_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.stock_movements
+        WHERE order_id = _order_id AND reason = 'reserve'
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.stock_movements
+        WHERE order_id = _order_id AND reason IN ('release', 'commit')
+    )
+$$;
+
+-- Devuelve al stock disponible las unidades reservadas por un pedido
+CREATE OR REPLACE FUNCTION public.release_order_stock(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.order_has_open_reservation(_order_id) THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.products p
+    SET stock = p.stock - m.delta,
+        reserved = p.reserved + m.delta
+    FROM public.stock_movements m
+    WHERE m.order_id = _order_id
+    AND m.reason = 'reserve'
+    AND p.id = m.product_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, delta, reason)
+    SELECT order_id, product_id, -delta, 'release'
+    FROM public.stock_movements
+    WHERE order_id = _order_id AND reason = 'reserve';
+END;
+$$;
+
+-- Da por salidas del almacén las unidades reservadas por un pedido
+CREATE OR REPLACE FUNCTION public.commit_order_stock(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.order_has_open_reservation(_order_id) THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.products p
+    SET reserved = p.reserved + m.delta
+    FROM public.stock_movements m
+    WHERE m.order_id = _order_id
+    AND m.reason = 'reserve'
+    AND p.id = m.product_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, delta, reason)
+    SELECT order_id, product_id, delta, 'commit'
+    FROM public.stock_movements
+    WHERE order_id = _order_id AND reason = 'reserve';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.order_has_open_reservation(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Libera la reserva al cancelar y la confirma al enviar o entregar
+CREATE OR REPLACE FUNCTION public.handle_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'cancelled' THEN
+        PERFORM public.release_order_stock(NEW.id);
+    ELSIF NEW.status IN ('shipped', 'delivered') THEN
+        PERFORM public.commit_order_stock(NEW.id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_status_changed_stock
+    AFTER UPDATE OF status ON public.orders
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.handle_order_stock();
+
+-- =====================================================
+-- PLACE_ORDER CON RESERVA
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _total DECIMAL(10,2);
+    _shortages JSONB;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Bloquear los productos en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'product_name', p.name,
+        'requested', ci.quantity,
+        'available', p.stock
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > p.stock;
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    SELECT SUM(p.price * ci.quantity)
+    INTO _total
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    WHERE ci.cart_id = _cart_id;
+
+    INSERT INTO public.orders (user_id, total, status, shipping_address, shipping_city, payment_method, notes)
+    VALUES (_user_id, _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), ''))
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, product_price, quantity, subtotal)
+    SELECT _order_id, p.id, p.name, p.price, ci.quantity, p.price * ci.quantity
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND p.id = oi.product_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, delta, reason)
+    SELECT _order_id, product_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,167 @@
+-- =====================================================
+-- MÁQUINA DE ESTADOS DE PEDIDOS
+-- =====================================================
+
+-- Marcas de tiempo de cada estado
+ALTER TABLE public.orders
+    ADD COLUMN processing_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN shipped_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+-- Historial de cambios de estado
+CREATE TABLE public.order_status_history (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_history_order_id_idx ON public.order_status_history (order_id);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Order Status History: usuarios ven el historial de sus pedidos, admins todo
+CREATE POLICY "Users can view own order status history"
+    ON public.order_status_history FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.orders
+            WHERE orders.id = order_status_history.order_id
+            AND (orders.user_id = auth.uid() OR public.is_admin())
+        )
+    );
+
+-- =====================================================
+-- FUNCIONES DE TRANSICIÓN
+-- =====================================================
+
+-- Transiciones permitidas:
+-- pending -> processing -> shipped -> delivered
+-- pending | processing -> cancelled
+CREATE OR REPLACE FUNCTION public.is_valid_order_transition(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT (_from, _to) IN (
+        ('pending', 'processing'),
+        ('processing', 'shipped'),
+        ('shipped', 'delivered'),
+        ('pending', 'cancelled'),
+        ('processing', 'cancelled')
+    )
+$$;
+
+-- Valida la transición y registra la marca de tiempo del nuevo estado
+CREATE OR REPLACE FUNCTION public.validate_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_valid_order_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Transición de estado no permitida: % -> %', OLD.status, NEW.status;
+    END IF;
+
+    CASE NEW.status
+        WHEN 'processing' THEN NEW.processing_at := now();
+        WHEN 'shipped' THEN NEW.shipped_at := now();
+        WHEN 'delivered' THEN NEW.delivered_at := now();
+        WHEN 'cancelled' THEN NEW.cancelled_at := now();
+        ELSE NULL;
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_order_status_change
+    BEFORE UPDATE OF status ON public.orders
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.validate_order_status();
+
+-- Registra cada cambio de estado (y la creación) en el historial.
+-- La nota opcional llega por la variable de transacción app.status_note.
+CREATE OR REPLACE FUNCTION public.log_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+    VALUES (
+        NEW.id,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+        NEW.status,
+        auth.uid(),
+        NULLIF(current_setting('app.status_note', true), '')
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_created_log_status
+    AFTER INSERT ON public.orders
+    FOR EACH ROW EXECUTE FUNCTION public.log_order_status();
+
+CREATE TRIGGER on_order_status_changed_log
+    AFTER UPDATE OF status ON public.orders
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.log_order_status();
+
+-- Cambia el estado de un pedido con una nota opcional (solo admins)
+CREATE OR REPLACE FUNCTION public.update_order_status(
+    _order_id UUID,
+    _status TEXT,
+    _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para cambiar el estado del pedido';
+    END IF;
+
+    PERFORM set_config('app.status_note', COALESCE(trim(_note), ''), true);
+
+    UPDATE public.orders
+    SET status = _status
+    WHERE id = _order_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    PERFORM set_config('app.status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- DATOS EXISTENTES
+-- =====================================================
+
+INSERT INTO public.order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, NULL, 'pending', created_at
+FROM public.orders;
+
+INSERT INTO public.order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, 'pending', status, updated_at
+FROM public.orders
+WHERE status <> 'pending';
+
+UPDATE public.orders SET delivered_at = updated_at WHERE status = 'delivered';
+UPDATE public.orders SET cancelled_at = updated_at WHERE status = 'cancelled';
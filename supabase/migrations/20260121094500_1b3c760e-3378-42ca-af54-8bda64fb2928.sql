@@ -0,0 +1,198 @@
+-- =====================================================
+-- CANCELACIONES Y DEVOLUCIONES DE CLIENTES
+-- =====================================================
+
+-- Las devoluciones aprobadas pueden reponer stock
+ALTER TABLE public.stock_movements
+    DROP CONSTRAINT stock_movements_reason_check,
+    ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN ('reserve', 'release', 'commit', 'restock'));
+
+-- Tabla de solicitudes de devolución (una por producto del pedido)
+CREATE TABLE public.return_requests (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    reason TEXT NOT NULL,
+    photo_url TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    restocked BOOLEAN NOT NULL DEFAULT false,
+    admin_note TEXT,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX return_requests_order_id_idx ON public.return_requests (order_id);
+
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+
+-- Return Requests: usuarios ven las suyas, admins todas.
+-- La creación y resolución se hace solo mediante funciones.
+CREATE POLICY "Users can view own return requests"
+    ON public.return_requests FOR SELECT
+    USING (auth.uid() = user_id OR public.is_admin());
+
+CREATE TRIGGER update_return_requests_updated_at
+    BEFORE UPDATE ON public.return_requests
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Cancela un pedido propio que aún no ha sido enviado
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _status TEXT;
+BEGIN
+    SELECT status INTO _status
+    FROM public.orders
+    WHERE id = _order_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _status NOT IN ('pending', 'processing') THEN
+        RAISE EXCEPTION 'Este pedido ya no se puede cancelar';
+    END IF;
+
+    PERFORM set_config('app.status_note', COALESCE('Cancelado por el cliente: ' || NULLIF(trim(_reason), ''), 'Cancelado por el cliente'), true);
+
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = _order_id;
+
+    PERFORM set_config('app.status_note', '', true);
+END;
+$$;
+
+-- Abre una solicitud de devolución para un producto de un pedido entregado
+CREATE OR REPLACE FUNCTION public.request_return(
+    _order_item_id UUID,
+    _quantity INTEGER,
+    _reason TEXT,
+    _photo_url TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order public.orders%ROWTYPE;
+    _item public.order_items%ROWTYPE;
+    _already_requested INTEGER;
+    _request_id UUID;
+BEGIN
+    SELECT * INTO _item FROM public.order_items WHERE id = _order_item_id;
+
+    SELECT * INTO _order
+    FROM public.orders
+    WHERE id = _item.order_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _order.status <> 'delivered' THEN
+        RAISE EXCEPTION 'Solo se pueden devolver pedidos entregados';
+    END IF;
+
+    IF COALESCE(trim(_reason), '') = '' THEN
+        RAISE EXCEPTION 'Indica el motivo de la devolución';
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO _already_requested
+    FROM public.return_requests
+    WHERE order_item_id = _order_item_id
+    AND status <> 'rejected';
+
+    IF _quantity IS NULL OR _quantity < 1 OR _quantity > _item.quantity - _already_requested THEN
+        RAISE EXCEPTION 'Cantidad no válida: puedes devolver hasta % unidades', _item.quantity - _already_requested;
+    END IF;
+
+    INSERT INTO public.return_requests (order_id, order_item_id, user_id, quantity, reason, photo_url)
+    VALUES (_order.id, _item.id, _order.user_id, _quantity, trim(_reason), NULLIF(trim(_photo_url), ''))
+    RETURNING id INTO _request_id;
+
+    RETURN _request_id;
+END;
+$$;
+
+-- Aprueba o rechaza una devolución; opcionalmente repone el stock (solo admins)
+CREATE OR REPLACE FUNCTION public.resolve_return_request(
+    _request_id UUID,
+    _approve BOOLEAN,
+    _restock BOOLEAN DEFAULT false,
+    _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _request public.return_requests%ROWTYPE;
+    _product_id UUID;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para gestionar devoluciones';
+    END IF;
+
+    SELECT * INTO _request
+    FROM public.return_requests
+    WHERE id = _request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitud de devolución no encontrada';
+    END IF;
+
+    IF _request.status <> 'pending' THEN
+        RAISE EXCEPTION 'La solicitud ya fue resuelta';
+    END IF;
+
+    UPDATE public.return_requests
+    SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+        restocked = _approve AND _restock,
+        admin_note = NULLIF(trim(_note), ''),
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE id = _request_id;
+
+    IF _approve AND _restock THEN
+        SELECT product_id INTO _product_id
+        FROM public.order_items
+        WHERE id = _request.order_item_id;
+
+        UPDATE public.products
+        SET stock = stock + _request.quantity
+        WHERE id = _product_id;
+
+        IF FOUND THEN
+            INSERT INTO public.stock_movements (order_id, product_id, delta, reason)
+            VALUES (_request.order_id, _product_id, _request.quantity, 'restock');
+        END IF;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.request_return(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_return_request(UUID, BOOLEAN, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_return(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_return_request(UUID, BOOLEAN, BOOLEAN, TEXT) TO authenticated;
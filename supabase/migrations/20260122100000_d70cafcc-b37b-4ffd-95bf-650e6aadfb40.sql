@@ -0,0 +1,498 @@
+-- =====================================================
+-- VARIANTES DE PRODUCTO
+-- =====================================================
+
+-- Tipos de opción de un producto (Talla, Color...) con sus valores posibles
+CREATE TABLE public.product_option_types (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    values TEXT[] NOT NULL DEFAULT '{}',
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (product_id, name)
+);
+
+ALTER TABLE public.product_option_types ENABLE ROW LEVEL SECURITY;
+
+-- Variantes: una combinación de valores con su propio SKU, precio, stock e imagen.
+-- price NULL significa que se usa el precio del producto.
+CREATE TABLE public.product_variants (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    sku TEXT UNIQUE,
+    title TEXT NOT NULL,
+    options JSONB NOT NULL DEFAULT '{}',
+    price DECIMAL(10,2) CHECK (price >= 0),
+    stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+    reserved INTEGER NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+    image_url TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX product_variants_product_id_idx ON public.product_variants (product_id);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_product_variants_updated_at
+    BEFORE UPDATE ON public.product_variants
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Product Option Types / Variants: públicos para leer, admins para gestionar
+CREATE POLICY "Product option types are viewable by everyone"
+    ON public.product_option_types FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage product option types"
+    ON public.product_option_types FOR ALL
+    USING (public.is_admin());
+
+CREATE POLICY "Product variants are viewable by everyone"
+    ON public.product_variants FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage product variants"
+    ON public.product_variants FOR ALL
+    USING (public.is_admin());
+
+-- =====================================================
+-- REFERENCIAS A VARIANTES
+-- =====================================================
+
+ALTER TABLE public.products
+    ADD COLUMN has_variants BOOLEAN NOT NULL DEFAULT false;
+
+-- Un mismo producto puede estar en el carrito con distintas variantes
+ALTER TABLE public.cart_items
+    ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+    DROP CONSTRAINT cart_items_cart_id_product_id_key,
+    ADD CONSTRAINT cart_items_cart_id_product_id_variant_id_key UNIQUE NULLS NOT DISTINCT (cart_id, product_id, variant_id);
+
+ALTER TABLE public.order_items
+    ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+    ADD COLUMN variant_title TEXT;
+
+ALTER TABLE public.stock_movements
+    ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+-- En productos con variantes, stock y reserved del producto son la suma de sus variantes
+CREATE OR REPLACE FUNCTION public.sync_product_variant_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _product_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+    UPDATE public.products p
+    SET stock = COALESCE(v.stock, 0),
+        reserved = COALESCE(v.reserved, 0),
+        has_variants = v.count > 0
+    FROM (
+        SELECT SUM(stock) AS stock, SUM(reserved) AS reserved, COUNT(*) AS count
+        FROM public.product_variants
+        WHERE product_id = _product_id
+    ) v
+    WHERE p.id = _product_id;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_product_variant_changed
+    AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+    FOR EACH ROW EXECUTE FUNCTION public.sync_product_variant_stock();
+
+-- =====================================================
+-- STOCK POR VARIANTE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.release_order_stock(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.order_has_open_reservation(_order_id) THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.products p
+    SET stock = p.stock - m.delta,
+        reserved = p.reserved + m.delta
+    FROM public.stock_movements m
+    WHERE m.order_id = _order_id
+    AND m.reason = 'reserve'
+    AND m.variant_id IS NULL
+    AND p.id = m.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - m.delta,
+        reserved = v.reserved + m.delta
+    FROM public.stock_movements m
+    WHERE m.order_id = _order_id
+    AND m.reason = 'reserve'
+    AND v.id = m.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT order_id, product_id, variant_id, -delta, 'release'
+    FROM public.stock_movements
+    WHERE order_id = _order_id AND reason = 'reserve';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.commit_order_stock(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.order_has_open_reservation(_order_id) THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.products p
+    SET reserved = p.reserved + m.delta
+    FROM public.stock_movements m
+    WHERE m.order_id = _order_id
+    AND m.reason = 'reserve'
+    AND m.variant_id IS NULL
+    AND p.id = m.product_id;
+
+    UPDATE public.product_variants v
+    SET reserved = v.reserved + m.delta
+    FROM public.stock_movements m
+    WHERE m.order_id = _order_id
+    AND m.reason = 'reserve'
+    AND v.id = m.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT order_id, product_id, variant_id, delta, 'commit'
+    FROM public.stock_movements
+    WHERE order_id = _order_id AND reason = 'reserve';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_return_request(
+    _request_id UUID,
+    _approve BOOLEAN,
+    _restock BOOLEAN DEFAULT false,
+    _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _request public.return_requests%ROWTYPE;
+    _item public.order_items%ROWTYPE;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para gestionar devoluciones';
+    END IF;
+
+    SELECT * INTO _request
+    FROM public.return_requests
+    WHERE id = _request_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Solicitud de devolución no encontrada';
+    END IF;
+
+    IF _request.status <> 'pending' THEN
+        RAISE EXCEPTION 'La solicitud ya fue resuelta';
+    END IF;
+
+    UPDATE public.return_requests
+    SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+        restocked = _approve AND _restock,
+        admin_note = NULLIF(trim(_note), ''),
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE id = _request_id;
+
+    IF _approve AND _restock THEN
+        SELECT * INTO _item
+        FROM public.order_items
+        WHERE id = _request.order_item_id;
+
+        IF _item.variant_id IS NOT NULL THEN
+            UPDATE public.product_variants
+            SET stock = stock + _request.quantity
+            WHERE id = _item.variant_id;
+        ELSE
+            UPDATE public.products
+            SET stock = stock + _request.quantity
+            WHERE id = _item.product_id;
+        END IF;
+
+        IF FOUND THEN
+            INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+            VALUES (_request.order_id, _item.product_id, _item.variant_id, _request.quantity, 'restock');
+        END IF;
+    END IF;
+END;
+$$;
+
+-- =====================================================
+-- PLACE_ORDER CON VARIANTES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _total DECIMAL(10,2);
+    _shortages JSONB;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Un producto con variantes solo puede comprarse eligiendo una
+    IF EXISTS (
+        SELECT 1
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+        AND ci.variant_id IS NULL
+        AND p.has_variants
+    ) THEN
+        RAISE EXCEPTION 'Selecciona una variante para todos los productos del carrito';
+    END IF;
+
+    -- Bloquear productos y variantes en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM 1
+    FROM public.product_variants
+    WHERE id IN (SELECT variant_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'requested', ci.quantity,
+        'available', COALESCE(v.stock, p.stock)
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    SELECT SUM(COALESCE(v.price, p.price) * ci.quantity)
+    INTO _total
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    INSERT INTO public.orders (user_id, total, status, shipping_address, shipping_city, payment_method, notes)
+    VALUES (_user_id, _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), ''))
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, product_name, variant_title, product_price, quantity, subtotal)
+    SELECT
+        _order_id,
+        p.id,
+        v.id,
+        p.name,
+        v.title,
+        COALESCE(v.price, p.price),
+        ci.quantity,
+        COALESCE(v.price, p.price) * ci.quantity
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND oi.variant_id IS NULL
+    AND p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - oi.quantity,
+        reserved = v.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND v.id = oi.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT _order_id, product_id, variant_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
+
+-- =====================================================
+-- EDITOR DE VARIANTES
+-- =====================================================
+
+-- Reemplaza los tipos de opción y sincroniza las variantes de un producto (solo admins).
+-- _options:  [{ "name": "Talla", "values": ["S", "M"] }]
+-- _variants: [{ "id": null, "sku": "...", "title": "S", "options": {"Talla": "S"}, "price": null, "stock": 10, "image_url": null }]
+CREATE OR REPLACE FUNCTION public.save_product_variants(
+    _product_id UUID,
+    _options JSONB,
+    _variants JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para editar variantes';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.product_variants
+        WHERE product_id = _product_id
+        AND reserved > 0
+        AND id NOT IN (
+            SELECT (v ->> 'id')::UUID
+            FROM jsonb_array_elements(_variants) v
+            WHERE v ->> 'id' IS NOT NULL
+        )
+    ) THEN
+        RAISE EXCEPTION 'No se puede eliminar una variante con unidades reservadas';
+    END IF;
+
+    DELETE FROM public.product_option_types WHERE product_id = _product_id;
+
+    INSERT INTO public.product_option_types (product_id, name, values, position)
+    SELECT
+        _product_id,
+        trim(o ->> 'name'),
+        ARRAY(SELECT jsonb_array_elements_text(o -> 'values')),
+        ord - 1
+    FROM jsonb_array_elements(_options) WITH ORDINALITY AS t(o, ord);
+
+    DELETE FROM public.product_variants
+    WHERE product_id = _product_id
+    AND id NOT IN (
+        SELECT (v ->> 'id')::UUID
+        FROM jsonb_array_elements(_variants) v
+        WHERE v ->> 'id' IS NOT NULL
+    );
+
+    UPDATE public.product_variants pv
+    SET sku = NULLIF(trim(v ->> 'sku'), ''),
+        title = v ->> 'title',
+        options = COALESCE(v -> 'options', '{}'),
+        price = (v ->> 'price')::DECIMAL,
+        stock = COALESCE((v ->> 'stock')::INTEGER, 0),
+        image_url = NULLIF(trim(v ->> 'image_url'), ''),
+        position = ord - 1
+    FROM jsonb_array_elements(_variants) WITH ORDINALITY AS t(v, ord)
+    WHERE v ->> 'id' IS NOT NULL
+    AND pv.id = (v ->> 'id')::UUID
+    AND pv.product_id = _product_id;
+
+    INSERT INTO public.product_variants (product_id, sku, title, options, price, stock, image_url, position)
+    SELECT
+        _product_id,
+        NULLIF(trim(v ->> 'sku'), ''),
+        v ->> 'title',
+        COALESCE(v -> 'options', '{}'),
+        (v ->> 'price')::DECIMAL,
+        COALESCE((v ->> 'stock')::INTEGER, 0),
+        NULLIF(trim(v ->> 'image_url'), ''),
+        ord - 1
+    FROM jsonb_array_elements(_variants) WITH ORDINALITY AS t(v, ord)
+    WHERE v ->> 'id' IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) TO authenticated;
+
+-- =====================================================
+-- DATOS INICIALES: TALLAS
+-- =====================================================
+
+INSERT INTO public.product_option_types (product_id, name, values)
+SELECT id, 'Talla', ARRAY['S', 'M', 'L']
+FROM public.products
+WHERE name IN ('Chaqueta Premium', 'Camisa Elegante');
+
+INSERT INTO public.product_variants (product_id, sku, title, options, stock, position)
+SELECT p.id, upper(left(p.name, 3)) || '-' || t.size, t.size, jsonb_build_object('Talla', t.size), p.stock / 3, t.ord - 1
+FROM public.products p
+CROSS JOIN unnest(ARRAY['S', 'M', 'L']) WITH ORDINALITY AS t(size, ord)
+WHERE p.name IN ('Chaqueta Premium', 'Camisa Elegante');
+
+INSERT INTO public.product_option_types (product_id, name, values)
+SELECT id, 'Talla', ARRAY['39', '40', '41', '42']
+FROM public.products
+WHERE name = 'Zapatillas Sport';
+
+INSERT INTO public.product_variants (product_id, sku, title, options, stock, position)
+SELECT p.id, 'ZAP-' || t.size, t.size, jsonb_build_object('Talla', t.size), p.stock / 4, t.ord - 1
+FROM public.products p
+CROSS JOIN unnest(ARRAY['39', '40', '41', '42']) WITH ORDINALITY AS t(size, ord)
+WHERE p.name = 'Zapatillas Sport';
@@ -0,0 +1,79 @@
+-- =====================================================
+-- GALERÍA DE IMÁGENES DE PRODUCTO
+-- =====================================================
+
+-- Imágenes ordenadas de un producto. La primera (position 0) es la portada
+-- y se copia a products.image_url para listados y carrito.
+CREATE TABLE public.product_images (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    alt_text TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX product_images_product_id_idx ON public.product_images (product_id, position);
+
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+-- Product Images: públicas para leer, admins para gestionar
+CREATE POLICY "Product images are viewable by everyone"
+    ON public.product_images FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage product images"
+    ON public.product_images FOR ALL
+    USING (public.is_admin());
+
+-- =====================================================
+-- GUARDAR GALERÍA
+-- =====================================================
+
+-- Reemplaza la galería de un producto respetando el orden recibido
+-- (_images: [{ "url": "...", "alt_text": "..." }]) y actualiza la portada.
+CREATE OR REPLACE FUNCTION public.save_product_images(_product_id UUID, _images JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para editar imágenes';
+    END IF;
+
+    DELETE FROM public.product_images WHERE product_id = _product_id;
+
+    INSERT INTO public.product_images (product_id, url, alt_text, position)
+    SELECT
+        _product_id,
+        trim(i ->> 'url'),
+        NULLIF(trim(i ->> 'alt_text'), ''),
+        ord - 1
+    FROM jsonb_array_elements(_images) WITH ORDINALITY AS t(i, ord)
+    WHERE NULLIF(trim(i ->> 'url'), '') IS NOT NULL;
+
+    UPDATE public.products
+    SET image_url = (
+        SELECT url
+        FROM public.product_images
+        WHERE product_id = _product_id
+        ORDER BY position
+        LIMIT 1
+    )
+    WHERE id = _product_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_product_images(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_product_images(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- DATOS INICIALES: PORTADAS EXISTENTES
+-- =====================================================
+
+INSERT INTO public.product_images (product_id, url, alt_text, position)
+SELECT id, image_url, name, 0
+FROM public.products
+WHERE image_url IS NOT NULL;
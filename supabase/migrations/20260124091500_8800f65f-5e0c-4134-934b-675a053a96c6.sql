@@ -0,0 +1,31 @@
+-- =====================================================
+-- STORAGE: IMÁGENES DE PRODUCTOS Y CATEGORÍAS
+-- =====================================================
+
+-- Bucket público: las imágenes se sirven por URL pública (products/..., categories/...)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'product-images',
+    'product-images',
+    true,
+    5242880,
+    ARRAY['image/webp', 'image/jpeg', 'image/png', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Lectura pública, escritura solo para admins
+CREATE POLICY "Product images are publicly readable"
+    ON storage.objects FOR SELECT
+    USING (bucket_id = 'product-images');
+
+CREATE POLICY "Admins can upload product images"
+    ON storage.objects FOR INSERT
+    WITH CHECK (bucket_id = 'product-images' AND public.is_admin());
+
+CREATE POLICY "Admins can update product images"
+    ON storage.objects FOR UPDATE
+    USING (bucket_id = 'product-images' AND public.is_admin());
+
+CREATE POLICY "Admins can delete product images"
+    ON storage.objects FOR DELETE
+    USING (bucket_id = 'product-images' AND public.is_admin());
@@ -0,0 +1,134 @@
+-- =====================================================
+-- BÚSQUEDA DE PRODUCTOS A TEXTO COMPLETO
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- Español sin acentos: "lampara" encuentra "Lámpara" y "lámparas"
+CREATE TEXT SEARCH CONFIGURATION public.es_unaccent (COPY = pg_catalog.spanish);
+
+ALTER TEXT SEARCH CONFIGURATION public.es_unaccent
+    ALTER MAPPING FOR hword, hword_part, word
+    WITH extensions.unaccent, spanish_stem;
+
+-- Nombre (A), categoría (B) y descripción (C)
+CREATE OR REPLACE FUNCTION public.build_product_search_vector(
+    _name TEXT,
+    _description TEXT,
+    _category_id UUID
+)
+RETURNS TSVECTOR
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        setweight(to_tsvector('public.es_unaccent', COALESCE(_name, '')), 'A') ||
+        setweight(to_tsvector('public.es_unaccent', COALESCE((SELECT name FROM public.categories WHERE id = _category_id), '')), 'B') ||
+        setweight(to_tsvector('public.es_unaccent', COALESCE(_description, '')), 'C');
+$$;
+
+ALTER TABLE public.products ADD COLUMN search_vector TSVECTOR;
+
+CREATE INDEX products_search_vector_idx ON public.products USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.update_product_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    NEW.search_vector := public.build_product_search_vector(NEW.name, NEW.description, NEW.category_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_search_fields_changed
+    BEFORE INSERT OR UPDATE OF name, description, category_id ON public.products
+    FOR EACH ROW EXECUTE FUNCTION public.update_product_search_vector();
+
+-- Al renombrar una categoría se reindexan sus productos
+CREATE OR REPLACE FUNCTION public.reindex_category_products()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.products
+    SET search_vector = public.build_product_search_vector(name, description, category_id)
+    WHERE category_id = NEW.id;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_category_name_changed
+    AFTER UPDATE OF name ON public.categories
+    FOR EACH ROW
+    WHEN (OLD.name IS DISTINCT FROM NEW.name)
+    EXECUTE FUNCTION public.reindex_category_products();
+
+UPDATE public.products
+SET search_vector = public.build_product_search_vector(name, description, category_id);
+
+-- =====================================================
+-- RPC DE BÚSQUEDA
+-- =====================================================
+
+-- Resultados ordenados por relevancia con el nombre y un fragmento de la
+-- descripción resaltados con <mark>. Además de la búsqueda con stemming,
+-- cada palabra se usa como prefijo para que "lam" ya encuentre "Lámpara".
+CREATE OR REPLACE FUNCTION public.search_products(_query TEXT, _limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    id UUID,
+    rank REAL,
+    name_highlight TEXT,
+    snippet TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    _tsquery TSQUERY;
+    _prefix_query TSQUERY;
+BEGIN
+    IF COALESCE(trim(_query), '') = '' THEN
+        RETURN;
+    END IF;
+
+    _tsquery := websearch_to_tsquery('public.es_unaccent', _query);
+
+    SELECT to_tsquery('simple', string_agg(w || ':*', ' & '))
+    INTO _prefix_query
+    FROM (
+        SELECT regexp_replace(lower(extensions.unaccent(w)), '[^[:alnum:]]', '', 'g') AS w
+        FROM regexp_split_to_table(trim(_query), '\s+') AS w
+    ) words
+    WHERE w <> '';
+
+    IF numnode(_tsquery) = 0 THEN
+        _tsquery := _prefix_query;
+    ELSIF _prefix_query IS NOT NULL THEN
+        _tsquery := _tsquery || _prefix_query;
+    END IF;
+
+    IF _tsquery IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        ts_rank(p.search_vector, _tsquery) AS rank,
+        ts_headline('public.es_unaccent', p.name, _tsquery,
+            'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+        ts_headline('public.es_unaccent', COALESCE(p.description, ''), _tsquery,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, ShortWord=2, MaxFragments=1')
+    FROM public.products p
+    WHERE p.search_vector @@ _tsquery
+    ORDER BY rank DESC, p.featured DESC, p.name
+    LIMIT _limit;
+END;
+$$;
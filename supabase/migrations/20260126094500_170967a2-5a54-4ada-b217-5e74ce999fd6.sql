@@ -0,0 +1,35 @@
+-- =====================================================
+-- FACETAS DEL CATÁLOGO
+-- =====================================================
+
+-- Número de productos por categoría con el resto de filtros aplicados
+-- (búsqueda, precio, stock y destacados). El filtro de categoría no se
+-- aplica para que cada opción muestre cuántos resultados añadiría.
+CREATE OR REPLACE FUNCTION public.get_category_counts(
+    _search TEXT DEFAULT NULL,
+    _min_price DECIMAL DEFAULT NULL,
+    _max_price DECIMAL DEFAULT NULL,
+    _in_stock BOOLEAN DEFAULT false,
+    _featured BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    category_id UUID,
+    product_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT p.category_id, COUNT(*)::INTEGER
+    FROM public.products p
+    WHERE p.category_id IS NOT NULL
+    AND (
+        COALESCE(trim(_search), '') = ''
+        OR p.id IN (SELECT s.id FROM public.search_products(_search, 1000) s)
+    )
+    AND (_min_price IS NULL OR p.price >= _min_price)
+    AND (_max_price IS NULL OR p.price <= _max_price)
+    AND (NOT _in_stock OR p.stock > 0)
+    AND (NOT _featured OR p.featured)
+    GROUP BY p.category_id;
+$$;
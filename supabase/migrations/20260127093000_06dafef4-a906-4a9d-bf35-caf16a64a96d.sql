@@ -0,0 +1,179 @@
+-- =====================================================
+-- MUTACIONES ATÓMICAS DEL CARRITO
+-- =====================================================
+
+-- Mismo criterio que las políticas RLS de carts: el carrito del usuario
+-- autenticado o un carrito de invitado identificado por session_id
+CREATE OR REPLACE FUNCTION public.can_access_cart(_cart_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.carts
+        WHERE id = _cart_id
+        AND (
+            (auth.uid() IS NOT NULL AND user_id = auth.uid())
+            OR (user_id IS NULL AND session_id IS NOT NULL)
+        )
+    );
+$$;
+
+-- Unidades que se pueden tener en el carrito: el stock de la variante o,
+-- si el producto no tiene variantes, el del producto
+CREATE OR REPLACE FUNCTION public.get_purchasable_stock(_product_id UUID, _variant_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _has_variants BOOLEAN;
+    _stock INTEGER;
+BEGIN
+    SELECT has_variants, stock INTO _has_variants, _stock
+    FROM public.products
+    WHERE id = _product_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Producto no encontrado';
+    END IF;
+
+    IF _variant_id IS NULL THEN
+        IF _has_variants THEN
+            RAISE EXCEPTION 'Selecciona una variante del producto';
+        END IF;
+        RETURN _stock;
+    END IF;
+
+    SELECT stock INTO _stock
+    FROM public.product_variants
+    WHERE id = _variant_id
+    AND product_id = _product_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variante no encontrada';
+    END IF;
+
+    RETURN _stock;
+END;
+$$;
+
+-- Suma unidades a una línea del carrito (o la crea) en una sola sentencia,
+-- sin la carrera entre buscar e insertar. La cantidad se limita al stock
+-- disponible y clamped indica si se pidió más de lo que hay.
+CREATE OR REPLACE FUNCTION public.add_cart_item(
+    _cart_id UUID,
+    _product_id UUID,
+    _variant_id UUID DEFAULT NULL,
+    _quantity INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+    item_id UUID,
+    quantity INTEGER,
+    available INTEGER,
+    clamped BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _available INTEGER;
+    _current INTEGER;
+    _item_id UUID;
+    _quantity_saved INTEGER;
+BEGIN
+    IF _quantity IS NULL OR _quantity < 1 THEN
+        RAISE EXCEPTION 'La cantidad debe ser al menos 1';
+    END IF;
+
+    IF NOT public.can_access_cart(_cart_id) THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    _available := public.get_purchasable_stock(_product_id, _variant_id);
+
+    IF _available <= 0 THEN
+        RAISE EXCEPTION 'Este producto está agotado' USING HINT = 'out_of_stock';
+    END IF;
+
+    SELECT ci.quantity INTO _current
+    FROM public.cart_items ci
+    WHERE ci.cart_id = _cart_id
+    AND ci.product_id = _product_id
+    AND ci.variant_id IS NOT DISTINCT FROM _variant_id;
+
+    INSERT INTO public.cart_items AS ci (cart_id, product_id, variant_id, quantity)
+    VALUES (_cart_id, _product_id, _variant_id, LEAST(_quantity, _available))
+    ON CONFLICT ON CONSTRAINT cart_items_cart_id_product_id_variant_id_key
+    DO UPDATE SET quantity = LEAST(ci.quantity + EXCLUDED.quantity, _available)
+    RETURNING ci.id, ci.quantity INTO _item_id, _quantity_saved;
+
+    RETURN QUERY SELECT
+        _item_id,
+        _quantity_saved,
+        _available,
+        COALESCE(_current, 0) + _quantity > _available;
+END;
+$$;
+
+-- Fija la cantidad de una línea limitándola al stock; 0 o menos la elimina
+CREATE OR REPLACE FUNCTION public.set_cart_item_quantity(
+    _item_id UUID,
+    _quantity INTEGER
+)
+RETURNS TABLE (
+    item_id UUID,
+    quantity INTEGER,
+    available INTEGER,
+    clamped BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _item public.cart_items%ROWTYPE;
+    _available INTEGER;
+    _quantity_saved INTEGER;
+BEGIN
+    SELECT * INTO _item
+    FROM public.cart_items
+    WHERE id = _item_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.can_access_cart(_item.cart_id) THEN
+        RAISE EXCEPTION 'Producto no encontrado en el carrito';
+    END IF;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+        DELETE FROM public.cart_items WHERE id = _item_id;
+        RETURN QUERY SELECT _item_id, 0, NULL::INTEGER, false;
+        RETURN;
+    END IF;
+
+    _available := public.get_purchasable_stock(_item.product_id, _item.variant_id);
+
+    IF _available <= 0 THEN
+        RAISE EXCEPTION 'Este producto está agotado' USING HINT = 'out_of_stock';
+    END IF;
+
+    UPDATE public.cart_items ci
+    SET quantity = LEAST(_quantity, _available)
+    WHERE ci.id = _item_id
+    RETURNING ci.quantity INTO _quantity_saved;
+
+    RETURN QUERY SELECT _item_id, _quantity_saved, _available, _quantity > _available;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_access_cart(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_purchasable_stock(UUID, UUID) FROM PUBLIC, anon, authenticated;
+-- Los invitados también tienen carrito, así que anon puede llamarlas
+GRANT EXECUTE ON FUNCTION public.add_cart_item(UUID, UUID, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_cart_item_quantity(UUID, INTEGER) TO anon, authenticated;
@@ -0,0 +1,101 @@
+-- =====================================================
+-- FUSIÓN DEL CARRITO DE INVITADO AL INICIAR SESIÓN
+-- =====================================================
+
+-- Pasa las líneas del carrito de invitado (_session_id) al carrito del
+-- usuario autenticado, sumando cantidades y limitándolas al stock, y borra
+-- el carrito de invitado. Devuelve una fila por línea fusionada; capped
+-- indica que no cupieron todas las unidades.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(_session_id TEXT)
+RETURNS TABLE (
+    product_id UUID,
+    variant_id UUID,
+    product_name TEXT,
+    requested INTEGER,
+    quantity INTEGER,
+    capped BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _guest_cart_id UUID;
+    _user_cart_id UUID;
+    _line RECORD;
+    _available INTEGER;
+    _current INTEGER;
+    _quantity_saved INTEGER;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para fusionar el carrito';
+    END IF;
+
+    SELECT id INTO _guest_cart_id
+    FROM public.carts
+    WHERE session_id = _session_id
+    AND user_id IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT id INTO _user_cart_id
+    FROM public.carts
+    WHERE user_id = _user_id
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        INSERT INTO public.carts (user_id)
+        VALUES (_user_id)
+        RETURNING id INTO _user_cart_id;
+    END IF;
+
+    FOR _line IN
+        SELECT ci.product_id, ci.variant_id, ci.quantity,
+               p.name || COALESCE(' (' || v.title || ')', '') AS name,
+               COALESCE(v.stock, p.stock) AS stock
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+        WHERE ci.cart_id = _guest_cart_id
+        ORDER BY ci.created_at
+    LOOP
+        _available := GREATEST(_line.stock, 0);
+
+        SELECT ci.quantity INTO _current
+        FROM public.cart_items ci
+        WHERE ci.cart_id = _user_cart_id
+        AND ci.product_id = _line.product_id
+        AND ci.variant_id IS NOT DISTINCT FROM _line.variant_id;
+
+        _current := COALESCE(_current, 0);
+        _quantity_saved := LEAST(_current + _line.quantity, GREATEST(_available, _current));
+
+        IF _quantity_saved > 0 THEN
+            INSERT INTO public.cart_items AS ci (cart_id, product_id, variant_id, quantity)
+            VALUES (_user_cart_id, _line.product_id, _line.variant_id, _quantity_saved)
+            ON CONFLICT ON CONSTRAINT cart_items_cart_id_product_id_variant_id_key
+            DO UPDATE SET quantity = EXCLUDED.quantity;
+        END IF;
+
+        RETURN QUERY SELECT
+            _line.product_id,
+            _line.variant_id,
+            _line.name,
+            _line.quantity,
+            _quantity_saved - _current,
+            _quantity_saved - _current < _line.quantity;
+    END LOOP;
+
+    -- Las líneas se borran en cascada
+    DELETE FROM public.carts WHERE id = _guest_cart_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_cart(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(TEXT) TO authenticated;
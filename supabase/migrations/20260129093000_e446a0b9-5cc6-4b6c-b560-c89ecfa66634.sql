@@ -0,0 +1,205 @@
+-- =====================================================
+-- CARRITOS DE INVITADO LIGADOS A UNA SESIÓN ANÓNIMA
+-- =====================================================
+
+-- Hasta ahora cualquier cliente podía leer y modificar todos los carritos
+-- con session_id. Los invitados pasan a iniciar una sesión anónima de
+-- Supabase Auth, de modo que su carrito queda ligado a auth.uid() y solo
+-- el navegador que tiene el token puede usarlo.
+
+-- Los carritos por session_id no se pueden atribuir a nadie de forma segura
+DELETE FROM public.carts WHERE user_id IS NULL;
+
+ALTER TABLE public.carts
+    DROP CONSTRAINT cart_user_or_session,
+    DROP COLUMN session_id,
+    ALTER COLUMN user_id SET NOT NULL;
+
+-- Un carrito por usuario (anónimo o registrado)
+DELETE FROM public.carts c
+USING public.carts newer
+WHERE c.user_id = newer.user_id
+AND (c.created_at, c.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.carts
+    ADD CONSTRAINT carts_user_id_key UNIQUE (user_id);
+
+-- Sesiones anónimas: auth.uid() existe pero el token lleva is_anonymous
+CREATE OR REPLACE FUNCTION public.is_anonymous_user()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE((auth.jwt() ->> 'is_anonymous')::BOOLEAN, false);
+$$;
+
+-- =====================================================
+-- POLÍTICAS
+-- =====================================================
+
+DROP POLICY IF EXISTS "Users can manage own cart" ON public.carts;
+DROP POLICY IF EXISTS "Allow insert for session carts" ON public.carts;
+DROP POLICY IF EXISTS "Users can view own cart items" ON public.cart_items;
+DROP POLICY IF EXISTS "Users can manage own cart items" ON public.cart_items;
+
+CREATE POLICY "Users can manage own cart"
+    ON public.carts FOR ALL
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can manage own cart items"
+    ON public.cart_items FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.carts
+            WHERE carts.id = cart_items.cart_id
+            AND carts.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.carts
+            WHERE carts.id = cart_items.cart_id
+            AND carts.user_id = auth.uid()
+        )
+    );
+
+-- Las RPC del carrito siguen el mismo criterio que las políticas
+CREATE OR REPLACE FUNCTION public.can_access_cart(_cart_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.carts
+        WHERE id = _cart_id
+        AND user_id = auth.uid()
+    );
+$$;
+
+-- Un invitado puede llenar el carrito pero no comprar: place_order y
+-- cualquier inserción futura pasan por aquí
+CREATE OR REPLACE FUNCTION public.prevent_anonymous_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF public.is_anonymous_user() THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_anonymous_orders
+    BEFORE INSERT ON public.orders
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_anonymous_orders();
+
+-- =====================================================
+-- FUSIÓN DEL CARRITO DE INVITADO
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.merge_guest_cart(TEXT);
+
+-- Pasa las líneas del carrito de la sesión anónima anterior al carrito del
+-- usuario que acaba de iniciar sesión. Tras el cambio de sesión el cliente
+-- ya no tiene el token anónimo, así que demuestra la propiedad con el id del
+-- carrito, que las políticas solo revelan a su dueño. Solo se aceptan
+-- carritos de usuarios anónimos.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(_guest_cart_id UUID)
+RETURNS TABLE (
+    product_id UUID,
+    variant_id UUID,
+    product_name TEXT,
+    requested INTEGER,
+    quantity INTEGER,
+    capped BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _user_cart_id UUID;
+    _line RECORD;
+    _available INTEGER;
+    _current INTEGER;
+    _quantity_saved INTEGER;
+BEGIN
+    IF _user_id IS NULL OR public.is_anonymous_user() THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para fusionar el carrito';
+    END IF;
+
+    PERFORM 1
+    FROM public.carts c
+    JOIN auth.users u ON u.id = c.user_id
+    WHERE c.id = _guest_cart_id
+    AND u.is_anonymous
+    FOR UPDATE OF c;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.carts (user_id)
+    VALUES (_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT id INTO _user_cart_id
+    FROM public.carts
+    WHERE user_id = _user_id
+    FOR UPDATE;
+
+    FOR _line IN
+        SELECT ci.product_id, ci.variant_id, ci.quantity,
+               p.name || COALESCE(' (' || v.title || ')', '') AS name,
+               COALESCE(v.stock, p.stock) AS stock
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+        WHERE ci.cart_id = _guest_cart_id
+        ORDER BY ci.created_at
+    LOOP
+        _available := GREATEST(_line.stock, 0);
+
+        SELECT ci.quantity INTO _current
+        FROM public.cart_items ci
+        WHERE ci.cart_id = _user_cart_id
+        AND ci.product_id = _line.product_id
+        AND ci.variant_id IS NOT DISTINCT FROM _line.variant_id;
+
+        _current := COALESCE(_current, 0);
+        _quantity_saved := LEAST(_current + _line.quantity, GREATEST(_available, _current));
+
+        IF _quantity_saved > 0 THEN
+            INSERT INTO public.cart_items AS ci (cart_id, product_id, variant_id, quantity)
+            VALUES (_user_cart_id, _line.product_id, _line.variant_id, _quantity_saved)
+            ON CONFLICT ON CONSTRAINT cart_items_cart_id_product_id_variant_id_key
+            DO UPDATE SET quantity = EXCLUDED.quantity;
+        END IF;
+
+        RETURN QUERY SELECT
+            _line.product_id,
+            _line.variant_id,
+            _line.name,
+            _line.quantity,
+            _quantity_saved - _current,
+            _quantity_saved - _current < _line.quantity;
+    END LOOP;
+
+    -- Las líneas se borran en cascada
+    DELETE FROM public.carts WHERE id = _guest_cart_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_cart(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(UUID) TO authenticated;
+-- Las sesiones anónimas usan el rol authenticated, no anon
+REVOKE EXECUTE ON FUNCTION public.add_cart_item(UUID, UUID, UUID, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_cart_item_quantity(UUID, INTEGER) FROM PUBLIC, anon;
@@ -0,0 +1,240 @@
+-- =====================================================
+-- PRECIO DE CADA LÍNEA DEL CARRITO
+-- =====================================================
+
+-- Precio unitario que vio el cliente al añadir el producto. El total del
+-- carrito se calcula con el precio actual, pero si difiere de este el
+-- cliente debe aceptarlo antes de confirmar el pedido.
+ALTER TABLE public.cart_items
+    ADD COLUMN unit_price DECIMAL(10,2);
+
+-- Precio vigente: el de la variante si tiene uno propio, si no el del producto
+CREATE OR REPLACE FUNCTION public.get_current_price(_product_id UUID, _variant_id UUID)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(v.price, p.price)
+    FROM public.products p
+    LEFT JOIN public.product_variants v ON v.id = _variant_id AND v.product_id = p.id
+    WHERE p.id = _product_id;
+$$;
+
+UPDATE public.cart_items
+SET unit_price = public.get_current_price(product_id, variant_id);
+
+ALTER TABLE public.cart_items
+    ALTER COLUMN unit_price SET NOT NULL;
+
+-- Las líneas nuevas (add_cart_item, fusión del carrito de invitado) guardan
+-- el precio del momento; al sumar unidades a una línea se conserva el suyo
+CREATE OR REPLACE FUNCTION public.set_cart_item_unit_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.unit_price IS NULL THEN
+        NEW.unit_price := public.get_current_price(NEW.product_id, NEW.variant_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_cart_item_unit_price
+    BEFORE INSERT ON public.cart_items
+    FOR EACH ROW EXECUTE FUNCTION public.set_cart_item_unit_price();
+
+-- El cliente acepta los precios actuales de todas las líneas de su carrito
+CREATE OR REPLACE FUNCTION public.accept_cart_prices(_cart_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _updated INTEGER;
+BEGIN
+    IF NOT public.can_access_cart(_cart_id) THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    UPDATE public.cart_items
+    SET unit_price = public.get_current_price(product_id, variant_id)
+    WHERE cart_id = _cart_id
+    AND unit_price IS DISTINCT FROM public.get_current_price(product_id, variant_id);
+
+    GET DIAGNOSTICS _updated = ROW_COUNT;
+    RETURN _updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_cart_prices(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_cart_prices(UUID) TO authenticated;
+
+-- =====================================================
+-- PLACE_ORDER CON PRECIOS ACEPTADOS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _total DECIMAL(10,2);
+    _shortages JSONB;
+    _price_changes JSONB;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Un producto con variantes solo puede comprarse eligiendo una
+    IF EXISTS (
+        SELECT 1
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+        AND ci.variant_id IS NULL
+        AND p.has_variants
+    ) THEN
+        RAISE EXCEPTION 'Selecciona una variante para todos los productos del carrito';
+    END IF;
+
+    -- Bloquear productos y variantes en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM 1
+    FROM public.product_variants
+    WHERE id IN (SELECT variant_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'requested', ci.quantity,
+        'available', COALESCE(v.stock, p.stock)
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    -- Los productos bloqueados ya no pueden cambiar de precio hasta el final
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'unit_price', ci.unit_price,
+        'current_price', COALESCE(v.price, p.price)
+    ))
+    INTO _price_changes
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.unit_price <> COALESCE(v.price, p.price);
+
+    IF _price_changes IS NOT NULL THEN
+        RAISE EXCEPTION 'El precio de algunos productos ha cambiado'
+            USING DETAIL = _price_changes::text, HINT = 'price_changed';
+    END IF;
+
+    SELECT SUM(COALESCE(v.price, p.price) * ci.quantity)
+    INTO _total
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    INSERT INTO public.orders (user_id, total, status, shipping_address, shipping_city, payment_method, notes)
+    VALUES (_user_id, _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), ''))
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, product_name, variant_title, product_price, quantity, subtotal)
+    SELECT
+        _order_id,
+        p.id,
+        v.id,
+        p.name,
+        v.title,
+        COALESCE(v.price, p.price),
+        ci.quantity,
+        COALESCE(v.price, p.price) * ci.quantity
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND oi.variant_id IS NULL
+    AND p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - oi.quantity,
+        reserved = v.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND v.id = oi.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT _order_id, product_id, variant_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
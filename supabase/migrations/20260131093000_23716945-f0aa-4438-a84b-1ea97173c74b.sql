@@ -0,0 +1,10 @@
+-- =====================================================
+-- CARRITO EN TIEMPO REAL
+-- =====================================================
+
+-- Publica los cambios de las líneas del carrito para que otras pestañas y
+-- dispositivos del mismo usuario se actualicen al instante. Realtime aplica
+-- las políticas RLS de cart_items, así que cada sesión (también las anónimas)
+-- solo recibe las filas de su propio carrito. Los DELETE no pasan por RLS y
+-- solo incluyen la clave primaria.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.cart_items;
@@ -0,0 +1,416 @@
+-- =====================================================
+-- CUPONES DE DESCUENTO
+-- =====================================================
+
+-- Un cupón descuenta un porcentaje o un importe fijo de los productos a los
+-- que aplica, o deja el envío gratis. Si no tiene productos ni categorías
+-- aplica a todo el carrito.
+CREATE TABLE public.coupons (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]+$'),
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_shipping')),
+    discount_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+    min_subtotal DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+    product_ids UUID[] NOT NULL DEFAULT '{}',
+    category_ids UUID[] NOT NULL DEFAULT '{}',
+    -- NULL = sin límite
+    usage_limit INTEGER CHECK (usage_limit > 0),
+    usage_limit_per_user INTEGER CHECK (usage_limit_per_user > 0),
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT coupons_percentage_check CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+    CONSTRAINT coupons_validity_check CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+
+-- Coupons: solo los admins los ven y gestionan. Los clientes los validan
+-- mediante funciones para no poder listar los códigos.
+CREATE POLICY "Admins can manage coupons"
+    ON public.coupons FOR ALL
+    USING (public.is_admin());
+
+CREATE TRIGGER update_coupons_updated_at
+    BEFORE UPDATE ON public.coupons
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Cupón aplicado al carrito; se vuelve a validar al confirmar el pedido
+ALTER TABLE public.carts
+    ADD COLUMN coupon_code TEXT;
+
+-- Descuento aplicado al pedido. El total ya lo tiene restado.
+ALTER TABLE public.orders
+    ADD COLUMN subtotal DECIMAL(10,2),
+    ADD COLUMN discount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL,
+    ADD COLUMN coupon_code TEXT;
+
+UPDATE public.orders SET subtotal = total;
+
+ALTER TABLE public.orders
+    ALTER COLUMN subtotal SET NOT NULL,
+    ALTER COLUMN subtotal SET DEFAULT 0;
+
+CREATE INDEX orders_coupon_id_idx ON public.orders (coupon_id);
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Comprueba si el cupón se puede usar en el carrito y calcula el descuento.
+-- Los usos cuentan los pedidos no cancelados. Uso interno: la llaman
+-- set_cart_coupon, get_cart_coupon y place_order.
+CREATE OR REPLACE FUNCTION public.evaluate_coupon(_code TEXT, _cart_id UUID, _user_id UUID)
+RETURNS TABLE (
+    coupon_id UUID,
+    code TEXT,
+    discount_type TEXT,
+    discount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _coupon public.coupons%ROWTYPE;
+    _uses INTEGER;
+    _subtotal DECIMAL(10,2);
+    _eligible DECIMAL(10,2);
+    _discount DECIMAL(10,2) := 0;
+BEGIN
+    SELECT * INTO _coupon
+    FROM public.coupons c
+    WHERE c.code = upper(trim(_code));
+
+    IF NOT FOUND OR NOT _coupon.active THEN
+        RAISE EXCEPTION 'El cupón no es válido' USING HINT = 'invalid_coupon';
+    END IF;
+
+    IF _coupon.starts_at IS NOT NULL AND _coupon.starts_at > now() THEN
+        RAISE EXCEPTION 'El cupón todavía no está vigente' USING HINT = 'invalid_coupon';
+    END IF;
+
+    IF _coupon.ends_at IS NOT NULL AND _coupon.ends_at <= now() THEN
+        RAISE EXCEPTION 'El cupón ha caducado' USING HINT = 'invalid_coupon';
+    END IF;
+
+    IF _coupon.usage_limit IS NOT NULL THEN
+        SELECT count(*) INTO _uses
+        FROM public.orders o
+        WHERE o.coupon_id = _coupon.id
+        AND o.status <> 'cancelled';
+
+        IF _uses >= _coupon.usage_limit THEN
+            RAISE EXCEPTION 'El cupón ya no tiene usos disponibles' USING HINT = 'invalid_coupon';
+        END IF;
+    END IF;
+
+    IF _coupon.usage_limit_per_user IS NOT NULL THEN
+        SELECT count(*) INTO _uses
+        FROM public.orders o
+        WHERE o.coupon_id = _coupon.id
+        AND o.user_id = _user_id
+        AND o.status <> 'cancelled';
+
+        IF _uses >= _coupon.usage_limit_per_user THEN
+            RAISE EXCEPTION 'Ya has usado este cupón el máximo de veces permitido' USING HINT = 'invalid_coupon';
+        END IF;
+    END IF;
+
+    SELECT
+        COALESCE(SUM(COALESCE(v.price, p.price) * ci.quantity), 0),
+        COALESCE(SUM(COALESCE(v.price, p.price) * ci.quantity) FILTER (
+            WHERE (cardinality(_coupon.product_ids) = 0 AND cardinality(_coupon.category_ids) = 0)
+            OR p.id = ANY(_coupon.product_ids)
+            OR p.category_id = ANY(_coupon.category_ids)
+        ), 0)
+    INTO _subtotal, _eligible
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    IF _subtotal < _coupon.min_subtotal THEN
+        RAISE EXCEPTION 'El cupón requiere una compra mínima de $%', _coupon.min_subtotal
+            USING HINT = 'invalid_coupon';
+    END IF;
+
+    IF _eligible = 0 THEN
+        RAISE EXCEPTION 'El cupón no aplica a ningún producto del carrito' USING HINT = 'invalid_coupon';
+    END IF;
+
+    IF _coupon.discount_type = 'percentage' THEN
+        _discount := round(_eligible * _coupon.discount_value / 100, 2);
+    ELSIF _coupon.discount_type = 'fixed' THEN
+        _discount := LEAST(_coupon.discount_value, _eligible);
+    END IF;
+
+    RETURN QUERY SELECT _coupon.id, _coupon.code, _coupon.discount_type, _discount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_coupon(TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Aplica un cupón al carrito si es válido; un código vacío lo quita
+CREATE OR REPLACE FUNCTION public.set_cart_coupon(_cart_id UUID, _code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.can_access_cart(_cart_id) THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF COALESCE(trim(_code), '') = '' THEN
+        UPDATE public.carts SET coupon_code = NULL WHERE id = _cart_id;
+        RETURN;
+    END IF;
+
+    PERFORM 1 FROM public.evaluate_coupon(_code, _cart_id, auth.uid());
+
+    UPDATE public.carts SET coupon_code = upper(trim(_code)) WHERE id = _cart_id;
+END;
+$$;
+
+-- Descuento que tendría ahora el cupón del carrito. Si ha dejado de ser
+-- válido (caducado, por debajo del mínimo...) se devuelve el motivo en error.
+CREATE OR REPLACE FUNCTION public.get_cart_coupon(_cart_id UUID)
+RETURNS TABLE (
+    code TEXT,
+    discount_type TEXT,
+    discount DECIMAL(10,2),
+    error TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _code TEXT;
+BEGIN
+    IF NOT public.can_access_cart(_cart_id) THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    SELECT c.coupon_code INTO _code
+    FROM public.carts c
+    WHERE c.id = _cart_id;
+
+    IF _code IS NULL THEN
+        RETURN;
+    END IF;
+
+    BEGIN
+        RETURN QUERY
+        SELECT e.code, e.discount_type, e.discount, NULL::TEXT
+        FROM public.evaluate_coupon(_code, _cart_id, auth.uid()) e;
+    EXCEPTION WHEN raise_exception THEN
+        RETURN QUERY SELECT _code, NULL::TEXT, 0::DECIMAL(10,2), SQLERRM;
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_cart_coupon(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_cart_coupon(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_cart_coupon(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_cart_coupon(UUID) TO authenticated;
+
+-- =====================================================
+-- PLACE_ORDER CON CUPÓN
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _subtotal DECIMAL(10,2);
+    _total DECIMAL(10,2);
+    _coupon_code TEXT;
+    _coupon_id UUID;
+    _discount DECIMAL(10,2) := 0;
+    _shortages JSONB;
+    _price_changes JSONB;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Un producto con variantes solo puede comprarse eligiendo una
+    IF EXISTS (
+        SELECT 1
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+        AND ci.variant_id IS NULL
+        AND p.has_variants
+    ) THEN
+        RAISE EXCEPTION 'Selecciona una variante para todos los productos del carrito';
+    END IF;
+
+    -- Bloquear productos y variantes en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM 1
+    FROM public.product_variants
+    WHERE id IN (SELECT variant_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'requested', ci.quantity,
+        'available', COALESCE(v.stock, p.stock)
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    -- Los productos bloqueados ya no pueden cambiar de precio hasta el final
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'unit_price', ci.unit_price,
+        'current_price', COALESCE(v.price, p.price)
+    ))
+    INTO _price_changes
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.unit_price <> COALESCE(v.price, p.price);
+
+    IF _price_changes IS NOT NULL THEN
+        RAISE EXCEPTION 'El precio de algunos productos ha cambiado'
+            USING DETAIL = _price_changes::text, HINT = 'price_changed';
+    END IF;
+
+    SELECT SUM(COALESCE(v.price, p.price) * ci.quantity)
+    INTO _subtotal
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    SELECT coupon_code INTO _coupon_code
+    FROM public.carts
+    WHERE id = _cart_id;
+
+    IF _coupon_code IS NOT NULL THEN
+        -- Bloquear el cupón evita que dos pedidos simultáneos superen su límite de usos
+        PERFORM 1 FROM public.coupons WHERE code = _coupon_code FOR UPDATE;
+
+        SELECT e.coupon_id, e.discount
+        INTO _coupon_id, _discount
+        FROM public.evaluate_coupon(_coupon_code, _cart_id, _user_id) e;
+    END IF;
+
+    _total := _subtotal - _discount;
+
+    INSERT INTO public.orders (
+        user_id, subtotal, discount, coupon_id, coupon_code, total, status,
+        shipping_address, shipping_city, payment_method, notes
+    )
+    VALUES (
+        _user_id, _subtotal, _discount, _coupon_id, _coupon_code, _total, 'pending',
+        trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), '')
+    )
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, product_name, variant_title, product_price, quantity, subtotal)
+    SELECT
+        _order_id,
+        p.id,
+        v.id,
+        p.name,
+        v.title,
+        COALESCE(v.price, p.price),
+        ci.quantity,
+        COALESCE(v.price, p.price) * ci.quantity
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND oi.variant_id IS NULL
+    AND p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - oi.quantity,
+        reserved = v.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND v.id = oi.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT _order_id, product_id, variant_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+    UPDATE public.carts SET coupon_code = NULL WHERE id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
+
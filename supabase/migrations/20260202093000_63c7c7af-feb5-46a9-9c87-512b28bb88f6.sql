@@ -0,0 +1,417 @@
+-- =====================================================
+-- ZONAS Y MÉTODOS DE ENVÍO
+-- =====================================================
+
+-- Peso en kg para los métodos que cobran por peso
+ALTER TABLE public.products
+    ADD COLUMN weight DECIMAL(10,3) NOT NULL DEFAULT 0 CHECK (weight >= 0);
+
+-- Una zona agrupa ciudades con los mismos métodos de envío. La zona sin
+-- ciudades cubre las que no aparecen en ninguna otra (solo puede haber una).
+CREATE TABLE public.shipping_zones (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    cities TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX shipping_zones_fallback_idx ON public.shipping_zones ((true)) WHERE cardinality(cities) = 0;
+
+-- Tarifa plana, base + coste por kg, o gratis a partir de un importe
+CREATE TABLE public.shipping_methods (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    zone_id UUID NOT NULL REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'standard' CHECK (kind IN ('standard', 'express', 'pickup')),
+    pricing TEXT NOT NULL DEFAULT 'flat' CHECK (pricing IN ('flat', 'weight', 'free_over')),
+    base_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (base_cost >= 0),
+    cost_per_kg DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (cost_per_kg >= 0),
+    free_over DECIMAL(10,2) CHECK (free_over >= 0),
+    estimated_days TEXT,
+    active BOOLEAN NOT NULL DEFAULT true,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT shipping_methods_free_over_check CHECK (pricing <> 'free_over' OR free_over IS NOT NULL)
+);
+
+CREATE INDEX shipping_methods_zone_id_idx ON public.shipping_methods (zone_id);
+
+ALTER TABLE public.shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_methods ENABLE ROW LEVEL SECURITY;
+
+-- Shipping: públicos para leer, admins para gestionar
+CREATE POLICY "Shipping zones are viewable by everyone"
+    ON public.shipping_zones FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage shipping zones"
+    ON public.shipping_zones FOR ALL
+    USING (public.is_admin());
+
+CREATE POLICY "Shipping methods are viewable by everyone"
+    ON public.shipping_methods FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage shipping methods"
+    ON public.shipping_methods FOR ALL
+    USING (public.is_admin());
+
+CREATE TRIGGER update_shipping_zones_updated_at
+    BEFORE UPDATE ON public.shipping_zones
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_shipping_methods_updated_at
+    BEFORE UPDATE ON public.shipping_methods
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Envío elegido en el pedido. El nombre se copia por si el método cambia.
+ALTER TABLE public.orders
+    ADD COLUMN shipping_method_id UUID REFERENCES public.shipping_methods(id) ON DELETE SET NULL,
+    ADD COLUMN shipping_method TEXT,
+    ADD COLUMN shipping_cost DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Compara ciudades sin distinguir mayúsculas, acentos ni espacios de más
+CREATE OR REPLACE FUNCTION public.normalize_city(_city TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT translate(
+        lower(regexp_replace(trim(_city), '\s+', ' ', 'g')),
+        'áàäâéèëêíìïîóòöôúùüû',
+        'aaaaeeeeiiiioooouuuu'
+    );
+$$;
+
+-- Métodos de envío de la zona de la ciudad con su coste para el carrito.
+-- _merchandise es el importe de los productos ya descontado. Uso interno:
+-- la llaman get_shipping_options y place_order.
+CREATE OR REPLACE FUNCTION public.shipping_quotes(
+    _cart_id UUID,
+    _city TEXT,
+    _merchandise DECIMAL,
+    _free_shipping BOOLEAN
+)
+RETURNS TABLE (
+    method_id UUID,
+    name TEXT,
+    kind TEXT,
+    estimated_days TEXT,
+    cost DECIMAL(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH cart AS (
+        SELECT COALESCE(SUM(p.weight * ci.quantity), 0) AS weight
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+    ),
+    zone AS (
+        -- Las zonas que nombran la ciudad ganan a la zona por defecto
+        SELECT z.id
+        FROM public.shipping_zones z
+        WHERE cardinality(z.cities) = 0
+        OR EXISTS (
+            SELECT 1
+            FROM unnest(z.cities) AS city
+            WHERE public.normalize_city(city) = public.normalize_city(_city)
+        )
+        ORDER BY cardinality(z.cities) = 0, z.created_at
+        LIMIT 1
+    )
+    SELECT
+        m.id,
+        m.name,
+        m.kind,
+        m.estimated_days,
+        (CASE
+            WHEN _free_shipping THEN 0
+            WHEN m.pricing = 'weight' THEN round(m.base_cost + m.cost_per_kg * cart.weight, 2)
+            WHEN m.pricing = 'free_over' AND _merchandise >= m.free_over THEN 0
+            ELSE m.base_cost
+        END)::DECIMAL(10,2)
+    FROM public.shipping_methods m
+    JOIN zone ON zone.id = m.zone_id
+    CROSS JOIN cart
+    WHERE m.active
+    ORDER BY m.position, m.base_cost;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.shipping_quotes(UUID, TEXT, DECIMAL, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Opciones de envío para el carrito y la ciudad, teniendo en cuenta el cupón
+CREATE OR REPLACE FUNCTION public.get_shipping_options(_cart_id UUID, _city TEXT)
+RETURNS TABLE (
+    method_id UUID,
+    name TEXT,
+    kind TEXT,
+    estimated_days TEXT,
+    cost DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _subtotal DECIMAL(10,2);
+    _discount DECIMAL(10,2) := 0;
+    _free_shipping BOOLEAN := false;
+    _coupon_code TEXT;
+BEGIN
+    IF NOT public.can_access_cart(_cart_id) THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    SELECT COALESCE(SUM(COALESCE(v.price, p.price) * ci.quantity), 0)
+    INTO _subtotal
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    SELECT c.coupon_code INTO _coupon_code
+    FROM public.carts c
+    WHERE c.id = _cart_id;
+
+    IF _coupon_code IS NOT NULL THEN
+        BEGIN
+            SELECT e.discount, e.discount_type = 'free_shipping'
+            INTO _discount, _free_shipping
+            FROM public.evaluate_coupon(_coupon_code, _cart_id, auth.uid()) e;
+        EXCEPTION WHEN raise_exception THEN
+            -- Un cupón que ya no es válido no cambia el envío
+            _discount := 0;
+            _free_shipping := false;
+        END;
+    END IF;
+
+    RETURN QUERY
+    SELECT q.method_id, q.name, q.kind, q.estimated_days, q.cost
+    FROM public.shipping_quotes(_cart_id, _city, _subtotal - _discount, _free_shipping) q;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shipping_options(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_shipping_options(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- PLACE_ORDER CON ENVÍO
+-- =====================================================
+
+-- El método de envío pasa a ser obligatorio, lo que cambia la firma
+DROP FUNCTION public.place_order(UUID, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _shipping_method_id UUID,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _subtotal DECIMAL(10,2);
+    _total DECIMAL(10,2);
+    _coupon_code TEXT;
+    _coupon_id UUID;
+    _discount DECIMAL(10,2) := 0;
+    _free_shipping BOOLEAN := false;
+    _shipping_method TEXT;
+    _shipping_cost DECIMAL(10,2);
+    _shortages JSONB;
+    _price_changes JSONB;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Un producto con variantes solo puede comprarse eligiendo una
+    IF EXISTS (
+        SELECT 1
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+        AND ci.variant_id IS NULL
+        AND p.has_variants
+    ) THEN
+        RAISE EXCEPTION 'Selecciona una variante para todos los productos del carrito';
+    END IF;
+
+    -- Bloquear productos y variantes en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM 1
+    FROM public.product_variants
+    WHERE id IN (SELECT variant_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'requested', ci.quantity,
+        'available', COALESCE(v.stock, p.stock)
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    -- Los productos bloqueados ya no pueden cambiar de precio hasta el final
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'unit_price', ci.unit_price,
+        'current_price', COALESCE(v.price, p.price)
+    ))
+    INTO _price_changes
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.unit_price <> COALESCE(v.price, p.price);
+
+    IF _price_changes IS NOT NULL THEN
+        RAISE EXCEPTION 'El precio de algunos productos ha cambiado'
+            USING DETAIL = _price_changes::text, HINT = 'price_changed';
+    END IF;
+
+    SELECT SUM(COALESCE(v.price, p.price) * ci.quantity)
+    INTO _subtotal
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    SELECT coupon_code INTO _coupon_code
+    FROM public.carts
+    WHERE id = _cart_id;
+
+    IF _coupon_code IS NOT NULL THEN
+        -- Bloquear el cupón evita que dos pedidos simultáneos superen su límite de usos
+        PERFORM 1 FROM public.coupons WHERE code = _coupon_code FOR UPDATE;
+
+        SELECT e.coupon_id, e.discount, e.discount_type = 'free_shipping'
+        INTO _coupon_id, _discount, _free_shipping
+        FROM public.evaluate_coupon(_coupon_code, _cart_id, _user_id) e;
+    END IF;
+
+    SELECT q.name, q.cost
+    INTO _shipping_method, _shipping_cost
+    FROM public.shipping_quotes(_cart_id, _shipping_city, _subtotal - _discount, _free_shipping) q
+    WHERE q.method_id = _shipping_method_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El método de envío no está disponible para esta ciudad'
+            USING HINT = 'invalid_shipping_method';
+    END IF;
+
+    _total := _subtotal - _discount + _shipping_cost;
+
+    INSERT INTO public.orders (
+        user_id, subtotal, discount, coupon_id, coupon_code, shipping_method_id, shipping_method, shipping_cost,
+        total, status, shipping_address, shipping_city, payment_method, notes
+    )
+    VALUES (
+        _user_id, _subtotal, _discount, _coupon_id, _coupon_code, _shipping_method_id, _shipping_method, _shipping_cost,
+        _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), '')
+    )
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, product_name, variant_title, product_price, quantity, subtotal)
+    SELECT
+        _order_id,
+        p.id,
+        v.id,
+        p.name,
+        v.title,
+        COALESCE(v.price, p.price),
+        ci.quantity,
+        COALESCE(v.price, p.price) * ci.quantity
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND oi.variant_id IS NULL
+    AND p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - oi.quantity,
+        reserved = v.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND v.id = oi.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT _order_id, product_id, variant_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+    UPDATE public.carts SET coupon_code = NULL WHERE id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,444 @@
+-- =====================================================
+-- IMPUESTOS Y DESGLOSE DE PEDIDOS
+-- =====================================================
+
+-- Los totales del pedido siguen el mismo esquema de nombres:
+-- total = subtotal - discount_total + shipping_total + impuestos no incluidos
+ALTER TABLE public.orders RENAME COLUMN discount TO discount_total;
+ALTER TABLE public.orders RENAME COLUMN shipping_cost TO shipping_total;
+
+ALTER TABLE public.orders
+    ADD COLUMN tax_total DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Un tipo puede limitarse a una categoría, a una zona de envío (región) o a
+-- ambas. Sin categoría ni zona es el tipo general. Con precios "inclusive" el
+-- impuesto ya está dentro del precio del producto y no se suma al total.
+CREATE TABLE public.tax_rates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    rate DECIMAL(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    zone_id UUID REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+    inclusive BOOLEAN NOT NULL DEFAULT false,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT tax_rates_category_id_zone_id_key UNIQUE NULLS NOT DISTINCT (category_id, zone_id)
+);
+
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tax rates are viewable by everyone"
+    ON public.tax_rates FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can manage tax rates"
+    ON public.tax_rates FOR ALL
+    USING (public.is_admin());
+
+CREATE TRIGGER update_tax_rates_updated_at
+    BEFORE UPDATE ON public.tax_rates
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Desglose por línea: el tipo aplicado se copia por si cambia después
+ALTER TABLE public.order_items
+    ADD COLUMN tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+    ADD COLUMN tax_inclusive BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Zona de envío de una ciudad: las zonas que la nombran ganan a la zona por
+-- defecto. Sin ciudad se usa la zona por defecto.
+CREATE OR REPLACE FUNCTION public.shipping_zone_for_city(_city TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT z.id
+    FROM public.shipping_zones z
+    WHERE cardinality(z.cities) = 0
+    OR EXISTS (
+        SELECT 1
+        FROM unnest(z.cities) AS city
+        WHERE public.normalize_city(city) = public.normalize_city(_city)
+    )
+    ORDER BY cardinality(z.cities) = 0, z.created_at
+    LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.shipping_zone_for_city(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Igual que antes, pero buscando la zona con shipping_zone_for_city
+CREATE OR REPLACE FUNCTION public.shipping_quotes(
+    _cart_id UUID,
+    _city TEXT,
+    _merchandise DECIMAL,
+    _free_shipping BOOLEAN
+)
+RETURNS TABLE (
+    method_id UUID,
+    name TEXT,
+    kind TEXT,
+    estimated_days TEXT,
+    cost DECIMAL(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH cart AS (
+        SELECT COALESCE(SUM(p.weight * ci.quantity), 0) AS weight
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+    )
+    SELECT
+        m.id,
+        m.name,
+        m.kind,
+        m.estimated_days,
+        (CASE
+            WHEN _free_shipping THEN 0
+            WHEN m.pricing = 'weight' THEN round(m.base_cost + m.cost_per_kg * cart.weight, 2)
+            WHEN m.pricing = 'free_over' AND _merchandise >= m.free_over THEN 0
+            ELSE m.base_cost
+        END)::DECIMAL(10,2)
+    FROM public.shipping_methods m
+    CROSS JOIN cart
+    WHERE m.zone_id = public.shipping_zone_for_city(_city)
+    AND m.active
+    ORDER BY m.position, m.base_cost;
+$$;
+
+-- Impuesto de cada línea del carrito. Se aplica el tipo activo más concreto
+-- (categoría y zona, solo categoría, solo zona, general) sobre el importe de
+-- la línea menos su parte proporcional del descuento. Uso interno: la llaman
+-- get_cart_taxes y place_order.
+CREATE OR REPLACE FUNCTION public.cart_tax_lines(_cart_id UUID, _city TEXT, _discount DECIMAL)
+RETURNS TABLE (
+    cart_item_id UUID,
+    tax_rate DECIMAL(5,2),
+    tax_inclusive BOOLEAN,
+    tax_amount DECIMAL(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH lines AS (
+        SELECT
+            ci.id,
+            p.category_id,
+            COALESCE(v.price, p.price) * ci.quantity AS amount,
+            SUM(COALESCE(v.price, p.price) * ci.quantity) OVER () AS subtotal
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+        WHERE ci.cart_id = _cart_id
+    ),
+    taxed AS (
+        SELECT
+            l.id,
+            COALESCE(r.rate, 0) AS rate,
+            COALESCE(r.inclusive, false) AS inclusive,
+            l.amount - CASE WHEN l.subtotal > 0 THEN _discount * l.amount / l.subtotal ELSE 0 END AS base
+        FROM lines l
+        LEFT JOIN LATERAL (
+            SELECT t.rate, t.inclusive
+            FROM public.tax_rates t
+            WHERE t.active
+            AND (t.category_id IS NULL OR t.category_id = l.category_id)
+            AND (t.zone_id IS NULL OR t.zone_id = public.shipping_zone_for_city(_city))
+            ORDER BY t.category_id IS NULL, t.zone_id IS NULL
+            LIMIT 1
+        ) r ON true
+    )
+    SELECT
+        id,
+        rate::DECIMAL(5,2),
+        inclusive,
+        (CASE
+            WHEN inclusive THEN round(base * rate / (100 + rate), 2)
+            ELSE round(base * rate / 100, 2)
+        END)::DECIMAL(10,2)
+    FROM taxed;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cart_tax_lines(UUID, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Impuestos del carrito para la ciudad, teniendo en cuenta el cupón.
+-- tax_included es la parte que ya está dentro de los precios. Sin ciudad se
+-- estiman con los tipos de la zona por defecto.
+CREATE OR REPLACE FUNCTION public.get_cart_taxes(_cart_id UUID, _city TEXT DEFAULT NULL)
+RETURNS TABLE (
+    tax_total DECIMAL(10,2),
+    tax_included DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _discount DECIMAL(10,2) := 0;
+    _coupon_code TEXT;
+BEGIN
+    IF NOT public.can_access_cart(_cart_id) THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    SELECT c.coupon_code INTO _coupon_code
+    FROM public.carts c
+    WHERE c.id = _cart_id;
+
+    IF _coupon_code IS NOT NULL THEN
+        BEGIN
+            SELECT e.discount INTO _discount
+            FROM public.evaluate_coupon(_coupon_code, _cart_id, auth.uid()) e;
+        EXCEPTION WHEN raise_exception THEN
+            -- Un cupón que ya no es válido no cambia los impuestos
+            _discount := 0;
+        END;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        COALESCE(SUM(l.tax_amount), 0)::DECIMAL(10,2),
+        COALESCE(SUM(l.tax_amount) FILTER (WHERE l.tax_inclusive), 0)::DECIMAL(10,2)
+    FROM public.cart_tax_lines(_cart_id, _city, _discount) l;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_cart_taxes(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_cart_taxes(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- PLACE_ORDER CON IMPUESTOS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _shipping_method_id UUID,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID;
+    _subtotal DECIMAL(10,2);
+    _total DECIMAL(10,2);
+    _coupon_code TEXT;
+    _coupon_id UUID;
+    _discount DECIMAL(10,2) := 0;
+    _free_shipping BOOLEAN := false;
+    _shipping_method TEXT;
+    _shipping_cost DECIMAL(10,2);
+    _tax_total DECIMAL(10,2);
+    _tax_included DECIMAL(10,2);
+    _shortages JSONB;
+    _price_changes JSONB;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Un producto con variantes solo puede comprarse eligiendo una
+    IF EXISTS (
+        SELECT 1
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+        AND ci.variant_id IS NULL
+        AND p.has_variants
+    ) THEN
+        RAISE EXCEPTION 'Selecciona una variante para todos los productos del carrito';
+    END IF;
+
+    -- Bloquear productos y variantes en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM 1
+    FROM public.product_variants
+    WHERE id IN (SELECT variant_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'requested', ci.quantity,
+        'available', COALESCE(v.stock, p.stock)
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    -- Los productos bloqueados ya no pueden cambiar de precio hasta el final
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'unit_price', ci.unit_price,
+        'current_price', COALESCE(v.price, p.price)
+    ))
+    INTO _price_changes
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.unit_price <> COALESCE(v.price, p.price);
+
+    IF _price_changes IS NOT NULL THEN
+        RAISE EXCEPTION 'El precio de algunos productos ha cambiado'
+            USING DETAIL = _price_changes::text, HINT = 'price_changed';
+    END IF;
+
+    SELECT SUM(COALESCE(v.price, p.price) * ci.quantity)
+    INTO _subtotal
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    SELECT coupon_code INTO _coupon_code
+    FROM public.carts
+    WHERE id = _cart_id;
+
+    IF _coupon_code IS NOT NULL THEN
+        -- Bloquear el cupón evita que dos pedidos simultáneos superen su límite de usos
+        PERFORM 1 FROM public.coupons WHERE code = _coupon_code FOR UPDATE;
+
+        SELECT e.coupon_id, e.discount, e.discount_type = 'free_shipping'
+        INTO _coupon_id, _discount, _free_shipping
+        FROM public.evaluate_coupon(_coupon_code, _cart_id, _user_id) e;
+    END IF;
+
+    SELECT q.name, q.cost
+    INTO _shipping_method, _shipping_cost
+    FROM public.shipping_quotes(_cart_id, _shipping_city, _subtotal - _discount, _free_shipping) q
+    WHERE q.method_id = _shipping_method_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El método de envío no está disponible para esta ciudad'
+            USING HINT = 'invalid_shipping_method';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(t.tax_amount), 0),
+        COALESCE(SUM(t.tax_amount) FILTER (WHERE t.tax_inclusive), 0)
+    INTO _tax_total, _tax_included
+    FROM public.cart_tax_lines(_cart_id, _shipping_city, _discount) t;
+
+    -- Los impuestos incluidos ya forman parte del subtotal
+    _total := _subtotal - _discount + _shipping_cost + _tax_total - _tax_included;
+
+    INSERT INTO public.orders (
+        user_id, subtotal, discount_total, coupon_id, coupon_code, shipping_method_id, shipping_method, shipping_total,
+        tax_total, total, status, shipping_address, shipping_city, payment_method, notes
+    )
+    VALUES (
+        _user_id, _subtotal, _discount, _coupon_id, _coupon_code, _shipping_method_id, _shipping_method, _shipping_cost,
+        _tax_total, _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), '')
+    )
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (
+        order_id, product_id, variant_id, product_name, variant_title, product_price, quantity, subtotal,
+        tax_rate, tax_inclusive, tax_amount
+    )
+    SELECT
+        _order_id,
+        p.id,
+        v.id,
+        p.name,
+        v.title,
+        COALESCE(v.price, p.price),
+        ci.quantity,
+        COALESCE(v.price, p.price) * ci.quantity,
+        t.tax_rate,
+        t.tax_inclusive,
+        t.tax_amount
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    JOIN public.cart_tax_lines(_cart_id, _shipping_city, _discount) t ON t.cart_item_id = ci.id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND oi.variant_id IS NULL
+    AND p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - oi.quantity,
+        reserved = v.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND v.id = oi.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT _order_id, product_id, variant_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+    UPDATE public.carts SET coupon_code = NULL WHERE id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, UUID, TEXT, TEXT) TO authenticated;
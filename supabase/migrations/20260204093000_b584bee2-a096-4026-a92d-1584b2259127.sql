@@ -0,0 +1,150 @@
+-- =====================================================
+-- PAGOS
+-- =====================================================
+
+-- Cada intento de cobro de un pedido con tarjeta. Los datos de la tarjeta
+-- nunca llegan aquí: solo la referencia de la pasarela y la marca y los
+-- últimos cuatro dígitos para mostrarlos.
+CREATE TABLE public.payments (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    provider_reference TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending', 'requires_action', 'authorized', 'captured', 'failed', 'voided', 'refunded'
+    )),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    card_brand TEXT,
+    card_last4 TEXT CHECK (card_last4 ~ '^[0-9]{4}$'),
+    failure_code TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT payments_provider_provider_reference_key UNIQUE (provider, provider_reference)
+);
+
+CREATE INDEX payments_order_id_idx ON public.payments (order_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments: el cliente ve los de sus pedidos; solo se escriben con las funciones
+CREATE POLICY "Users can view own payments"
+    ON public.payments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.orders
+            WHERE orders.id = payments.order_id
+            AND (orders.user_id = auth.uid() OR public.is_admin())
+        )
+    );
+
+CREATE TRIGGER update_payments_updated_at
+    BEFORE UPDATE ON public.payments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Abre un intento de pago por el total del pedido. El importe lo decide el
+-- servidor y el id del pago sirve de clave de idempotencia en la pasarela.
+CREATE OR REPLACE FUNCTION public.create_payment(
+    _order_id UUID,
+    _provider TEXT,
+    _card_brand TEXT DEFAULT NULL,
+    _card_last4 TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    amount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order public.orders%ROWTYPE;
+BEGIN
+    SELECT * INTO _order
+    FROM public.orders o
+    WHERE o.id = _order_id
+    AND o.user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _order.status <> 'pending' OR _order.payment_method <> 'card' THEN
+        RAISE EXCEPTION 'El pedido no admite pagos con tarjeta';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.order_id = _order_id
+        AND p.status IN ('authorized', 'captured')
+    ) THEN
+        RAISE EXCEPTION 'El pedido ya está pagado' USING HINT = 'already_paid';
+    END IF;
+
+    -- Un intento anterior que quedó a medias ya no se va a completar
+    UPDATE public.payments p
+    SET status = 'failed', failure_code = 'abandoned'
+    WHERE p.order_id = _order_id
+    AND p.status IN ('pending', 'requires_action');
+
+    RETURN QUERY
+    INSERT INTO public.payments AS p (order_id, provider, amount, card_brand, card_last4)
+    VALUES (_order_id, _provider, _order.total, _card_brand, _card_last4)
+    RETURNING p.id, p.amount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_payment(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_payment(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Guarda la respuesta de la pasarela a un intento abierto. Con la pasarela
+-- simulada el propio navegador informa del resultado; una pasarela real debe
+-- confirmarlo además con sus eventos firmados.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+    _payment_id UUID,
+    _status TEXT,
+    _provider_reference TEXT,
+    _failure_code TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current_status TEXT;
+BEGIN
+    SELECT p.status INTO _current_status
+    FROM public.payments p
+    JOIN public.orders o ON o.id = p.order_id
+    WHERE p.id = _payment_id
+    AND o.user_id = auth.uid()
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pago no encontrado';
+    END IF;
+
+    IF _status NOT IN ('requires_action', 'authorized', 'captured', 'failed') THEN
+        RAISE EXCEPTION 'Estado de pago no válido';
+    END IF;
+
+    IF _current_status NOT IN ('pending', 'requires_action', 'authorized') THEN
+        RAISE EXCEPTION 'El pago ya está cerrado';
+    END IF;
+
+    UPDATE public.payments
+    SET status = _status,
+        provider_reference = COALESCE(_provider_reference, provider_reference),
+        failure_code = CASE WHEN _status = 'failed' THEN _failure_code END
+    WHERE id = _payment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(UUID, TEXT, TEXT, TEXT) TO authenticated;
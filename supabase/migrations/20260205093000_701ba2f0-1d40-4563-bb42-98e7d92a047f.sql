@@ -0,0 +1,195 @@
+-- =====================================================
+-- EVENTOS DE LA PASARELA DE PAGO (WEBHOOK)
+-- =====================================================
+
+-- Estado del cobro del pedido, independiente de su estado logístico
+ALTER TABLE public.orders
+    ADD COLUMN payment_status TEXT NOT NULL DEFAULT 'unpaid'
+        CHECK (payment_status IN ('unpaid', 'paid', 'failed', 'refunded', 'chargeback')),
+    ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.orders o
+SET payment_status = 'paid', paid_at = p.updated_at
+FROM public.payments p
+WHERE p.order_id = o.id
+AND p.status = 'captured';
+
+ALTER TABLE public.payments DROP CONSTRAINT payments_status_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_status_check CHECK (status IN (
+    'pending', 'requires_action', 'authorized', 'captured', 'failed', 'voided', 'refunded', 'chargeback'
+));
+
+-- Copia literal de cada evento firmado recibido, para auditoría. El id del
+-- evento de la pasarela hace que un reenvío no se aplique dos veces.
+CREATE TABLE public.payment_events (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    provider_reference TEXT,
+    payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL,
+    -- applied, stale (llega fuera de orden), unknown_payment, unknown_type...
+    outcome TEXT,
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT payment_events_provider_event_id_key UNIQUE (provider, event_id)
+);
+
+CREATE INDEX payment_events_payment_id_idx ON public.payment_events (payment_id);
+
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Payment events: solo los admins; se escriben desde el webhook con la clave de servicio
+CREATE POLICY "Admins can view payment events"
+    ON public.payment_events FOR SELECT
+    USING (public.is_admin());
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Aplica un evento ya verificado. Devuelve 'duplicate' si ya se había
+-- recibido y, si no, el resultado guardado en payment_events.outcome.
+CREATE OR REPLACE FUNCTION public.apply_payment_event(_provider TEXT, _event JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _event_row_id UUID;
+    _type TEXT := _event->>'type';
+    _reference TEXT := _event->>'reference';
+    _amount DECIMAL(10,2) := (_event->>'amount')::DECIMAL;
+    _payment public.payments%ROWTYPE;
+    _outcome TEXT := 'applied';
+BEGIN
+    IF COALESCE(_event->>'id', '') = '' OR COALESCE(_type, '') = '' THEN
+        RAISE EXCEPTION 'Evento sin id o sin tipo' USING HINT = 'invalid_event';
+    END IF;
+
+    INSERT INTO public.payment_events (provider, event_id, type, provider_reference, payload)
+    VALUES (_provider, _event->>'id', _type, _reference, _event)
+    ON CONFLICT (provider, event_id) DO NOTHING
+    RETURNING id INTO _event_row_id;
+
+    IF _event_row_id IS NULL THEN
+        RETURN 'duplicate';
+    END IF;
+
+    SELECT * INTO _payment
+    FROM public.payments p
+    WHERE p.provider = _provider
+    AND p.provider_reference = _reference
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        _outcome := 'unknown_payment';
+    ELSIF _type = 'payment.captured' THEN
+        IF _payment.status IN ('refunded', 'chargeback') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments SET status = 'captured', failure_code = NULL WHERE id = _payment.id;
+            UPDATE public.orders
+            SET payment_status = 'paid', paid_at = COALESCE(paid_at, now())
+            WHERE id = _payment.order_id;
+        END IF;
+    ELSIF _type = 'payment.failed' THEN
+        IF _payment.status NOT IN ('pending', 'requires_action', 'authorized') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments
+            SET status = 'failed', failure_code = COALESCE(_event->>'failure_code', 'card_declined')
+            WHERE id = _payment.id;
+            UPDATE public.orders
+            SET payment_status = 'failed'
+            WHERE id = _payment.order_id
+            AND payment_status = 'unpaid';
+        END IF;
+    ELSIF _type = 'payment.refunded' THEN
+        IF _payment.status <> 'captured' THEN
+            _outcome := 'stale';
+        ELSIF _amount IS NOT NULL AND _amount < _payment.amount THEN
+            -- Un reembolso parcial no cambia el estado del cobro
+            _outcome := 'partial_refund';
+        ELSE
+            UPDATE public.payments SET status = 'refunded' WHERE id = _payment.id;
+            UPDATE public.orders SET payment_status = 'refunded' WHERE id = _payment.order_id;
+        END IF;
+    ELSIF _type = 'payment.chargeback' THEN
+        IF _payment.status NOT IN ('captured', 'refunded') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments SET status = 'chargeback' WHERE id = _payment.id;
+            UPDATE public.orders SET payment_status = 'chargeback' WHERE id = _payment.order_id;
+        END IF;
+    ELSE
+        _outcome := 'unknown_type';
+    END IF;
+
+    UPDATE public.payment_events
+    SET payment_id = _payment.id, outcome = _outcome, processed_at = now()
+    WHERE id = _event_row_id;
+
+    RETURN _outcome;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_payment_event(TEXT, JSONB) TO service_role;
+
+-- Igual que antes, y además refleja el resultado en el pedido. Los eventos
+-- del webhook siguen siendo la fuente de verdad y pueden corregirlo.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+    _payment_id UUID,
+    _status TEXT,
+    _provider_reference TEXT,
+    _failure_code TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current_status TEXT;
+    _order_id UUID;
+BEGIN
+    SELECT p.status, p.order_id INTO _current_status, _order_id
+    FROM public.payments p
+    JOIN public.orders o ON o.id = p.order_id
+    WHERE p.id = _payment_id
+    AND o.user_id = auth.uid()
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pago no encontrado';
+    END IF;
+
+    IF _status NOT IN ('requires_action', 'authorized', 'captured', 'failed') THEN
+        RAISE EXCEPTION 'Estado de pago no válido';
+    END IF;
+
+    IF _current_status NOT IN ('pending', 'requires_action', 'authorized') THEN
+        RAISE EXCEPTION 'El pago ya está cerrado';
+    END IF;
+
+    UPDATE public.payments
+    SET status = _status,
+        provider_reference = COALESCE(_provider_reference, provider_reference),
+        failure_code = CASE WHEN _status = 'failed' THEN _failure_code END
+    WHERE id = _payment_id;
+
+    IF _status = 'captured' THEN
+        UPDATE public.orders
+        SET payment_status = 'paid', paid_at = COALESCE(paid_at, now())
+        WHERE id = _order_id;
+    ELSIF _status = 'failed' THEN
+        UPDATE public.orders
+        SET payment_status = 'failed'
+        WHERE id = _order_id
+        AND payment_status = 'unpaid';
+    END IF;
+END;
+$$;
@@ -0,0 +1,422 @@
+-- =====================================================
+-- PAGO CONTRA ENTREGA Y TRANSFERENCIA BANCARIA
+-- =====================================================
+
+-- Ajustes generales de la tienda (una sola fila). Los datos bancarios se
+-- muestran al cliente para que haga la transferencia.
+CREATE TABLE public.store_settings (
+    id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+    bank_name TEXT,
+    bank_account_holder TEXT,
+    bank_iban TEXT,
+    -- Horas que tiene el cliente para transferir antes de que se cancele el pedido
+    transfer_deadline_hours INTEGER NOT NULL DEFAULT 72 CHECK (transfer_deadline_hours > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.store_settings DEFAULT VALUES;
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store settings are viewable by everyone"
+    ON public.store_settings FOR SELECT
+    USING (true);
+
+CREATE POLICY "Admins can update store settings"
+    ON public.store_settings FOR UPDATE
+    USING (public.is_admin());
+
+CREATE TRIGGER update_store_settings_updated_at
+    BEFORE UPDATE ON public.store_settings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- amount_to_collect: importe que cobra el repartidor (contra entrega).
+-- payment_reference y payment_due_at: concepto y plazo de la transferencia.
+ALTER TABLE public.orders
+    ADD COLUMN amount_to_collect DECIMAL(10,2),
+    ADD COLUMN payment_reference TEXT,
+    ADD COLUMN payment_due_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT orders_payment_reference_key UNIQUE (payment_reference);
+
+UPDATE public.orders
+SET amount_to_collect = total
+WHERE payment_method = 'cash'
+AND payment_status = 'unpaid';
+
+CREATE INDEX orders_payment_due_at_idx ON public.orders (payment_due_at)
+    WHERE payment_method = 'transfer' AND status = 'pending';
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Igual que antes, y además un pedido por transferencia no pasa a
+-- preparación hasta que se recibe el pago
+CREATE OR REPLACE FUNCTION public.validate_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_valid_order_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Transición de estado no permitida: % -> %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'processing' AND NEW.payment_method = 'transfer' AND NEW.payment_status <> 'paid' THEN
+        RAISE EXCEPTION 'El pedido está pendiente de recibir la transferencia'
+            USING HINT = 'awaiting_transfer';
+    END IF;
+
+    CASE NEW.status
+        WHEN 'processing' THEN NEW.processing_at := now();
+        WHEN 'shipped' THEN NEW.shipped_at := now();
+        WHEN 'delivered' THEN NEW.delivered_at := now();
+        WHEN 'cancelled' THEN NEW.cancelled_at := now();
+        ELSE NULL;
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Igual que antes, y además acepta transferencia bancaria: genera la
+-- referencia y el plazo de pago. En contra entrega guarda el importe a cobrar.
+CREATE OR REPLACE FUNCTION public.place_order(
+    _cart_id UUID,
+    _shipping_address TEXT,
+    _shipping_city TEXT,
+    _shipping_method_id UUID,
+    _payment_method TEXT DEFAULT 'card',
+    _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _user_id UUID := auth.uid();
+    _order_id UUID := gen_random_uuid();
+    _subtotal DECIMAL(10,2);
+    _total DECIMAL(10,2);
+    _coupon_code TEXT;
+    _coupon_id UUID;
+    _discount DECIMAL(10,2) := 0;
+    _free_shipping BOOLEAN := false;
+    _shipping_method TEXT;
+    _shipping_cost DECIMAL(10,2);
+    _tax_total DECIMAL(10,2);
+    _tax_included DECIMAL(10,2);
+    _shortages JSONB;
+    _price_changes JSONB;
+    _settings public.store_settings%ROWTYPE;
+    _payment_reference TEXT;
+    _payment_due_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF _user_id IS NULL THEN
+        RAISE EXCEPTION 'Debes iniciar sesión para realizar un pedido';
+    END IF;
+
+    IF COALESCE(trim(_shipping_address), '') = '' OR COALESCE(trim(_shipping_city), '') = '' THEN
+        RAISE EXCEPTION 'La dirección y la ciudad de envío son obligatorias';
+    END IF;
+
+    IF _payment_method NOT IN ('card', 'cash', 'transfer') THEN
+        RAISE EXCEPTION 'Método de pago no válido';
+    END IF;
+
+    SELECT * INTO _settings FROM public.store_settings;
+
+    IF _payment_method = 'transfer' AND COALESCE(_settings.bank_iban, '') = '' THEN
+        RAISE EXCEPTION 'El pago por transferencia no está disponible';
+    END IF;
+
+    -- Bloquear el carrito evita que dos confirmaciones simultáneas dupliquen el pedido
+    PERFORM 1
+    FROM public.carts
+    WHERE id = _cart_id
+    AND user_id = _user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Carrito no encontrado';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = _cart_id) THEN
+        RAISE EXCEPTION 'El carrito está vacío';
+    END IF;
+
+    -- Un producto con variantes solo puede comprarse eligiendo una
+    IF EXISTS (
+        SELECT 1
+        FROM public.cart_items ci
+        JOIN public.products p ON p.id = ci.product_id
+        WHERE ci.cart_id = _cart_id
+        AND ci.variant_id IS NULL
+        AND p.has_variants
+    ) THEN
+        RAISE EXCEPTION 'Selecciona una variante para todos los productos del carrito';
+    END IF;
+
+    -- Bloquear productos y variantes en orden fijo para evitar interbloqueos entre pedidos
+    PERFORM 1
+    FROM public.products
+    WHERE id IN (SELECT product_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM 1
+    FROM public.product_variants
+    WHERE id IN (SELECT variant_id FROM public.cart_items WHERE cart_id = _cart_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'requested', ci.quantity,
+        'available', COALESCE(v.stock, p.stock)
+    ))
+    INTO _shortages
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+    IF _shortages IS NOT NULL THEN
+        RAISE EXCEPTION 'Stock insuficiente para algunos productos'
+            USING DETAIL = _shortages::text, HINT = 'insufficient_stock';
+    END IF;
+
+    -- Los productos bloqueados ya no pueden cambiar de precio hasta el final
+    SELECT jsonb_agg(jsonb_build_object(
+        'product_id', p.id,
+        'variant_id', v.id,
+        'product_name', p.name || COALESCE(' (' || v.title || ')', ''),
+        'unit_price', ci.unit_price,
+        'current_price', COALESCE(v.price, p.price)
+    ))
+    INTO _price_changes
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id
+    AND ci.unit_price <> COALESCE(v.price, p.price);
+
+    IF _price_changes IS NOT NULL THEN
+        RAISE EXCEPTION 'El precio de algunos productos ha cambiado'
+            USING DETAIL = _price_changes::text, HINT = 'price_changed';
+    END IF;
+
+    SELECT SUM(COALESCE(v.price, p.price) * ci.quantity)
+    INTO _subtotal
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    WHERE ci.cart_id = _cart_id;
+
+    SELECT coupon_code INTO _coupon_code
+    FROM public.carts
+    WHERE id = _cart_id;
+
+    IF _coupon_code IS NOT NULL THEN
+        -- Bloquear el cupón evita que dos pedidos simultáneos superen su límite de usos
+        PERFORM 1 FROM public.coupons WHERE code = _coupon_code FOR UPDATE;
+
+        SELECT e.coupon_id, e.discount, e.discount_type = 'free_shipping'
+        INTO _coupon_id, _discount, _free_shipping
+        FROM public.evaluate_coupon(_coupon_code, _cart_id, _user_id) e;
+    END IF;
+
+    SELECT q.name, q.cost
+    INTO _shipping_method, _shipping_cost
+    FROM public.shipping_quotes(_cart_id, _shipping_city, _subtotal - _discount, _free_shipping) q
+    WHERE q.method_id = _shipping_method_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'El método de envío no está disponible para esta ciudad'
+            USING HINT = 'invalid_shipping_method';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(t.tax_amount), 0),
+        COALESCE(SUM(t.tax_amount) FILTER (WHERE t.tax_inclusive), 0)
+    INTO _tax_total, _tax_included
+    FROM public.cart_tax_lines(_cart_id, _shipping_city, _discount) t;
+
+    -- Los impuestos incluidos ya forman parte del subtotal
+    _total := _subtotal - _discount + _shipping_cost + _tax_total - _tax_included;
+
+    -- La referencia identifica el pedido en el concepto de la transferencia
+    IF _payment_method = 'transfer' THEN
+        _payment_reference := 'TR-' || upper(substr(replace(_order_id::text, '-', ''), 1, 10));
+        _payment_due_at := now() + make_interval(hours => _settings.transfer_deadline_hours);
+    END IF;
+
+    INSERT INTO public.orders (
+        id, user_id, subtotal, discount_total, coupon_id, coupon_code, shipping_method_id, shipping_method, shipping_total,
+        tax_total, total, status, shipping_address, shipping_city, payment_method, notes,
+        amount_to_collect, payment_reference, payment_due_at
+    )
+    VALUES (
+        _order_id, _user_id, _subtotal, _discount, _coupon_id, _coupon_code, _shipping_method_id, _shipping_method, _shipping_cost,
+        _tax_total, _total, 'pending', trim(_shipping_address), trim(_shipping_city), _payment_method, NULLIF(trim(_notes), ''),
+        CASE WHEN _payment_method = 'cash' THEN _total END, _payment_reference, _payment_due_at
+    );
+
+    INSERT INTO public.order_items (
+        order_id, product_id, variant_id, product_name, variant_title, product_price, quantity, subtotal,
+        tax_rate, tax_inclusive, tax_amount
+    )
+    SELECT
+        _order_id,
+        p.id,
+        v.id,
+        p.name,
+        v.title,
+        COALESCE(v.price, p.price),
+        ci.quantity,
+        COALESCE(v.price, p.price) * ci.quantity,
+        t.tax_rate,
+        t.tax_inclusive,
+        t.tax_amount
+    FROM public.cart_items ci
+    JOIN public.products p ON p.id = ci.product_id
+    LEFT JOIN public.product_variants v ON v.id = ci.variant_id
+    JOIN public.cart_tax_lines(_cart_id, _shipping_city, _discount) t ON t.cart_item_id = ci.id
+    WHERE ci.cart_id = _cart_id;
+
+    UPDATE public.products p
+    SET stock = p.stock - oi.quantity,
+        reserved = p.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND oi.variant_id IS NULL
+    AND p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock - oi.quantity,
+        reserved = v.reserved + oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    AND v.id = oi.variant_id;
+
+    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+    SELECT _order_id, product_id, variant_id, -quantity, 'reserve'
+    FROM public.order_items
+    WHERE order_id = _order_id;
+
+    DELETE FROM public.cart_items WHERE cart_id = _cart_id;
+    UPDATE public.carts SET coupon_code = NULL WHERE id = _cart_id;
+
+    RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, TEXT, TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+-- Registra que se ha cobrado un pedido contra entrega (después de enviarlo)
+-- o recibido su transferencia (solo admins). El cobro queda en payments con
+-- provider 'cash' o 'transfer', igual que los de la pasarela.
+CREATE OR REPLACE FUNCTION public.confirm_order_payment(_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order public.orders%ROWTYPE;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para confirmar pagos';
+    END IF;
+
+    SELECT * INTO _order
+    FROM public.orders
+    WHERE id = _order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _order.payment_method NOT IN ('cash', 'transfer') THEN
+        RAISE EXCEPTION 'Los pagos con tarjeta los confirma la pasarela';
+    END IF;
+
+    IF _order.payment_status <> 'unpaid' THEN
+        RAISE EXCEPTION 'El pago de este pedido ya está registrado';
+    END IF;
+
+    IF _order.status = 'cancelled' THEN
+        RAISE EXCEPTION 'El pedido está cancelado';
+    END IF;
+
+    IF _order.payment_method = 'cash' AND _order.status NOT IN ('shipped', 'delivered') THEN
+        RAISE EXCEPTION 'El cobro contra entrega se registra una vez enviado el pedido';
+    END IF;
+
+    INSERT INTO public.payments (order_id, provider, provider_reference, status, amount)
+    VALUES (
+        _order.id,
+        _order.payment_method,
+        _order.payment_reference,
+        'captured',
+        COALESCE(_order.amount_to_collect, _order.total)
+    );
+
+    UPDATE public.orders
+    SET payment_status = 'paid', paid_at = now()
+    WHERE id = _order.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_order_payment(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_order_payment(UUID) TO authenticated;
+
+-- Cancela los pedidos por transferencia cuyo plazo ha vencido sin recibir el
+-- pago. Al cancelarlos se libera su stock reservado.
+CREATE OR REPLACE FUNCTION public.cancel_expired_transfer_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _cancelled INTEGER;
+BEGIN
+    PERFORM set_config('app.status_note', 'Cancelado automáticamente: no se recibió la transferencia a tiempo', true);
+
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE payment_method = 'transfer'
+    AND status = 'pending'
+    AND payment_status = 'unpaid'
+    AND payment_due_at < now();
+
+    GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+    PERFORM set_config('app.status_note', '', true);
+
+    RETURN _cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_expired_transfer_orders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_expired_transfer_orders() TO service_role;
+
+-- =====================================================
+-- TAREA PROGRAMADA
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+    'cancel-expired-transfer-orders',
+    '*/15 * * * *',
+    'SELECT public.cancel_expired_transfer_orders()'
+);
@@ -0,0 +1,341 @@
+-- =====================================================
+-- REEMBOLSOS
+-- =====================================================
+
+-- refunded_total: suma de los reembolsos completados. Lo cobrado neto es
+-- total - refunded_total.
+ALTER TABLE public.orders
+    ADD COLUMN refunded_total DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (refunded_total >= 0);
+
+ALTER TABLE public.orders DROP CONSTRAINT orders_payment_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_payment_status_check CHECK (payment_status IN (
+    'unpaid', 'paid', 'failed', 'partially_refunded', 'refunded', 'chargeback'
+));
+
+ALTER TABLE public.order_items
+    ADD COLUMN refunded_quantity INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT order_items_refunded_quantity_check CHECK (refunded_quantity BETWEEN 0 AND quantity);
+
+-- Un reembolso con tarjeta queda pending hasta que responde la pasarela; los
+-- de contra entrega y transferencia se devuelven a mano y se completan al crearlos.
+CREATE TABLE public.refunds (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    provider_reference TEXT,
+    restock BOOLEAN NOT NULL DEFAULT false,
+    reason TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX refunds_order_id_idx ON public.refunds (order_id);
+
+-- Unidades de cada producto incluidas en un reembolso
+CREATE TABLE public.refund_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    refund_id UUID NOT NULL REFERENCES public.refunds(id) ON DELETE CASCADE,
+    order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    CONSTRAINT refund_items_refund_id_order_item_id_key UNIQUE (refund_id, order_item_id)
+);
+
+CREATE INDEX refund_items_order_item_id_idx ON public.refund_items (order_item_id);
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refund_items ENABLE ROW LEVEL SECURITY;
+
+-- Refunds: el cliente ve los de sus pedidos; solo se escriben con las funciones
+CREATE POLICY "Users can view own refunds"
+    ON public.refunds FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.orders
+            WHERE orders.id = refunds.order_id
+            AND (orders.user_id = auth.uid() OR public.is_admin())
+        )
+    );
+
+CREATE POLICY "Users can view own refund items"
+    ON public.refund_items FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.refunds
+            JOIN public.orders ON orders.id = refunds.order_id
+            WHERE refunds.id = refund_items.refund_id
+            AND (orders.user_id = auth.uid() OR public.is_admin())
+        )
+    );
+
+CREATE TRIGGER update_refunds_updated_at
+    BEFORE UPDATE ON public.refunds
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- FUNCIONES
+-- =====================================================
+
+-- Importe de devolver _quantity unidades de una línea: su parte del
+-- descuento del pedido se resta y los impuestos no incluidos se suman.
+-- src/lib/refunds.ts hace el mismo cálculo para la vista previa.
+CREATE OR REPLACE FUNCTION public.refund_line_amount(_order_item_id UUID, _quantity INTEGER)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT round(
+        (
+            oi.subtotal
+            - CASE WHEN o.subtotal > 0 THEN o.discount_total * oi.subtotal / o.subtotal ELSE 0 END
+            + CASE WHEN oi.tax_inclusive THEN 0 ELSE oi.tax_amount END
+        ) * _quantity / oi.quantity,
+        2
+    )
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.id = _order_item_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_line_amount(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Aplica un reembolso completado: marca las unidades devueltas, ajusta lo
+-- cobrado del pedido y, si se pidió, repone el stock
+CREATE OR REPLACE FUNCTION public.complete_refund(_refund_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _refund public.refunds%ROWTYPE;
+    _order public.orders%ROWTYPE;
+    _item RECORD;
+BEGIN
+    UPDATE public.refunds
+    SET status = 'succeeded'
+    WHERE id = _refund_id
+    RETURNING * INTO _refund;
+
+    UPDATE public.order_items oi
+    SET refunded_quantity = oi.refunded_quantity + ri.quantity
+    FROM public.refund_items ri
+    WHERE ri.refund_id = _refund_id
+    AND oi.id = ri.order_item_id;
+
+    UPDATE public.orders
+    SET refunded_total = refunded_total + _refund.amount,
+        payment_status = CASE
+            WHEN refunded_total + _refund.amount >= total THEN 'refunded'
+            ELSE 'partially_refunded'
+        END
+    WHERE id = _refund.order_id
+    RETURNING * INTO _order;
+
+    IF _order.payment_status = 'refunded' THEN
+        UPDATE public.payments SET status = 'refunded' WHERE id = _refund.payment_id;
+    END IF;
+
+    IF _refund.restock THEN
+        FOR _item IN
+            SELECT oi.product_id, oi.variant_id, ri.quantity
+            FROM public.refund_items ri
+            JOIN public.order_items oi ON oi.id = ri.order_item_id
+            WHERE ri.refund_id = _refund_id
+        LOOP
+            IF _item.variant_id IS NOT NULL THEN
+                UPDATE public.product_variants
+                SET stock = stock + _item.quantity
+                WHERE id = _item.variant_id;
+            ELSE
+                UPDATE public.products
+                SET stock = stock + _item.quantity
+                WHERE id = _item.product_id;
+            END IF;
+
+            IF FOUND THEN
+                INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+                VALUES (_refund.order_id, _item.product_id, _item.variant_id, _item.quantity, 'restock');
+            END IF;
+        END LOOP;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_refund(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Crea un reembolso del pedido (solo admins). _items es una lista de
+-- {order_item_id, quantity}; sin _items se reembolsa todo lo que queda,
+-- envío incluido. Con tarjeta queda pending y devuelve la referencia del
+-- cobro para pedir el reembolso a la pasarela.
+CREATE OR REPLACE FUNCTION public.create_refund(
+    _order_id UUID,
+    _items JSONB DEFAULT NULL,
+    _restock BOOLEAN DEFAULT false,
+    _reason TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    amount DECIMAL(10,2),
+    status TEXT,
+    provider TEXT,
+    provider_reference TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order public.orders%ROWTYPE;
+    _payment public.payments%ROWTYPE;
+    _refund_id UUID;
+    _amount DECIMAL(10,2);
+    _manual BOOLEAN;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para reembolsar pedidos';
+    END IF;
+
+    SELECT * INTO _order
+    FROM public.orders o
+    WHERE o.id = _order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _order.payment_status NOT IN ('paid', 'partially_refunded') THEN
+        RAISE EXCEPTION 'El pedido no tiene pagos que reembolsar';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.refunds r WHERE r.order_id = _order_id AND r.status = 'pending') THEN
+        RAISE EXCEPTION 'Ya hay un reembolso en curso para este pedido' USING HINT = 'refund_pending';
+    END IF;
+
+    -- El stock de un pedido sin enviar sigue reservado; se libera al cancelarlo
+    IF _restock AND _order.status NOT IN ('shipped', 'delivered') THEN
+        RAISE EXCEPTION 'Solo se puede reponer el stock de pedidos enviados';
+    END IF;
+
+    SELECT * INTO _payment
+    FROM public.payments p
+    WHERE p.order_id = _order_id
+    AND p.status = 'captured'
+    ORDER BY p.created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No se encontró el cobro del pedido';
+    END IF;
+
+    _manual := _payment.provider IN ('cash', 'transfer');
+
+    IF _items IS NULL THEN
+        _amount := _order.total - _order.refunded_total;
+        _items := (
+            SELECT jsonb_agg(jsonb_build_object('order_item_id', oi.id, 'quantity', oi.quantity - oi.refunded_quantity))
+            FROM public.order_items oi
+            WHERE oi.order_id = _order_id
+            AND oi.quantity > oi.refunded_quantity
+        );
+    ELSE
+        IF EXISTS (
+            SELECT 1
+            FROM jsonb_to_recordset(_items) AS i(order_item_id UUID, quantity INTEGER)
+            LEFT JOIN public.order_items oi ON oi.id = i.order_item_id AND oi.order_id = _order_id
+            WHERE oi.id IS NULL
+            OR i.quantity IS NULL
+            OR i.quantity < 1
+            OR i.quantity > oi.quantity - oi.refunded_quantity
+        ) THEN
+            RAISE EXCEPTION 'Las cantidades a reembolsar no son válidas' USING HINT = 'invalid_refund_items';
+        END IF;
+
+        -- El redondeo por línea nunca puede devolver más de lo cobrado
+        SELECT LEAST(SUM(public.refund_line_amount(i.order_item_id, i.quantity)), _order.total - _order.refunded_total)
+        INTO _amount
+        FROM jsonb_to_recordset(_items) AS i(order_item_id UUID, quantity INTEGER);
+    END IF;
+
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'No hay nada que reembolsar' USING HINT = 'invalid_refund_items';
+    END IF;
+
+    INSERT INTO public.refunds AS r (order_id, payment_id, amount, restock, reason, created_by)
+    VALUES (_order_id, _payment.id, _amount, _restock, NULLIF(trim(_reason), ''), auth.uid())
+    RETURNING r.id INTO _refund_id;
+
+    -- Un reembolso solo del envío no tiene productos
+    INSERT INTO public.refund_items (refund_id, order_item_id, quantity, amount)
+    SELECT _refund_id, i.order_item_id, i.quantity, public.refund_line_amount(i.order_item_id, i.quantity)
+    FROM jsonb_to_recordset(COALESCE(_items, '[]')) AS i(order_item_id UUID, quantity INTEGER);
+
+    IF _manual THEN
+        PERFORM public.complete_refund(_refund_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT r.id, r.amount, r.status, _payment.provider, _payment.provider_reference
+    FROM public.refunds r
+    WHERE r.id = _refund_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_refund(UUID, JSONB, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_refund(UUID, JSONB, BOOLEAN, TEXT) TO authenticated;
+
+-- Guarda la respuesta de la pasarela a un reembolso con tarjeta (solo admins)
+CREATE OR REPLACE FUNCTION public.record_refund_result(
+    _refund_id UUID,
+    _status TEXT,
+    _provider_reference TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current_status TEXT;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para reembolsar pedidos';
+    END IF;
+
+    IF _status NOT IN ('succeeded', 'failed') THEN
+        RAISE EXCEPTION 'Estado de reembolso no válido';
+    END IF;
+
+    SELECT r.status INTO _current_status
+    FROM public.refunds r
+    WHERE r.id = _refund_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reembolso no encontrado';
+    END IF;
+
+    IF _current_status <> 'pending' THEN
+        RAISE EXCEPTION 'El reembolso ya está cerrado';
+    END IF;
+
+    UPDATE public.refunds
+    SET provider_reference = _provider_reference
+    WHERE id = _refund_id;
+
+    IF _status = 'succeeded' THEN
+        PERFORM public.complete_refund(_refund_id);
+    ELSE
+        UPDATE public.refunds SET status = 'failed' WHERE id = _refund_id;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_refund_result(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_refund_result(UUID, TEXT, TEXT) TO authenticated;
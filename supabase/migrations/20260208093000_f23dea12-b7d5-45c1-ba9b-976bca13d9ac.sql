@@ -0,0 +1,22 @@
+-- =====================================================
+-- NOTAS INTERNAS DE PEDIDOS
+-- =====================================================
+
+-- Notas de los admins sobre un pedido. El cliente no las ve: para eso está
+-- la nota de cada cambio de estado.
+CREATE TABLE public.order_notes (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    author_id UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_notes_order_id_idx ON public.order_notes (order_id);
+
+ALTER TABLE public.order_notes ENABLE ROW LEVEL SECURITY;
+
+-- Order Notes: solo admins
+CREATE POLICY "Admins can manage order notes"
+    ON public.order_notes FOR ALL
+    USING (public.is_admin());
@@ -0,0 +1,145 @@
+-- =====================================================
+-- VARIANTES Y RESERVAS DE ANTES DE TENERLAS
+-- =====================================================
+
+-- Las reservas abiertas de antes de tener variantes siguen contando en el
+-- reserved del producto hasta que su pedido las libere o las confirme; si no,
+-- la sincronización lo dejaría a cero y no se podrían liberar.
+CREATE OR REPLACE FUNCTION public.sync_product_variant_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _product_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+    UPDATE public.products p
+    SET stock = COALESCE(v.stock, 0),
+        reserved = COALESCE(v.reserved, 0) + (
+            SELECT COALESCE(-SUM(m.delta), 0)
+            FROM public.stock_movements m
+            WHERE m.product_id = _product_id
+            AND m.variant_id IS NULL
+            AND m.reason = 'reserve'
+            AND public.order_has_open_reservation(m.order_id)
+        ),
+        has_variants = v.count > 0
+    FROM (
+        SELECT SUM(stock) AS stock, SUM(reserved) AS reserved, COUNT(*) AS count
+        FROM public.product_variants
+        WHERE product_id = _product_id
+    ) v
+    WHERE p.id = _product_id;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Igual que antes, pero no deja añadir variantes a un producto con reservas
+-- abiertas y, al quitarlas todas, conserva el stock que sumaban
+CREATE OR REPLACE FUNCTION public.save_product_variants(
+    _product_id UUID,
+    _options JSONB,
+    _variants JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _product public.products%ROWTYPE;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para editar variantes';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = _product_id
+    FOR UPDATE;
+
+    -- Las unidades reservadas a nivel de producto no pertenecen a ninguna
+    -- variante: al liberarlas después se perderían
+    IF NOT _product.has_variants AND jsonb_array_length(_variants) > 0 AND EXISTS (
+        SELECT 1
+        FROM public.stock_movements m
+        WHERE m.product_id = _product_id
+        AND m.variant_id IS NULL
+        AND m.reason = 'reserve'
+        AND public.order_has_open_reservation(m.order_id)
+    ) THEN
+        RAISE EXCEPTION 'El producto tiene pedidos con unidades reservadas. Añade las variantes cuando se envíen o se cancelen.'
+            USING HINT = 'open_reservations';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.product_variants
+        WHERE product_id = _product_id
+        AND reserved > 0
+        AND id NOT IN (
+            SELECT (v ->> 'id')::UUID
+            FROM jsonb_array_elements(_variants) v
+            WHERE v ->> 'id' IS NOT NULL
+        )
+    ) THEN
+        RAISE EXCEPTION 'No se puede eliminar una variante con unidades reservadas';
+    END IF;
+
+    DELETE FROM public.product_option_types WHERE product_id = _product_id;
+
+    INSERT INTO public.product_option_types (product_id, name, values, position)
+    SELECT
+        _product_id,
+        trim(o ->> 'name'),
+        ARRAY(SELECT jsonb_array_elements_text(o -> 'values')),
+        ord - 1
+    FROM jsonb_array_elements(_options) WITH ORDINALITY AS t(o, ord);
+
+    DELETE FROM public.product_variants
+    WHERE product_id = _product_id
+    AND id NOT IN (
+        SELECT (v ->> 'id')::UUID
+        FROM jsonb_array_elements(_variants) v
+        WHERE v ->> 'id' IS NOT NULL
+    );
+
+    UPDATE public.product_variants pv
+    SET sku = NULLIF(trim(v ->> 'sku'), ''),
+        title = v ->> 'title',
+        options = COALESCE(v -> 'options', '{}'),
+        price = (v ->> 'price')::DECIMAL,
+        stock = COALESCE((v ->> 'stock')::INTEGER, 0),
+        image_url = NULLIF(trim(v ->> 'image_url'), ''),
+        position = ord - 1
+    FROM jsonb_array_elements(_variants) WITH ORDINALITY AS t(v, ord)
+    WHERE v ->> 'id' IS NOT NULL
+    AND pv.id = (v ->> 'id')::UUID
+    AND pv.product_id = _product_id;
+
+    INSERT INTO public.product_variants (product_id, sku, title, options, price, stock, image_url, position)
+    SELECT
+        _product_id,
+        NULLIF(trim(v ->> 'sku'), ''),
+        v ->> 'title',
+        COALESCE(v -> 'options', '{}'),
+        (v ->> 'price')::DECIMAL,
+        COALESCE((v ->> 'stock')::INTEGER, 0),
+        NULLIF(trim(v ->> 'image_url'), ''),
+        ord - 1
+    FROM jsonb_array_elements(_variants) WITH ORDINALITY AS t(v, ord)
+    WHERE v ->> 'id' IS NULL;
+
+    -- Sin variantes, el producto se queda con el stock que sumaban
+    IF _product.has_variants AND jsonb_array_length(_variants) = 0 THEN
+        UPDATE public.products
+        SET stock = _product.stock
+        WHERE id = _product_id;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,7 @@
+-- =====================================================
+-- CARRITO EN TIEMPO REAL: FILTRO DE BORRADOS
+-- =====================================================
+
+-- Con la fila completa en el WAL, Realtime puede filtrar también los DELETE
+-- por cart_id y cada sesión deja de recibir los borrados de todos los carritos
+ALTER TABLE public.cart_items REPLICA IDENTITY FULL;
@@ -0,0 +1,15 @@
+-- =====================================================
+-- ZONA DE ENVÍO POR DEFECTO
+-- =====================================================
+
+-- place_order exige un método de envío. Antes de las zonas el envío era gratis
+-- a cualquier ciudad; se mantiene así hasta que un admin configure las suyas.
+WITH zone AS (
+    INSERT INTO public.shipping_zones (name)
+    SELECT 'Resto de ciudades'
+    WHERE NOT EXISTS (SELECT 1 FROM public.shipping_zones WHERE cardinality(cities) = 0)
+    RETURNING id
+)
+INSERT INTO public.shipping_methods (zone_id, name, kind, pricing, base_cost, estimated_days)
+SELECT id, 'Envío estándar', 'standard', 'flat', 0, '3-5 días'
+FROM zone;
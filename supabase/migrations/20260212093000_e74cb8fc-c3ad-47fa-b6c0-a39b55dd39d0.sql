@@ -0,0 +1,226 @@
+-- =====================================================
+-- PAGOS CON TARJETA: CAPTURA EN EL SERVIDOR
+-- =====================================================
+
+-- Guarda los pasos intermedios de un intento abierto que el navegador ve en la
+-- pasarela: verificación pendiente, autorizado o rechazado. El cobro nunca se
+-- acepta desde aquí ni se toca el pedido: lo confirma el servidor
+-- (record_payment_capture) o el webhook de la pasarela.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+    _payment_id UUID,
+    _status TEXT,
+    _provider_reference TEXT,
+    _failure_code TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current_status TEXT;
+BEGIN
+    SELECT p.status INTO _current_status
+    FROM public.payments p
+    JOIN public.orders o ON o.id = p.order_id
+    WHERE p.id = _payment_id
+    AND o.user_id = auth.uid()
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pago no encontrado';
+    END IF;
+
+    IF _status NOT IN ('requires_action', 'authorized', 'failed') THEN
+        RAISE EXCEPTION 'Estado de pago no válido';
+    END IF;
+
+    IF _current_status NOT IN ('pending', 'requires_action', 'authorized') THEN
+        RAISE EXCEPTION 'El pago ya está cerrado';
+    END IF;
+
+    UPDATE public.payments
+    SET status = _status,
+        provider_reference = COALESCE(_provider_reference, provider_reference),
+        failure_code = CASE WHEN _status = 'failed' THEN _failure_code END
+    WHERE id = _payment_id;
+END;
+$$;
+
+-- Resultado de la captura de un pago autorizado, y su reflejo en el pedido.
+-- Solo la llama la función capture-payment, que habla con la pasarela desde
+-- el servidor. Los eventos del webhook siguen siendo la fuente de verdad.
+CREATE OR REPLACE FUNCTION public.record_payment_capture(
+    _payment_id UUID,
+    _status TEXT,
+    _failure_code TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current_status TEXT;
+    _order_id UUID;
+BEGIN
+    SELECT p.status, p.order_id INTO _current_status, _order_id
+    FROM public.payments p
+    WHERE p.id = _payment_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pago no encontrado';
+    END IF;
+
+    IF _status NOT IN ('captured', 'failed') THEN
+        RAISE EXCEPTION 'Estado de pago no válido';
+    END IF;
+
+    IF _current_status <> 'authorized' THEN
+        RAISE EXCEPTION 'El pago no está autorizado' USING HINT = 'not_authorized';
+    END IF;
+
+    UPDATE public.payments
+    SET status = _status,
+        failure_code = CASE WHEN _status = 'failed' THEN _failure_code END
+    WHERE id = _payment_id;
+
+    IF _status = 'captured' THEN
+        UPDATE public.orders
+        SET payment_status = 'paid', paid_at = COALESCE(paid_at, now())
+        WHERE id = _order_id;
+    ELSE
+        UPDATE public.orders
+        SET payment_status = 'failed'
+        WHERE id = _order_id
+        AND payment_status = 'unpaid';
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_capture(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_capture(UUID, TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- PEDIDOS SIN PAGAR
+-- =====================================================
+
+-- Igual que antes, pero ningún pedido pasa a preparación sin pagar, sea cual
+-- sea el método. Contra entrega es la excepción: se cobra al entregarlo.
+CREATE OR REPLACE FUNCTION public.validate_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_valid_order_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Transición de estado no permitida: % -> %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'processing'
+        AND NEW.payment_method IS DISTINCT FROM 'cash'
+        AND NEW.payment_status NOT IN ('paid', 'partially_refunded') THEN
+        IF NEW.payment_method = 'transfer' THEN
+            RAISE EXCEPTION 'El pedido está pendiente de recibir la transferencia'
+                USING HINT = 'awaiting_transfer';
+        END IF;
+        RAISE EXCEPTION 'El pedido está pendiente de pago'
+            USING HINT = 'awaiting_payment';
+    END IF;
+
+    CASE NEW.status
+        WHEN 'processing' THEN NEW.processing_at := now();
+        WHEN 'shipped' THEN NEW.shipped_at := now();
+        WHEN 'delivered' THEN NEW.delivered_at := now();
+        WHEN 'cancelled' THEN NEW.cancelled_at := now();
+        ELSE NULL;
+    END CASE;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Cancela los pedidos con tarjeta que llevan una hora sin cobrarse (pago
+-- rechazado o abandonado) para liberar su stock reservado. Los que tienen un
+-- pago autorizado esperan a la captura.
+CREATE OR REPLACE FUNCTION public.cancel_abandoned_card_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _cancelled INTEGER;
+BEGIN
+    PERFORM set_config('app.status_note', 'Cancelado automáticamente: el pago con tarjeta no se completó', true);
+
+    UPDATE public.orders o
+    SET status = 'cancelled'
+    WHERE o.payment_method = 'card'
+    AND o.status = 'pending'
+    AND o.payment_status IN ('unpaid', 'failed')
+    AND o.created_at < now() - interval '1 hour'
+    AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.order_id = o.id
+        AND p.status IN ('authorized', 'captured')
+    );
+
+    GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+    PERFORM set_config('app.status_note', '', true);
+
+    RETURN _cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_abandoned_card_orders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_abandoned_card_orders() TO service_role;
+
+SELECT cron.schedule(
+    'cancel-abandoned-card-orders',
+    '*/15 * * * *',
+    'SELECT public.cancel_abandoned_card_orders()'
+);
+
+-- Igual que antes, pero un pedido ya pagado no lo cancela el cliente: el
+-- cobro no se devolvería. Lo cancela un admin y lo reembolsa.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _status TEXT;
+    _payment_status TEXT;
+BEGIN
+    SELECT status, payment_status INTO _status, _payment_status
+    FROM public.orders
+    WHERE id = _order_id
+    AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _status NOT IN ('pending', 'processing') THEN
+        RAISE EXCEPTION 'Este pedido ya no se puede cancelar';
+    END IF;
+
+    IF _payment_status IN ('paid', 'partially_refunded') THEN
+        RAISE EXCEPTION 'El pedido ya está pagado. Contacta con la tienda para cancelarlo y recibir el reembolso.'
+            USING HINT = 'order_paid';
+    END IF;
+
+    PERFORM set_config('app.status_note', COALESCE('Cancelado por el cliente: ' || NULLIF(trim(_reason), ''), 'Cancelado por el cliente'), true);
+
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = _order_id;
+
+    PERFORM set_config('app.status_note', '', true);
+END;
+$$;
@@ -0,0 +1,124 @@
+-- =====================================================
+-- EVENTOS DE LA PASARELA: IMPORTES
+-- =====================================================
+
+-- Suma de los reembolsos confirmados por la pasarela
+ALTER TABLE public.payments
+    ADD COLUMN refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+UPDATE public.payments
+SET refunded_amount = amount
+WHERE status = 'refunded';
+
+-- Igual que antes, pero el importe del evento se valida, un cobro por un
+-- importe distinto del pago no se aplica y los reembolsos parciales se van
+-- sumando hasta cubrir lo cobrado.
+CREATE OR REPLACE FUNCTION public.apply_payment_event(_provider TEXT, _event JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _event_row_id UUID;
+    _type TEXT := _event->>'type';
+    _reference TEXT := _event->>'reference';
+    _amount DECIMAL;
+    _payment public.payments%ROWTYPE;
+    _outcome TEXT := 'applied';
+BEGIN
+    IF COALESCE(_event->>'id', '') = '' OR COALESCE(_type, '') = '' THEN
+        RAISE EXCEPTION 'Evento sin id o sin tipo' USING HINT = 'invalid_event';
+    END IF;
+
+    -- Un importe mal formado no se arregla reintentando: se rechaza con un 400
+    IF jsonb_typeof(_event->'amount') IS DISTINCT FROM 'number' THEN
+        RAISE EXCEPTION 'El evento no tiene un importe válido' USING HINT = 'invalid_event';
+    END IF;
+
+    _amount := (_event->>'amount')::DECIMAL;
+
+    IF _amount < 0 THEN
+        RAISE EXCEPTION 'El evento no tiene un importe válido' USING HINT = 'invalid_event';
+    END IF;
+
+    INSERT INTO public.payment_events (provider, event_id, type, provider_reference, payload)
+    VALUES (_provider, _event->>'id', _type, _reference, _event)
+    ON CONFLICT (provider, event_id) DO NOTHING
+    RETURNING id INTO _event_row_id;
+
+    IF _event_row_id IS NULL THEN
+        RETURN 'duplicate';
+    END IF;
+
+    SELECT * INTO _payment
+    FROM public.payments p
+    WHERE p.provider = _provider
+    AND p.provider_reference = _reference
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        _outcome := 'unknown_payment';
+    ELSIF _type = 'payment.captured' THEN
+        IF _payment.status IN ('refunded', 'chargeback') THEN
+            _outcome := 'stale';
+        ELSIF _amount <> _payment.amount THEN
+            -- Se guarda para revisarlo a mano; el pedido no se da por pagado
+            _outcome := 'amount_mismatch';
+        ELSE
+            UPDATE public.payments SET status = 'captured', failure_code = NULL WHERE id = _payment.id;
+            UPDATE public.orders
+            SET payment_status = 'paid', paid_at = COALESCE(paid_at, now())
+            WHERE id = _payment.order_id;
+        END IF;
+    ELSIF _type = 'payment.failed' THEN
+        IF _payment.status NOT IN ('pending', 'requires_action', 'authorized') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments
+            SET status = 'failed', failure_code = COALESCE(_event->>'failure_code', 'card_declined')
+            WHERE id = _payment.id;
+            UPDATE public.orders
+            SET payment_status = 'failed'
+            WHERE id = _payment.order_id
+            AND payment_status = 'unpaid';
+        END IF;
+    ELSIF _type = 'payment.refunded' THEN
+        IF _payment.status <> 'captured' THEN
+            _outcome := 'stale';
+        ELSE
+            -- Cada evento trae el importe de un reembolso; el cobro queda
+            -- reembolsado cuando entre todos cubren lo cobrado
+            UPDATE public.payments
+            SET refunded_amount = LEAST(refunded_amount + _amount, amount)
+            WHERE id = _payment.id
+            RETURNING * INTO _payment;
+
+            IF _payment.refunded_amount < _payment.amount THEN
+                _outcome := 'partial_refund';
+            ELSE
+                UPDATE public.payments SET status = 'refunded' WHERE id = _payment.id;
+                UPDATE public.orders SET payment_status = 'refunded' WHERE id = _payment.order_id;
+            END IF;
+        END IF;
+    ELSIF _type = 'payment.chargeback' THEN
+        IF _payment.status NOT IN ('captured', 'refunded') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments SET status = 'chargeback' WHERE id = _payment.id;
+            UPDATE public.orders SET payment_status = 'chargeback' WHERE id = _payment.order_id;
+        END IF;
+    ELSE
+        _outcome := 'unknown_type';
+    END IF;
+
+    UPDATE public.payment_events
+    SET payment_id = _payment.id, outcome = _outcome, processed_at = now()
+    WHERE id = _event_row_id;
+
+    RETURN _outcome;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_payment_event(TEXT, JSONB) TO service_role;
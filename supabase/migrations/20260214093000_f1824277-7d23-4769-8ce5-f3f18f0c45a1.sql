@@ -0,0 +1,403 @@
+-- =====================================================
+-- REEMBOLSOS: CONFIRMACIÓN EN EL SERVIDOR
+-- =====================================================
+
+-- Igual que antes, y además lleva la cuenta de lo reembolsado de cada cobro.
+-- Solo repone las unidades que no volvieron ya al stock: una devolución
+-- aprobada con reposición o un reembolso anterior las cuenta en
+-- stock_movements como 'restock'.
+CREATE OR REPLACE FUNCTION public.complete_refund(_refund_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _refund public.refunds%ROWTYPE;
+    _item RECORD;
+    _quantity INTEGER;
+BEGIN
+    UPDATE public.refunds
+    SET status = 'succeeded'
+    WHERE id = _refund_id
+    RETURNING * INTO _refund;
+
+    UPDATE public.order_items oi
+    SET refunded_quantity = oi.refunded_quantity + ri.quantity
+    FROM public.refund_items ri
+    WHERE ri.refund_id = _refund_id
+    AND oi.id = ri.order_item_id;
+
+    UPDATE public.orders
+    SET refunded_total = refunded_total + _refund.amount,
+        payment_status = CASE
+            WHEN refunded_total + _refund.amount >= total THEN 'refunded'
+            ELSE 'partially_refunded'
+        END
+    WHERE id = _refund.order_id;
+
+    UPDATE public.payments
+    SET refunded_amount = LEAST(refunded_amount + _refund.amount, amount),
+        status = CASE WHEN refunded_amount + _refund.amount >= amount THEN 'refunded' ELSE status END
+    WHERE id = _refund.payment_id;
+
+    IF _refund.restock THEN
+        FOR _item IN
+            SELECT oi.product_id, oi.variant_id, oi.refunded_quantity, ri.quantity,
+                (
+                    SELECT COALESCE(SUM(sm.delta), 0)
+                    FROM public.stock_movements sm
+                    WHERE sm.order_id = oi.order_id
+                    AND sm.product_id = oi.product_id
+                    AND sm.variant_id IS NOT DISTINCT FROM oi.variant_id
+                    AND sm.reason = 'restock'
+                ) AS restocked
+            FROM public.refund_items ri
+            JOIN public.order_items oi ON oi.id = ri.order_item_id
+            WHERE ri.refund_id = _refund_id
+        LOOP
+            -- De las unidades reembolsadas de la línea, las que aún no han vuelto
+            _quantity := LEAST(_item.quantity, GREATEST(_item.refunded_quantity - _item.restocked, 0));
+
+            IF _quantity > 0 THEN
+                IF _item.variant_id IS NOT NULL THEN
+                    UPDATE public.product_variants
+                    SET stock = stock + _quantity
+                    WHERE id = _item.variant_id;
+                ELSE
+                    UPDATE public.products
+                    SET stock = stock + _quantity
+                    WHERE id = _item.product_id;
+                END IF;
+
+                IF FOUND THEN
+                    INSERT INTO public.stock_movements (order_id, product_id, variant_id, delta, reason)
+                    VALUES (_refund.order_id, _item.product_id, _item.variant_id, _quantity, 'restock');
+                END IF;
+            END IF;
+        END LOOP;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_refund(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Igual que antes; si ya hay un reembolso en curso, el mensaje dice dónde
+-- resolverlo. Con tarjeta queda pending y lo envía a la pasarela la función
+-- refund-payment.
+CREATE OR REPLACE FUNCTION public.create_refund(
+    _order_id UUID,
+    _items JSONB DEFAULT NULL,
+    _restock BOOLEAN DEFAULT false,
+    _reason TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    amount DECIMAL(10,2),
+    status TEXT,
+    provider TEXT,
+    provider_reference TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order public.orders%ROWTYPE;
+    _payment public.payments%ROWTYPE;
+    _refund_id UUID;
+    _amount DECIMAL(10,2);
+    _manual BOOLEAN;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'No tienes permisos para reembolsar pedidos';
+    END IF;
+
+    SELECT * INTO _order
+    FROM public.orders o
+    WHERE o.id = _order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Pedido no encontrado';
+    END IF;
+
+    IF _order.payment_status NOT IN ('paid', 'partially_refunded') THEN
+        RAISE EXCEPTION 'El pedido no tiene pagos que reembolsar';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.refunds r WHERE r.order_id = _order_id AND r.status = 'pending') THEN
+        RAISE EXCEPTION 'Ya hay un reembolso en curso para este pedido. Resuélvelo desde el detalle del pedido.'
+            USING HINT = 'refund_pending';
+    END IF;
+
+    -- El stock de un pedido sin enviar sigue reservado; se libera al cancelarlo
+    IF _restock AND _order.status NOT IN ('shipped', 'delivered') THEN
+        RAISE EXCEPTION 'Solo se puede reponer el stock de pedidos enviados';
+    END IF;
+
+    SELECT * INTO _payment
+    FROM public.payments p
+    WHERE p.order_id = _order_id
+    AND p.status = 'captured'
+    ORDER BY p.created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No se encontró el cobro del pedido';
+    END IF;
+
+    _manual := _payment.provider IN ('cash', 'transfer');
+
+    IF _items IS NULL THEN
+        _amount := _order.total - _order.refunded_total;
+        _items := (
+            SELECT jsonb_agg(jsonb_build_object('order_item_id', oi.id, 'quantity', oi.quantity - oi.refunded_quantity))
+            FROM public.order_items oi
+            WHERE oi.order_id = _order_id
+            AND oi.quantity > oi.refunded_quantity
+        );
+    ELSE
+        IF EXISTS (
+            SELECT 1
+            FROM jsonb_to_recordset(_items) AS i(order_item_id UUID, quantity INTEGER)
+            LEFT JOIN public.order_items oi ON oi.id = i.order_item_id AND oi.order_id = _order_id
+            WHERE oi.id IS NULL
+            OR i.quantity IS NULL
+            OR i.quantity < 1
+            OR i.quantity > oi.quantity - oi.refunded_quantity
+        ) THEN
+            RAISE EXCEPTION 'Las cantidades a reembolsar no son válidas' USING HINT = 'invalid_refund_items';
+        END IF;
+
+        -- El redondeo por línea nunca puede devolver más de lo cobrado
+        SELECT LEAST(SUM(public.refund_line_amount(i.order_item_id, i.quantity)), _order.total - _order.refunded_total)
+        INTO _amount
+        FROM jsonb_to_recordset(_items) AS i(order_item_id UUID, quantity INTEGER);
+    END IF;
+
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'No hay nada que reembolsar' USING HINT = 'invalid_refund_items';
+    END IF;
+
+    INSERT INTO public.refunds AS r (order_id, payment_id, amount, restock, reason, created_by)
+    VALUES (_order_id, _payment.id, _amount, _restock, NULLIF(trim(_reason), ''), auth.uid())
+    RETURNING r.id INTO _refund_id;
+
+    -- Un reembolso solo del envío no tiene productos
+    INSERT INTO public.refund_items (refund_id, order_item_id, quantity, amount)
+    SELECT _refund_id, i.order_item_id, i.quantity, public.refund_line_amount(i.order_item_id, i.quantity)
+    FROM jsonb_to_recordset(COALESCE(_items, '[]')) AS i(order_item_id UUID, quantity INTEGER);
+
+    IF _manual THEN
+        PERFORM public.complete_refund(_refund_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT r.id, r.amount, r.status, _payment.provider, _payment.provider_reference
+    FROM public.refunds r
+    WHERE r.id = _refund_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_refund(UUID, JSONB, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_refund(UUID, JSONB, BOOLEAN, TEXT) TO authenticated;
+
+-- Guarda la respuesta de la pasarela a un reembolso con tarjeta. Solo la
+-- llama la función refund-payment, con la clave de servicio. Un reembolso
+-- que el webhook ya completó se da por bueno.
+CREATE OR REPLACE FUNCTION public.record_refund_result(
+    _refund_id UUID,
+    _status TEXT,
+    _provider_reference TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _current_status TEXT;
+BEGIN
+    IF _status NOT IN ('succeeded', 'failed') THEN
+        RAISE EXCEPTION 'Estado de reembolso no válido';
+    END IF;
+
+    SELECT r.status INTO _current_status
+    FROM public.refunds r
+    WHERE r.id = _refund_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reembolso no encontrado';
+    END IF;
+
+    IF _current_status = 'succeeded' AND _status = 'succeeded' THEN
+        RETURN;
+    END IF;
+
+    IF _current_status <> 'pending' THEN
+        RAISE EXCEPTION 'El reembolso ya está cerrado';
+    END IF;
+
+    UPDATE public.refunds
+    SET provider_reference = COALESCE(_provider_reference, provider_reference)
+    WHERE id = _refund_id;
+
+    IF _status = 'succeeded' THEN
+        PERFORM public.complete_refund(_refund_id);
+    ELSE
+        UPDATE public.refunds SET status = 'failed' WHERE id = _refund_id;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_refund_result(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_refund_result(UUID, TEXT, TEXT) TO service_role;
+
+-- Igual que antes, pero los reembolsos de la pasarela pasan por refunds y
+-- complete_refund, así el pedido, sus líneas y el cobro cuadran siempre. El
+-- evento puede traer el id del reembolso en la pasarela (refund_reference).
+CREATE OR REPLACE FUNCTION public.apply_payment_event(_provider TEXT, _event JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _event_row_id UUID;
+    _type TEXT := _event->>'type';
+    _reference TEXT := _event->>'reference';
+    _amount DECIMAL;
+    _refund_reference TEXT := _event->>'refund_reference';
+    _payment public.payments%ROWTYPE;
+    _refund public.refunds%ROWTYPE;
+    _outcome TEXT := 'applied';
+BEGIN
+    IF COALESCE(_event->>'id', '') = '' OR COALESCE(_type, '') = '' THEN
+        RAISE EXCEPTION 'Evento sin id o sin tipo' USING HINT = 'invalid_event';
+    END IF;
+
+    -- Un importe mal formado no se arregla reintentando: se rechaza con un 400
+    IF jsonb_typeof(_event->'amount') IS DISTINCT FROM 'number' THEN
+        RAISE EXCEPTION 'El evento no tiene un importe válido' USING HINT = 'invalid_event';
+    END IF;
+
+    _amount := (_event->>'amount')::DECIMAL;
+
+    IF _amount < 0 THEN
+        RAISE EXCEPTION 'El evento no tiene un importe válido' USING HINT = 'invalid_event';
+    END IF;
+
+    INSERT INTO public.payment_events (provider, event_id, type, provider_reference, payload)
+    VALUES (_provider, _event->>'id', _type, _reference, _event)
+    ON CONFLICT (provider, event_id) DO NOTHING
+    RETURNING id INTO _event_row_id;
+
+    IF _event_row_id IS NULL THEN
+        RETURN 'duplicate';
+    END IF;
+
+    SELECT * INTO _payment
+    FROM public.payments p
+    WHERE p.provider = _provider
+    AND p.provider_reference = _reference
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        _outcome := 'unknown_payment';
+    ELSIF _type = 'payment.captured' THEN
+        IF _payment.status IN ('refunded', 'chargeback') THEN
+            _outcome := 'stale';
+        ELSIF _amount <> _payment.amount THEN
+            -- Se guarda para revisarlo a mano; el pedido no se da por pagado
+            _outcome := 'amount_mismatch';
+        ELSE
+            UPDATE public.payments SET status = 'captured', failure_code = NULL WHERE id = _payment.id;
+            UPDATE public.orders
+            SET payment_status = 'paid', paid_at = COALESCE(paid_at, now())
+            WHERE id = _payment.order_id;
+        END IF;
+    ELSIF _type = 'payment.failed' THEN
+        IF _payment.status NOT IN ('pending', 'requires_action', 'authorized') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments
+            SET status = 'failed', failure_code = COALESCE(_event->>'failure_code', 'card_declined')
+            WHERE id = _payment.id;
+            UPDATE public.orders
+            SET payment_status = 'failed'
+            WHERE id = _payment.order_id
+            AND payment_status = 'unpaid';
+        END IF;
+    ELSIF _type = 'payment.refunded' THEN
+        IF _payment.status <> 'captured' THEN
+            _outcome := 'stale';
+        ELSE
+            -- El reembolso del panel al que responde el evento: por la referencia
+            -- del reembolso en la pasarela o, si aún no la tiene, por su importe
+            SELECT * INTO _refund
+            FROM public.refunds r
+            WHERE r.payment_id = _payment.id
+            AND r.provider_reference = _refund_reference
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                SELECT * INTO _refund
+                FROM public.refunds r
+                WHERE r.payment_id = _payment.id
+                AND r.status = 'pending'
+                AND r.amount = _amount
+                ORDER BY r.created_at
+                LIMIT 1
+                FOR UPDATE;
+            END IF;
+
+            -- Si no hay ninguno, se hizo desde la pasarela: se registra sin productos
+            IF NOT FOUND AND _payment.refunded_amount < _payment.amount THEN
+                INSERT INTO public.refunds AS r (order_id, payment_id, amount, provider_reference, reason)
+                VALUES (
+                    _payment.order_id,
+                    _payment.id,
+                    LEAST(_amount, _payment.amount - _payment.refunded_amount),
+                    _refund_reference,
+                    'Reembolso hecho desde la pasarela'
+                )
+                RETURNING * INTO _refund;
+            END IF;
+
+            IF _refund.id IS NULL OR _refund.status = 'succeeded' THEN
+                _outcome := 'stale';
+            ELSE
+                UPDATE public.refunds
+                SET provider_reference = COALESCE(provider_reference, _refund_reference)
+                WHERE id = _refund.id;
+
+                PERFORM public.complete_refund(_refund.id);
+
+                IF _payment.refunded_amount + _refund.amount < _payment.amount THEN
+                    _outcome := 'partial_refund';
+                END IF;
+            END IF;
+        END IF;
+    ELSIF _type = 'payment.chargeback' THEN
+        IF _payment.status NOT IN ('captured', 'refunded') THEN
+            _outcome := 'stale';
+        ELSE
+            UPDATE public.payments SET status = 'chargeback' WHERE id = _payment.id;
+            UPDATE public.orders SET payment_status = 'chargeback' WHERE id = _payment.order_id;
+        END IF;
+    ELSE
+        _outcome := 'unknown_type';
+    END IF;
+
+    UPDATE public.payment_events
+    SET payment_id = _payment.id, outcome = _outcome, processed_at = now()
+    WHERE id = _event_row_id;
+
+    RETURN _outcome;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_payment_event(TEXT, JSONB) TO service_role;
@@ -0,0 +1,15 @@
+-- =====================================================
+-- NOTAS INTERNAS DE PEDIDOS: SOLO AÑADIR
+-- =====================================================
+
+-- Es un registro de auditoría: cada admin firma las suyas y nadie las edita
+-- ni las borra.
+DROP POLICY "Admins can manage order notes" ON public.order_notes;
+
+CREATE POLICY "Admins can view order notes"
+    ON public.order_notes FOR SELECT
+    USING (public.is_admin());
+
+CREATE POLICY "Admins can add own order notes"
+    ON public.order_notes FOR INSERT
+    WITH CHECK (public.is_admin() AND author_id = auth.uid());
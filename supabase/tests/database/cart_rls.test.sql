@@ -0,0 +1,117 @@
+-- =====================================================
+-- RLS DE CARRITOS DE INVITADO
+-- Ejecutar con: supabase test db
+-- =====================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(12);
+
+-- Dos invitados con sesión anónima y un usuario registrado
+INSERT INTO auth.users (id, aud, role, email, is_anonymous) VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'authenticated', 'authenticated', NULL, true),
+    ('00000000-0000-0000-0000-0000000000b2', 'authenticated', 'authenticated', NULL, true),
+    ('00000000-0000-0000-0000-0000000000c3', 'authenticated', 'authenticated', 'cliente@example.com', false);
+
+INSERT INTO public.carts (id, user_id) VALUES
+    ('10000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a1'),
+    ('10000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000b2');
+
+INSERT INTO public.cart_items (cart_id, product_id, quantity)
+SELECT '10000000-0000-0000-0000-0000000000b2', id, 1
+FROM public.products
+WHERE NOT has_variants AND stock > 1
+ORDER BY id
+LIMIT 1;
+
+-- Actuar como el invitado A
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+    'request.jwt.claims',
+    '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated", "is_anonymous": true}',
+    true
+);
+
+SELECT results_eq(
+    'SELECT id FROM public.carts',
+    $$VALUES ('10000000-0000-0000-0000-0000000000a1'::UUID)$$,
+    'Un invitado solo ve su propio carrito'
+);
+
+SELECT is_empty(
+    $$SELECT 1 FROM public.cart_items WHERE cart_id = '10000000-0000-0000-0000-0000000000b2'$$,
+    'Un invitado no ve las líneas de otro carrito'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO public.cart_items (cart_id, product_id, quantity)
+      SELECT '10000000-0000-0000-0000-0000000000b2', id, 1 FROM public.products LIMIT 1$$,
+    '42501',
+    NULL,
+    'Un invitado no puede añadir líneas a otro carrito'
+);
+
+SELECT is_empty(
+    $$UPDATE public.cart_items SET quantity = 5
+      WHERE cart_id = '10000000-0000-0000-0000-0000000000b2' RETURNING id$$,
+    'Un invitado no puede cambiar cantidades de otro carrito'
+);
+
+SELECT is_empty(
+    $$DELETE FROM public.carts WHERE id = '10000000-0000-0000-0000-0000000000b2' RETURNING id$$,
+    'Un invitado no puede borrar otro carrito'
+);
+
+SELECT throws_ok(
+    $$SELECT * FROM public.add_cart_item(
+        '10000000-0000-0000-0000-0000000000b2',
+        (SELECT product_id FROM public.cart_items LIMIT 1)
+    )$$,
+    'Carrito no encontrado',
+    'add_cart_item rechaza carritos ajenos'
+);
+
+SELECT throws_ok(
+    $$INSERT INTO public.carts (user_id) VALUES ('00000000-0000-0000-0000-0000000000b2')$$,
+    '42501',
+    NULL,
+    'Un invitado no puede crear carritos a nombre de otro'
+);
+
+SELECT throws_ok(
+    $$SELECT * FROM public.merge_guest_cart('10000000-0000-0000-0000-0000000000b2')$$,
+    'Debes iniciar sesión para fusionar el carrito',
+    'Un invitado no puede fusionar carritos'
+);
+
+-- Sin sesión (rol anon) no hay carritos visibles
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is_empty('SELECT 1 FROM public.carts', 'Sin sesión no se ve ningún carrito');
+SELECT is_empty('SELECT 1 FROM public.cart_items', 'Sin sesión no se ve ninguna línea');
+
+-- El usuario registrado fusiona el carrito del invitado B
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+    'request.jwt.claims',
+    '{"sub": "00000000-0000-0000-0000-0000000000c3", "role": "authenticated", "is_anonymous": false}',
+    true
+);
+
+SELECT is(
+    (SELECT COUNT(*)::INTEGER FROM public.merge_guest_cart('10000000-0000-0000-0000-0000000000b2')),
+    1,
+    'La fusión trae las líneas del carrito de invitado'
+);
+
+SELECT results_eq(
+    'SELECT SUM(quantity)::INTEGER FROM public.cart_items',
+    ARRAY[1],
+    'Las líneas fusionadas quedan en el carrito del usuario'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
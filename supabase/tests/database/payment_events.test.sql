@@ -0,0 +1,115 @@
+-- =====================================================
+-- EVENTOS DEL WEBHOOK DE PAGOS
+-- Ejecutar con: supabase test db
+-- =====================================================
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(16);
+
+INSERT INTO auth.users (id, aud, role, email) VALUES
+    ('00000000-0000-0000-0000-0000000000d4', 'authenticated', 'authenticated', 'pagos@example.com');
+
+INSERT INTO public.orders (id, user_id, subtotal, total, status, payment_method) VALUES
+    ('20000000-0000-0000-0000-0000000000d4', '00000000-0000-0000-0000-0000000000d4', 50, 50, 'pending', 'card'),
+    ('20000000-0000-0000-0000-0000000000d5', '00000000-0000-0000-0000-0000000000d4', 50, 50, 'pending', 'card');
+
+INSERT INTO public.payments (order_id, provider, provider_reference, status, amount) VALUES
+    ('20000000-0000-0000-0000-0000000000d4', 'mock', 'pay_mock_success_t1', 'authorized', 50),
+    ('20000000-0000-0000-0000-0000000000d5', 'mock', 'pay_mock_success_t2', 'authorized', 50);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_1", "type": "payment.captured", "reference": "pay_mock_success_t1", "amount": 50}'),
+    'applied',
+    'Un cobro confirmado se aplica'
+);
+
+SELECT is(
+    (SELECT payment_status FROM public.orders WHERE id = '20000000-0000-0000-0000-0000000000d4'),
+    'paid',
+    'El pedido queda pagado'
+);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_1", "type": "payment.captured", "reference": "pay_mock_success_t1", "amount": 50}'),
+    'duplicate',
+    'Un reenvío del mismo evento no se aplica dos veces'
+);
+
+SELECT is(
+    (SELECT COUNT(*)::INTEGER FROM public.payment_events WHERE event_id = 'evt_1'),
+    1,
+    'Cada evento se guarda una sola vez'
+);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_2", "type": "payment.failed", "reference": "pay_mock_success_t1", "amount": 50}'),
+    'stale',
+    'Un fallo que llega después del cobro no lo deshace'
+);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_3", "type": "payment.refunded", "reference": "pay_mock_success_t1", "amount": 20}'),
+    'partial_refund',
+    'Un reembolso parcial no cambia el estado del cobro'
+);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_4", "type": "payment.refunded", "reference": "pay_mock_success_t1", "amount": 30}'),
+    'applied',
+    'Los reembolsos parciales que suman todo lo cobrado lo dejan reembolsado'
+);
+
+SELECT is(
+    (SELECT payment_status FROM public.orders WHERE id = '20000000-0000-0000-0000-0000000000d4'),
+    'refunded',
+    'El pedido queda reembolsado'
+);
+
+SELECT is(
+    (SELECT refunded_total FROM public.orders WHERE id = '20000000-0000-0000-0000-0000000000d4'),
+    50.00::DECIMAL(10,2),
+    'Los reembolsos de la pasarela cuentan en lo reembolsado del pedido'
+);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_7", "type": "payment.captured", "reference": "pay_mock_success_t2", "amount": 40}'),
+    'amount_mismatch',
+    'Un cobro por otro importe se guarda sin aplicarse'
+);
+
+SELECT is(
+    (SELECT payment_status FROM public.orders WHERE id = '20000000-0000-0000-0000-0000000000d5'),
+    'unpaid',
+    'El pedido con el importe distinto no queda pagado'
+);
+
+SELECT is(
+    public.apply_payment_event('mock', '{"id": "evt_5", "type": "payment.captured", "reference": "pay_mock_success_otro", "amount": 50}'),
+    'unknown_payment',
+    'Los eventos de pagos desconocidos se guardan sin aplicarse'
+);
+
+SELECT throws_ok(
+    $$SELECT public.apply_payment_event('mock', '{"id": "evt_6", "type": "payment.refunded", "reference": "pay_mock_success_t1", "amount": "diez"}')$$,
+    'El evento no tiene un importe válido',
+    'Un importe mal formado se rechaza'
+);
+
+SELECT ok(
+    NOT has_function_privilege('authenticated', 'public.record_payment_capture(uuid, text, text)', 'execute'),
+    'Los clientes no pueden dar un pago por cobrado'
+);
+
+SELECT ok(
+    NOT has_function_privilege('authenticated', 'public.record_refund_result(uuid, text, text)', 'execute'),
+    'Los clientes no pueden dar un reembolso por hecho'
+);
+
+SELECT ok(
+    NOT has_function_privilege('authenticated', 'public.apply_payment_event(text, jsonb)', 'execute'),
+    'Los clientes no pueden aplicar eventos'
+);
+
+SELECT * FROM finish();
+ROLLBACK;